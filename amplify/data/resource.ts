@@ -41,6 +41,41 @@ const schema = a.schema({
     .returns(a.json())
     .authorization((allow) => [allow.guest()])
     .handler(a.handler.function(assessRisks)),
+
+  // Bedrock generation routes behind the "amplify" language model provider in the app
+  analyzeLegalDocuments: a
+    .generation({
+      aiModel: a.ai.model("Claude 3.5 Sonnet v2"),
+      systemPrompt:
+        "You are a legal assistant for Malaysian law. Analyze the documents in `snippets` (and the tables in `tables`, when given) " +
+        "to answer `userQuestion`. Reply with JSON only, shaped as " +
+        '{"important_clauses":[{"clause_title","clause_text","summary","relevant_law"}],' +
+        '"legal_risks":[{"risk_area","description","potential_consequence","related_clause","relevant_law",' +
+        '"severity","likelihood","impact","recommended_action","rationale"}],"notes"}. ' +
+        'Rate severity, likelihood and impact as "low", "medium" or "high"; rationale explains the rating.',
+    })
+    .arguments({
+      userQuestion: a.string(),
+      snippets: a.string().array(),
+      tables: a.json(),
+    })
+    .returns(a.string())
+    .authorization((allow) => [allow.guest()]),
+
+  chatWithDocuments: a
+    .generation({
+      aiModel: a.ai.model("Claude 3.5 Sonnet v2"),
+      systemPrompt:
+        "You are a legal assistant for Malaysian law. Answer `userMessage` using the documents in `legalText` and their " +
+        "analysis in `summarizedJson`. Cite page markers such as [Page 3] where the text has them. Answer in Markdown.",
+    })
+    .arguments({
+      userMessage: a.string(),
+      legalText: a.string(),
+      summarizedJson: a.json(),
+    })
+    .returns(a.string())
+    .authorization((allow) => [allow.guest()]),
 });
 
 export type Schema = ClientSchema<typeof schema>;
@@ -14,6 +14,7 @@ import {
   ChevronUp,
 } from "lucide-react";
 import { DocumentAnalysisResult } from "@/hooks/uploadedFileContext";
+import { formatRiskLevel, getRiskSeverityStyle, sortRisksBySeverity } from "@/lib/riskLevels";
 
 interface AnalysisSummaryPanelProps {
   analysisResult: DocumentAnalysisResult | null;
@@ -56,21 +57,6 @@ export const AnalysisSummaryPanel: React.FC<AnalysisSummaryPanelProps> = ({
     };
   }, [isOpen, onClose]);
 
-  const getRiskSeverityColor = (riskArea: string) => {
-    const highRiskTerms = ['termination', 'liability', 'penalty', 'breach', 'dispute'];
-    const mediumRiskTerms = ['payment', 'delivery', 'performance', 'intellectual', 'confidentiality'];
-    
-    const lowerRiskArea = riskArea.toLowerCase();
-    
-    if (highRiskTerms.some(term => lowerRiskArea.includes(term))) {
-      return { color: 'text-red-600', bg: 'bg-red-50 border-red-200', severity: 'High' };
-    } else if (mediumRiskTerms.some(term => lowerRiskArea.includes(term))) {
-      return { color: 'text-yellow-600', bg: 'bg-yellow-50 border-yellow-200', severity: 'Medium' };
-    } else {
-      return { color: 'text-green-600', bg: 'bg-green-50 border-green-200', severity: 'Low' };
-    }
-  };
-
   const toggleClausesSection = () => {
     setClausesExpanded(prev => !prev);
   };
@@ -159,6 +145,11 @@ export const AnalysisSummaryPanel: React.FC<AnalysisSummaryPanelProps> = ({
                                 <h4 className="font-medium text-blue-900 text-sm">
                                   {clause.clause_title}
                                 </h4>
+                                {clause.origin === 'rules' && (
+                                  <Badge variant="secondary" className="text-xs" title="Found by the offline clause detector">
+                                    Rule-based
+                                  </Badge>
+                                )}
                                 {clause.relevant_law && (
                                   <Badge variant="outline" className="text-xs">
                                     <BookOpen className="w-3 h-3 mr-1" />
@@ -216,8 +207,8 @@ export const AnalysisSummaryPanel: React.FC<AnalysisSummaryPanelProps> = ({
                           No legal risks identified in the document.
                         </div>
                       ) : (
-                        analysisResult.legal_risks.map((risk, index) => {
-                        const severityStyle = getRiskSeverityColor(risk.risk_area);
+                        sortRisksBySeverity(analysisResult.legal_risks).map((risk, index) => {
+                        const severityStyle = getRiskSeverityStyle(risk.severity);
                         return (
                           <Card key={index} className={`${severityStyle.bg} border text-sm`}>
                             <CardContent className="p-3">
@@ -228,7 +219,7 @@ export const AnalysisSummaryPanel: React.FC<AnalysisSummaryPanelProps> = ({
                                   </h4>
                                   <Badge variant="outline" className={`text-xs ${severityStyle.color}`}>
                                     <AlertTriangle className="w-3 h-3 mr-1" />
-                                    {severityStyle.severity}
+                                    {severityStyle.label}
                                   </Badge>
                                 </div>
                                 <p className="text-xs">
@@ -245,6 +236,23 @@ export const AnalysisSummaryPanel: React.FC<AnalysisSummaryPanelProps> = ({
                                     <strong>Relevant Law:</strong> {risk.relevant_law}
                                   </p>
                                 )}
+                                {(risk.likelihood || risk.impact) && (
+                                  <p className="text-xs">
+                                    <strong>Likelihood:</strong> {risk.likelihood ? formatRiskLevel(risk.likelihood) : 'Not rated'}
+                                    {' · '}
+                                    <strong>Impact:</strong> {risk.impact ? formatRiskLevel(risk.impact) : 'Not rated'}
+                                  </p>
+                                )}
+                                {risk.rationale && (
+                                  <p className="text-xs text-muted-foreground">
+                                    <strong>Why this rating:</strong> {risk.rationale}
+                                  </p>
+                                )}
+                                {risk.recommended_action && (
+                                  <p className="text-xs">
+                                    <strong>Recommended Action:</strong> {risk.recommended_action}
+                                  </p>
+                                )}
                               </div>
                             </CardContent>
                           </Card>
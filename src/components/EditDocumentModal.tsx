@@ -1,19 +1,144 @@
-import { useState } from "react";
+import { Fragment, ReactNode, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { X } from "lucide-react";
+import { ChevronLeft, ChevronRight, Loader2, ScanText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  cropImageRegion,
+  findLowConfidenceWords,
+  getOCRSourceImage,
+  relocateWord,
+  UnifiedExtractionResult,
+} from "@/services/textExtractor";
 
 interface EditDocumentModalProps {
   file: File;
   initialText: string;
+  highlightRange?: { start: number; end: number }; // Character range to select and scroll to on open
+  extractionResult?: UnifiedExtractionResult; // Extraction behind initialText; enables OCR word review
   isOpen: boolean;
   onSave: (newText: string) => void;
   onClose: () => void;
 }
 
-export function EditDocumentModal({ file, initialText, isOpen, onSave, onClose }: EditDocumentModalProps) {
+// Select a character range and scroll it to the upper third of the textarea
+function selectTextareaRange(textarea: HTMLTextAreaElement | null, start: number, end: number) {
+  if (!textarea) return;
+
+  textarea.focus();
+  textarea.setSelectionRange(start, end);
+
+  const linesBefore = textarea.value.slice(0, start).split('\n').length - 1;
+  const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+  textarea.scrollTop = Math.max(0, linesBefore * lineHeight - textarea.clientHeight / 3);
+}
+
+export function EditDocumentModal({ file, initialText, highlightRange, extractionResult, isOpen, onSave, onClose }: EditDocumentModalProps) {
   const [text, setText] = useState(initialText);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [wordPreview, setWordPreview] = useState<{ url?: string; loading: boolean }>({ loading: false });
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const sourceImagesRef = useRef(new Map<string, Promise<Blob>>());
+
+  // Word offsets only hold for the text they were extracted from
+  const flaggedWords = useMemo(
+    () => (extractionResult && extractionResult.text === initialText ? findLowConfidenceWords(extractionResult.anchors) : []),
+    [extractionResult, initialText]
+  );
+
+  // Follow flagged words through edits; a word that no longer matches counts as corrected
+  const pendingWords = useMemo(() => {
+    const lengthChange = text.length - initialText.length;
+    return flaggedWords.flatMap((word) => {
+      const range = relocateWord(text, word, lengthChange);
+      return range ? [{ word, ...range }] : [];
+    });
+  }, [flaggedWords, text, initialText]);
+
+  const isReviewing = flaggedWords.length > 0;
+  const currentIndex = Math.min(reviewIndex, pendingWords.length - 1);
+  const currentWord = pendingWords.length > 0 ? pendingWords[currentIndex] : undefined;
+
+  const syncBackdropScroll = () => {
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  // Select the cited range and scroll it into view once the dialog has rendered
+  useEffect(() => {
+    if (!isOpen || !highlightRange) return;
+
+    const frame = requestAnimationFrame(() => {
+      selectTextareaRange(textareaRef.current, highlightRange.start, highlightRange.end);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, highlightRange]);
+
+  // Show the part of the scanned image the current word was read from
+  const previewWord = currentWord?.word;
+  useEffect(() => {
+    if (!isOpen || !previewWord) return;
+
+    let cancelled = false;
+    const sourceKey = previewWord.page !== undefined ? `page-${previewWord.page}` : 'image';
+    let sourceImage = sourceImagesRef.current.get(sourceKey);
+    if (!sourceImage) {
+      sourceImage = getOCRSourceImage(file, previewWord.page, extractionResult?.ocrImage);
+      sourceImagesRef.current.set(sourceKey, sourceImage);
+    }
+
+    setWordPreview({ loading: true });
+    sourceImage
+      .then((image) => cropImageRegion(image, previewWord.bbox))
+      .then((url) => {
+        if (!cancelled) setWordPreview({ url, loading: false });
+      })
+      .catch((error) => {
+        console.error('Error loading OCR word preview:', error);
+        sourceImagesRef.current.delete(sourceKey);
+        if (!cancelled) setWordPreview({ loading: false });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, previewWord, file, extractionResult]);
+
+  const goToWord = (index: number) => {
+    if (pendingWords.length === 0) return;
+    const nextIndex = (index + pendingWords.length) % pendingWords.length;
+    setReviewIndex(nextIndex);
+    selectTextareaRange(textareaRef.current, pendingWords[nextIndex].start, pendingWords[nextIndex].end);
+    syncBackdropScroll();
+  };
+
+  const renderHighlights = () => {
+    const segments: ReactNode[] = [];
+    let cursor = 0;
+    pendingWords.forEach((pending, index) => {
+      if (pending.start < cursor) return;
+      segments.push(<Fragment key={`text-${index}`}>{text.slice(cursor, pending.start)}</Fragment>);
+      segments.push(
+        <mark
+          key={`word-${index}`}
+          className={cn(
+            "rounded-sm text-transparent",
+            pending === currentWord ? "bg-orange-300/80" : "bg-yellow-200/70"
+          )}
+        >
+          {text.slice(pending.start, pending.end)}
+        </mark>
+      );
+      cursor = pending.end;
+    });
+    // A trailing newline keeps the last line's height in step with the textarea
+    segments.push(<Fragment key="text-end">{text.slice(cursor) + '\n'}</Fragment>);
+    return segments;
+  };
 
   const handleSave = () => {
     onSave(text);
@@ -27,22 +152,88 @@ export function EditDocumentModal({ file, initialText, isOpen, onSave, onClose }
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="max-w-4xl max-h-[80vh] flex flex-col">
+      <DialogContent className={cn("max-h-[80vh] flex flex-col", isReviewing ? "max-w-6xl" : "max-w-4xl")}>
         <DialogHeader>
           <DialogTitle className="flex items-center justify-between">
             <span>Edit Document - {file.name}</span>
           </DialogTitle>
         </DialogHeader>
-        
-        <div className="flex-1 overflow-hidden">
-          <Textarea
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            placeholder="Edit document content here..."
-            className="min-h-[400px] resize-none bg-background text-foreground border-border"
-          />
+
+        <div className="flex-1 overflow-hidden flex gap-4">
+          <div className="relative flex-1">
+            {isReviewing && (
+              <div
+                ref={backdropRef}
+                aria-hidden="true"
+                className="absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent bg-background px-3 py-2 text-sm text-transparent"
+              >
+                {renderHighlights()}
+              </div>
+            )}
+            <Textarea
+              ref={textareaRef}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onScroll={syncBackdropScroll}
+              placeholder="Edit document content here..."
+              className={cn(
+                "min-h-[400px] h-full resize-none text-foreground border-border",
+                isReviewing ? "relative bg-transparent" : "bg-background"
+              )}
+            />
+          </div>
+
+          {isReviewing && (
+            <div className="w-64 shrink-0 space-y-3 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                <ScanText className="w-4 h-4" />
+                <span>Low-confidence OCR words</span>
+              </div>
+
+              {currentWord ? (
+                <>
+                  <p className="text-muted-foreground">
+                    Word {currentIndex + 1} of {pendingWords.length}
+                    {currentWord.word.page !== undefined && ` · page ${currentWord.word.page}`}
+                  </p>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono break-all">{currentWord.word.text}</span>
+                    <Badge variant="outline">{Math.round(currentWord.word.confidence)}%</Badge>
+                  </div>
+
+                  <div className="flex min-h-[80px] items-center justify-center rounded-md border border-border bg-muted p-2">
+                    {wordPreview.loading ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    ) : wordPreview.url ? (
+                      <img src={wordPreview.url} alt={`Scanned image of "${currentWord.word.text}"`} className="max-h-40 max-w-full" />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">Preview unavailable</span>
+                    )}
+                  </div>
+
+                  <p className="text-xs text-muted-foreground">
+                    Check names, IC numbers and amounts against the image, then correct the text.
+                  </p>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => goToWord(currentIndex - 1)}>
+                      <ChevronLeft className="w-4 h-4" />
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => goToWord(currentIndex + 1)}>
+                      Next
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-muted-foreground">All {flaggedWords.length} flagged words have been corrected.</p>
+              )}
+            </div>
+          )}
         </div>
-        
+
         <DialogFooter className="flex gap-2">
           <Button variant="outline" onClick={handleClose}>
             Cancel
@@ -54,4 +245,4 @@ export function EditDocumentModal({ file, initialText, isOpen, onSave, onClose }
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardPaste } from "lucide-react";
+
+interface PasteTextDialogProps {
+  isOpen: boolean;
+  initialText?: string; // Text pasted with Ctrl+V before the dialog opened
+  defaultTitle: string;
+  onSubmit: (title: string, text: string) => void;
+  onClose: () => void;
+}
+
+// Turns text copied from a chat or an email into a document of its own
+export function PasteTextDialog({ isOpen, initialText = "", defaultTitle, onSubmit, onClose }: PasteTextDialogProps) {
+  const [title, setTitle] = useState(defaultTitle);
+  const [text, setText] = useState(initialText);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(defaultTitle);
+      setText(initialText);
+    }
+  }, [isOpen, defaultTitle, initialText]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    onSubmit(title.trim() || defaultTitle, text);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ClipboardPaste className="w-4 h-4" />
+              Paste text as document
+            </DialogTitle>
+            <DialogDescription>
+              Paste a clause or message, e.g. from WhatsApp or an email. It is analyzed together with your other documents.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="pasted-title">Name</Label>
+            <Input
+              id="pasted-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pasted-text">Text</Label>
+            <Textarea
+              id="pasted-text"
+              autoFocus
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="min-h-[240px]"
+            />
+          </div>
+
+          <DialogFooter className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!text.trim()}>
+              Add document
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
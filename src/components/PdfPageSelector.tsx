@@ -0,0 +1,164 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Files, Loader2 } from "lucide-react";
+import { formatPageRanges, parsePageRanges, renderPDFThumbnails } from "@/services/textExtractor";
+
+interface PdfPageSelectorProps {
+  isOpen: boolean;
+  file: File;
+  pageCount: number;
+  initialSelection?: number[]; // Pages chosen before; all pages when not given
+  onSubmit: (pageNumbers: number[]) => void;
+  onClose: () => void;
+}
+
+const listPages = (pageCount: number) => Array.from({ length: pageCount }, (_, i) => i + 1);
+
+// Lets long PDFs such as loan facility bundles be extracted without their annexures
+export function PdfPageSelector({ isOpen, file, pageCount, initialSelection, onSubmit, onClose }: PdfPageSelectorProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rangeText, setRangeText] = useState("");
+  const [rangeError, setRangeError] = useState<string>();
+  const [thumbnails, setThumbnails] = useState<Map<number, string>>(new Map());
+
+  // Start from the earlier choice each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      const pages = initialSelection || listPages(pageCount);
+      setSelected(new Set(pages));
+      setRangeText(formatPageRanges(pages));
+      setRangeError(undefined);
+    }
+  }, [isOpen, initialSelection, pageCount]);
+
+  // Thumbnails stream in one page at a time while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const urls: string[] = [];
+    renderPDFThumbnails(file, listPages(pageCount), {
+      signal: controller.signal,
+      onThumbnail: (pageNumber, image) => {
+        const url = URL.createObjectURL(image);
+        urls.push(url);
+        setThumbnails((prev) => new Map(prev).set(pageNumber, url));
+      },
+    }).catch((error) => console.error('Error rendering page previews:', error));
+
+    return () => {
+      controller.abort();
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      setThumbnails(new Map());
+    };
+  }, [isOpen, file, pageCount]);
+
+  const updateSelection = (pages: number[]) => {
+    setSelected(new Set(pages));
+    setRangeText(formatPageRanges(pages));
+    setRangeError(undefined);
+  };
+
+  const togglePage = (pageNumber: number) => {
+    const pages = new Set(selected);
+    if (pages.has(pageNumber)) {
+      pages.delete(pageNumber);
+    } else {
+      pages.add(pageNumber);
+    }
+    updateSelection(Array.from(pages));
+  };
+
+  const handleRangeChange = (value: string) => {
+    setRangeText(value);
+    try {
+      setSelected(new Set(parsePageRanges(value, pageCount)));
+      setRangeError(undefined);
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : 'Invalid page range');
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (rangeError || selected.size === 0) return;
+    onSubmit(Array.from(selected).sort((a, b) => a - b));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Files className="w-4 h-4" />
+              Choose pages to extract
+            </DialogTitle>
+            <DialogDescription>
+              {file.name} has {pageCount} pages. Leave out pages you don't need analyzed, e.g. annexures or schedules.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="page-ranges">Pages</Label>
+            <div className="flex gap-2">
+              <Input
+                id="page-ranges"
+                value={rangeText}
+                onChange={(e) => handleRangeChange(e.target.value)}
+                placeholder="e.g. 1-12, 15"
+              />
+              <Button type="button" variant="outline" onClick={() => updateSelection(listPages(pageCount))}>
+                All pages
+              </Button>
+            </div>
+            {rangeError && <p className="text-sm text-destructive">{rangeError}</p>}
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {listPages(pageCount).map((pageNumber) => {
+              const isSelected = selected.has(pageNumber);
+              const thumbnail = thumbnails.get(pageNumber);
+              return (
+                <button
+                  key={pageNumber}
+                  type="button"
+                  onClick={() => togglePage(pageNumber)}
+                  className={`shrink-0 w-20 rounded border-2 p-0.5 text-xs transition-opacity ${
+                    isSelected ? 'border-primary' : 'border-transparent opacity-40'
+                  }`}
+                  aria-pressed={isSelected}
+                  aria-label={`Page ${pageNumber}`}
+                >
+                  {thumbnail ? (
+                    <img src={thumbnail} alt="" className="w-full aspect-[3/4] object-contain bg-white rounded-sm" />
+                  ) : (
+                    <div className="w-full aspect-[3/4] flex items-center justify-center bg-muted rounded-sm">
+                      <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+                    </div>
+                  )}
+                  <span className="block mt-0.5 text-center">{pageNumber}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          <DialogFooter className="flex gap-2">
+            <span className="text-sm text-muted-foreground self-center mr-auto">
+              {selected.size} of {pageCount} pages selected
+            </span>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!!rangeError || selected.size === 0}>
+              Extract {selected.size} {selected.size === 1 ? 'page' : 'pages'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { FormEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { PdfPasswordReason } from "@/services/textExtractor";
+
+interface PdfPasswordDialogProps {
+  fileName: string;
+  reason: PdfPasswordReason; // 'incorrect' after a wrong password was tried
+  isOpen: boolean;
+  onSubmit: (password: string) => void; // Password is handed over once and not kept here
+  onClose: () => void;
+}
+
+export function PdfPasswordDialog({ fileName, reason, isOpen, onSubmit, onClose }: PdfPasswordDialogProps) {
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!password) return;
+
+    const submitted = password;
+    setPassword(""); // Don't keep the password in state once it has been used
+    onSubmit(submitted);
+  };
+
+  const handleClose = () => {
+    setPassword("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="w-4 h-4" />
+              Unlock {fileName}
+            </DialogTitle>
+            <DialogDescription>
+              {reason === 'incorrect'
+                ? "That password didn't work. Please try again."
+                : "This PDF is password protected. Enter its password to extract the text."}{" "}
+              The password is only used in your browser to open the file and is never saved or uploaded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="pdf-password">Password</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
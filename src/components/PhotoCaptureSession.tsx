@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { ArrowLeft, ArrowRight, Camera, RefreshCw, Trash2 } from "lucide-react";
+
+interface CapturedPhoto {
+  id: number;
+  file: File;
+  previewUrl: string; // Object URL, revoked when the photo is removed or replaced
+}
+
+interface PhotoCaptureSessionProps {
+  isOpen: boolean;
+  onComplete: (pages: File[]) => void; // Page photos in reading order
+  onClose: () => void;
+}
+
+let nextPhotoId = 0;
+
+// Photographs a paper document page by page so it's analyzed as one document rather than one per photo
+export function PhotoCaptureSession({ isOpen, onComplete, onClose }: PhotoCaptureSessionProps) {
+  const [photos, setPhotos] = useState<CapturedPhoto[]>([]);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const retakeIndexRef = useRef<number | null>(null);
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  // Release previews still held when the page is left mid-session
+  useEffect(() => {
+    return () => photosRef.current.forEach((photo) => URL.revokeObjectURL(photo.previewUrl));
+  }, []);
+
+  const toPhoto = (file: File): CapturedPhoto => ({
+    id: ++nextPhotoId,
+    file,
+    previewUrl: URL.createObjectURL(file),
+  });
+
+  const takePhoto = (retakeIndex: number | null) => {
+    retakeIndexRef.current = retakeIndex;
+    cameraInputRef.current?.click();
+  };
+
+  const handlePhotoTaken = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    const retakeIndex = retakeIndexRef.current;
+    retakeIndexRef.current = null;
+    // Reset input to allow taking the same photo again
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    if (retakeIndex !== null && photos[retakeIndex]) {
+      URL.revokeObjectURL(photos[retakeIndex].previewUrl);
+      const retaken = toPhoto(files[0]);
+      setPhotos(photos.map((photo, index) => (index === retakeIndex ? retaken : photo)));
+    } else {
+      setPhotos([...photos, ...files.map(toPhoto)]);
+    }
+  };
+
+  const movePhoto = (index: number, offset: number) => {
+    setPhotos((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    setPhotos(photos.filter((_, i) => i !== index));
+  };
+
+  const reset = () => {
+    photos.forEach((photo) => URL.revokeObjectURL(photo.previewUrl));
+    setPhotos([]);
+  };
+
+  const handleDone = () => {
+    const pages = photos.map((photo) => photo.file);
+    reset();
+    onComplete(pages);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Camera className="w-4 h-4" />
+            Photograph a document
+          </DialogTitle>
+          <DialogDescription>
+            Take a photo of each page in order. You can reorder or retake pages before adding them as one document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handlePhotoTaken}
+          className="hidden"
+          aria-label="Take page photo"
+        />
+
+        {photos.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-8 border border-dashed rounded-lg">
+            No pages yet
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-3 max-h-[50vh] overflow-y-auto">
+            {photos.map((photo, index) => (
+              <div key={photo.id} className="border rounded-lg p-1 space-y-1">
+                <div className="relative">
+                  <img
+                    src={photo.previewUrl}
+                    alt={`Page ${index + 1}`}
+                    className="w-full aspect-[3/4] object-cover rounded"
+                  />
+                  <span className="absolute top-1 left-1 rounded bg-background/80 px-1.5 text-xs font-medium">
+                    {index + 1}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => movePhoto(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move page ${index + 1} earlier`}
+                  >
+                    <ArrowLeft className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => takePhoto(index)}
+                    aria-label={`Retake page ${index + 1}`}
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 hover:text-red-600"
+                    onClick={() => removePhoto(index)}
+                    aria-label={`Remove page ${index + 1}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => movePhoto(index, 1)}
+                    disabled={index === photos.length - 1}
+                    aria-label={`Move page ${index + 1} later`}
+                  >
+                    <ArrowRight className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-2">
+          <Button type="button" variant="outline" onClick={() => takePhoto(null)}>
+            <Camera className="w-4 h-4 mr-2" />
+            {photos.length === 0 ? 'Take first page' : `Take page ${photos.length + 1}`}
+          </Button>
+          <Button type="button" onClick={handleDone} disabled={photos.length === 0}>
+            Add document ({photos.length} {photos.length === 1 ? 'page' : 'pages'})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
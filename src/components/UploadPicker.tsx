@@ -1,20 +1,28 @@
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Upload, Camera } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { PhotoCaptureSession } from "@/components/PhotoCaptureSession";
 
 interface UploadPickerProps {
   mode: "document" | "photo";
   multiple: boolean;
   onFilesSelected: (files: File[]) => void;
+  onPhotosCaptured?: (pages: File[]) => void; // When set, "Take photo" runs a capture session for one multi-page document
   disabled?: boolean;
 }
 
-export function UploadPicker({ mode, multiple, onFilesSelected, disabled }: UploadPickerProps) {
+export function UploadPicker({ mode, multiple, onFilesSelected, onPhotosCaptured, disabled }: UploadPickerProps) {
   const documentInputRef = useRef<HTMLInputElement>(null);
   const photoInputRef = useRef<HTMLInputElement>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
   const isMobile = useIsMobile();
 
+  const handlePhotosCaptured = (pages: File[]) => {
+    setIsCapturing(false);
+    onPhotosCaptured?.(pages);
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
     if (files.length > 0) {
@@ -31,7 +39,7 @@ export function UploadPicker({ mode, multiple, onFilesSelected, disabled }: Uplo
         ref={documentInputRef}
         type="file"
         multiple={multiple}
-        accept="application/pdf,.doc,.docx,.txt,image/*"
+        accept="application/pdf,.doc,.docx,.odt,.rtf,.txt,.eml,.msg,.zip,image/*"
         onChange={handleFileChange}
         className="hidden"
         aria-label="Upload documents"
@@ -64,7 +72,7 @@ export function UploadPicker({ mode, multiple, onFilesSelected, disabled }: Uplo
           <Button
             variant="outline"
             size="sm"
-            onClick={() => photoInputRef.current?.click()}
+            onClick={() => onPhotosCaptured ? setIsCapturing(true) : photoInputRef.current?.click()}
             disabled={disabled}
             className="flex items-center gap-2 min-h-[40px]"
           >
@@ -72,6 +80,13 @@ export function UploadPicker({ mode, multiple, onFilesSelected, disabled }: Uplo
             <span className="hidden sm:inline">Take photo</span>
             <span className="sm:hidden">Photo</span>
           </Button>
+          {onPhotosCaptured && (
+            <PhotoCaptureSession
+              isOpen={isCapturing}
+              onComplete={handlePhotosCaptured}
+              onClose={() => setIsCapturing(false)}
+            />
+          )}
         </>
       )}
     </div>
@@ -10,14 +10,33 @@ export interface ImportantClause {
   clause_text: string;
   summary: string;
   relevant_law?: string;
+  source_chunks?: number[]; // Chunks of a chunked analysis that reported the clause
+  origin?: 'ai' | 'rules'; // Found by the AI or by the offline clause detector; the AI when missing
 }
 
+// Rating the model gives a risk's severity, likelihood and impact
+export type RiskLevel = 'low' | 'medium' | 'high';
+
 export interface LegalRisk {
   risk_area: string;
   description: string;
   potential_consequence: string;
   related_clause: string;
   relevant_law?: string;
+  severity?: RiskLevel; // Overall rating; missing in analyses made before ratings were requested
+  likelihood?: RiskLevel; // How likely the risk is to happen
+  impact?: RiskLevel; // How much harm it would do if it did
+  recommended_action?: string; // What the user could do about it, e.g. negotiate a cap on liability
+  rationale?: string; // Why the model rated the risk as it did
+  source_chunks?: number[]; // Chunks of a chunked analysis that reported the risk
+}
+
+// One part of a document that was too long to analyze in a single request
+export interface AnalysisChunkInfo {
+  index: number;
+  document_index: number; // Position of the document among those analyzed
+  heading?: string; // First clause heading in the chunk
+  characters: number;
 }
 
 export interface DocumentAnalysisResult {
@@ -26,6 +45,7 @@ export interface DocumentAnalysisResult {
   notes: string;
   document_title?: string;
   analyzed_files?: string[]; // List of file names that were analyzed
+  analysis_chunks?: AnalysisChunkInfo[]; // Set when the documents were analyzed in chunks
 }
 
 interface UploadedFilesContextType {
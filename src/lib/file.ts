@@ -59,7 +59,7 @@ export async function readFilesAsBase64(files: File[]): Promise<{ file: File; ba
 }
 
 export function isAllowedDocumentOrImage(file: File): boolean {
-  const allowedExt = [".pdf", ".doc", ".docx", ".txt"];
+  const allowedExt = [".pdf", ".doc", ".docx", ".odt", ".rtf", ".txt", ".eml", ".msg", ".zip"];
   const okDoc = allowedExt.some(ext => file.name.toLowerCase().endsWith(ext));
   const okImg = file.type.startsWith("image/");
   return okDoc || okImg;
@@ -70,6 +70,9 @@ export const isValidFileType = (file: File): boolean => {
     'application/pdf',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'application/msword',
+    'application/vnd.oasis.opendocument.text',
+    'application/rtf',
+    'text/rtf',
     'text/plain',
     'image/jpeg',
     'image/png',
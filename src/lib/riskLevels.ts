@@ -0,0 +1,36 @@
+import type { LegalRisk, RiskLevel } from "@/hooks/uploadedFileContext";
+
+export interface RiskSeverityStyle {
+  color: string; // Text color class
+  bg: string; // Background and border classes for the risk card
+  label: string; // "High", "Medium", "Low" or "Unrated"
+}
+
+const RISK_LEVEL_RANK: Record<RiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+const SEVERITY_STYLES: Record<RiskLevel, RiskSeverityStyle> = {
+  high: { color: 'text-red-600', bg: 'bg-red-50 border-red-200', label: 'High' },
+  medium: { color: 'text-yellow-600', bg: 'bg-yellow-50 border-yellow-200', label: 'Medium' },
+  low: { color: 'text-green-600', bg: 'bg-green-50 border-green-200', label: 'Low' },
+};
+
+// Risks from analyses made before the model rated them
+const UNRATED_STYLE: RiskSeverityStyle = { color: 'text-muted-foreground', bg: 'bg-muted/40 border-border', label: 'Unrated' };
+
+export const getRiskSeverityStyle = (severity?: RiskLevel): RiskSeverityStyle => {
+  return (severity && SEVERITY_STYLES[severity]) || UNRATED_STYLE;
+};
+
+export const formatRiskLevel = (level: RiskLevel): string => {
+  return SEVERITY_STYLES[level].label;
+};
+
+// Most severe first, then most likely, then highest impact; unrated risks last, otherwise in reported order
+export const sortRisksBySeverity = (risks: LegalRisk[]): LegalRisk[] => {
+  const rank = (level?: RiskLevel) => (level ? RISK_LEVEL_RANK[level] : 0);
+  return [...risks].sort((a, b) =>
+    rank(b.severity) - rank(a.severity) ||
+    rank(b.likelihood) - rank(a.likelihood) ||
+    rank(b.impact) - rank(a.impact)
+  );
+};
@@ -74,10 +74,12 @@ export default function Chatbot() {
   ]);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null); // Assistant message being written
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [editingFile, setEditingFile] = useState<{
     file: File;
     text: string;
+    extractionResult?: UnifiedExtractionResult;
   } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -190,25 +192,6 @@ export default function Chatbot() {
 
   if (!saveUploadedFiles.length) return null;
 
-  async function queryBedrock(userQuestion: string, snippets: string[]) {
-    try {
-      const res = await fetch(
-        "https://f9jekjb575.execute-api.ap-southeast-1.amazonaws.com/devmhtwo/bedrockapi",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ userQuestion, snippets }),
-        }
-      );
-      const data = await res.json();
-      return data.answer?.choices?.[0]?.message?.content || "No answer from Bedrock.";
-    } catch (error) {
-      console.error("Bedrock query failed:", error);
-      return "I’m currently unable to answer your question. Please try again later.";
-    }
-  }
-
-
 const handleSendMessage = async () => {
   if (!inputValue.trim()) return;
 
@@ -236,28 +219,33 @@ const handleSendMessage = async () => {
   setIsLoading(true);
 
   try {
-    // Prepare legal text from uploaded files for context
-    const legalText = ChatService.prepareLegalText(uploadedFiles);
+    // Prepare legal text from uploaded files for context, keeping the parts relevant to the question when it's too long
+    const legalText = ChatService.fitLegalText(ChatService.prepareLegalText(uploadedFiles), currentMessage);
 
     // Validate the chat request
     ChatService.validateChatRequest(currentMessage, legalText, analysisResult);
 
-    // Send message to the chat API
+    // Stream the answer into an assistant message that appears with its first words
+    const assistantId = (Date.now() + 1).toString();
+    const showAnswer = (content: string) =>
+      setMessages((prev) =>
+        prev.some((message) => message.id === assistantId)
+          ? prev.map((message) => (message.id === assistantId ? { ...message, content } : message))
+          : [...prev, { id: assistantId, type: "assistant", content, timestamp: new Date() }]
+      );
+
     const chatResponse = await ChatService.sendMessage(
       currentMessage,
       legalText,
-      analysisResult
+      analysisResult,
+      (_delta, text) => {
+        showAnswer(text);
+        setStreamingMessageId(assistantId);
+      }
     );
 
-    // Add the AI's response as assistant message
-    const assistantMessage: Message = {
-      id: (Date.now() + 1).toString(),
-      type: "assistant",
-      content: chatResponse,
-      timestamp: new Date(),
-    };
-
-    setMessages((prev) => [...prev, assistantMessage]);
+    // The complete answer, in case the provider delivered nothing while streaming
+    showAnswer(chatResponse);
     
   } catch (error) {
     console.error("Chat error:", error);
@@ -279,6 +267,7 @@ const handleSendMessage = async () => {
     setMessages((prev) => [...prev, errorMessage]);
   } finally {
     setIsLoading(false);
+    setStreamingMessageId(null);
   }
 };
 
@@ -290,7 +279,7 @@ const handleSendMessage = async () => {
       if (!isAllowedDocumentOrImage(file)) {
         toast({
           title: "Invalid file type",
-          description: `${file.name}: Please upload PDF, DOCX, TXT, or image files only.`,
+          description: `${file.name}: Please upload PDF, Word (DOC/DOCX), ODT, RTF, TXT, or image files only.`,
           variant: "destructive",
         });
         continue;
@@ -335,6 +324,7 @@ const handleSendMessage = async () => {
       try {
         const result = await extractText(file, {
           fallbackToOCR: true,
+          preprocessImage: true,
           ocrOptions: {
             logger: (info) => {
               setUploadedFiles(prev => prev.map((f, idx) =>
@@ -510,7 +500,7 @@ const handleSendMessage = async () => {
         }
       }
 
-      setEditingFile({ file: uploadedFile.file, text: initialText });
+      setEditingFile({ file: uploadedFile.file, text: initialText, extractionResult: uploadedFile.extractionResult });
     } catch (error) {
       toast({
         title: "Error",
@@ -692,7 +682,7 @@ const handleSendMessage = async () => {
             </div>
           ))}
 
-          {isLoading && (
+          {isLoading && !streamingMessageId && (
             <div className="flex gap-4 justify-start animate-fade-in">
               <div className="flex gap-3 max-w-3xl">
                 <div className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 transition-all duration-200 shadow-lg bg-gradient-to-br from-blue-500 to-purple-600 text-white shadow-blue-500/25 ring-2 ring-blue-500/20">
@@ -873,6 +863,7 @@ const handleSendMessage = async () => {
           <EditDocumentModal
             file={editingFile.file}
             initialText={editingFile.text}
+            extractionResult={editingFile.extractionResult}
             isOpen={!!editingFile}
             onSave={handleSaveEditedText}
             onClose={() => setEditingFile(null)}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -22,6 +22,17 @@ import {
   BookOpen,
   ExternalLink,
   MessageSquare,
+  MapPin,
+  Signature,
+  StickyNote,
+  ClipboardList,
+  Lock,
+  Mail,
+  Archive,
+  ClipboardPaste,
+  Scissors,
+  Files,
+  Table2,
 } from "lucide-react";
 import {
   readFilesAsBase64,
@@ -31,33 +42,108 @@ import {
 import { UploadPicker } from "@/components/UploadPicker";
 import { FileChip } from "@/components/FileChip";
 import { EditDocumentModal } from "@/components/EditDocumentModal";
-import { extractText, UnifiedExtractionResult } from "@/services/textExtractor";
+import { ExtractionProgress, extractTextInWorker, isAbortError } from "@/services/extractionWorkerClient";
+import {
+  getCachedExtraction,
+  getExtractionCacheKey,
+  putCachedExtraction,
+  saveCachedEdit,
+} from "@/services/extractionCache";
+import { PdfPasswordDialog } from "@/components/PdfPasswordDialog";
+import { PasteTextDialog } from "@/components/PasteTextDialog";
+import { PdfPageSelector } from "@/components/PdfPageSelector";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  locateSnippet,
+  getPageStartOffsets,
+  BundleEntry,
+  BundleSource,
+  DocumentSegment,
+  detectDocumentBoundaries,
+  detectFileType,
+  formatBundlePath,
+  formatPageRange,
+  formatPageRanges,
+  getPDFInfo,
+  getPageTexts,
+  isBundleFile,
+  unpackBundle,
+  detectDocumentLanguages,
+  DocumentLanguageInfo,
+  getSignificantLanguages,
+  getUnsupportedLanguageWarning,
+  LANGUAGE_NAMES,
+  ExtractedTable,
+  PdfFormField,
+  PdfPasswordReason,
+  SourceLocation,
+  TextExtractionOptions,
+  UnifiedExtractionResult,
+  buildSearchableText,
+  SearchableText,
+} from "@/services/textExtractor";
 import DisclaimerModal from "@/components/ui/disclaimer";
-import { useEffect } from "react";
 import { saveUploadedFiles, useUploadedFiles, DocumentAnalysisResult, ImportantClause, LegalRisk } from "@/hooks/uploadedFileContext";
 import { useNavigate } from "react-router-dom";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { DocumentAnalysisService } from "@/services/documentAnalysisService";
+import { formatRiskLevel, getRiskSeverityStyle, sortRisksBySeverity } from "@/lib/riskLevels";
+import { BoilerplateReport, summarizeBoilerplateReports } from "@/services/boilerplateCleaner";
 
 interface SelectedFile {
   file: File;
-  status: "idle" | "extracting" | "uploading" | "done" | "error";
+  status: "idle" | "extracting" | "uploading" | "done" | "error" | "needsPassword" | "choosingPages";
+  passwordReason?: PdfPasswordReason; // Why the last attempt to open an encrypted PDF failed
   editedText?: string;
   extractedText?: string;
   extractionResult?: UnifiedExtractionResult;
-  progress?: number;
+  progress?: number; // 0-100
+  progressLabel?: string; // Current page or stage of extraction
+  cacheKey?: string; // Extraction cache entry that holds this file's result and edits
+  bundle?: Omit<BundleEntry, 'file'>; // Email or ZIP archive the file was unpacked from
+  pages?: File[]; // Page photos of a document captured with the camera, in reading order
+  pasted?: boolean; // Created from pasted text rather than a file
+  pageCount?: number; // Pages in the PDF, read before extraction
+  pageNumbers?: number[]; // Pages of the PDF to extract, when a range was chosen or a bundle has been split
+  splitSuggestion?: DocumentSegment[]; // Separate documents detected in a PDF, until split or dismissed
 }
 
+// Photos and pages of a split PDF that make up a document
+interface ExtractionInput {
+  pages?: File[];
+  pageNumbers?: number[];
+}
+
+// Emails and archives are unpacked, so each file inside gets the per-file limit instead
+const MAX_BUNDLE_SIZE = 25 * 1024 * 1024; // 25MB
+
+// PDFs longer than this wait for pages to be chosen instead of being extracted straight away
+const PAGE_SELECTION_MIN_PAGES = 30;
+
 export default function DocumentAnalyzer() {
   const [showDisclaimer, setShowDisclaimer] = useState(true);
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<{ completed: number; total: number } | null>(null); // Chunks done when analyzing in parts
   const [activeTab, setActiveTab] = useState<string>("");
   const [editingFile, setEditingFile] = useState<{
     file: File;
     text: string;
+    extractionResult?: UnifiedExtractionResult;
+    highlightRange?: { start: number; end: number };
   } | null>(null);
   const [showPrivacyDialog, setShowPrivacyDialog] = useState(false);
+  const [pastedText, setPastedText] = useState<string | null>(null); // Open paste dialog and the text it starts with
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const pastedImageCount = useRef(0);
+  const [unlockingIndex, setUnlockingIndex] = useState<number | null>(null);
+  const [choosingPagesIndex, setChoosingPagesIndex] = useState<number | null>(null);
+  const [cleanupReports, setCleanupReports] = useState<Array<{ fileName: string; report: BoilerplateReport }>>([]);
+  const extractionControllers = useRef(new Map<File, AbortController>());
+  const selectedFilesRef = useRef(selectedFiles);
+  selectedFilesRef.current = selectedFiles;
+  // Extracted texts prepared for clause lookup, built once per extraction result
+  const searchableTexts = useRef(new WeakMap<UnifiedExtractionResult, SearchableText>());
   const { toast } = useToast();
   const { saveUploadedFiles, setUploadedFiles, analysisResult, setAnalysisResult } = useUploadedFiles();
   const navigate = useNavigate();
@@ -83,24 +169,101 @@ export default function DocumentAnalyzer() {
     const accepted = localStorage.getItem("disclaimerAccepted");
     if (accepted) setShowDisclaimer(false);
   }, []);
+
+  // Stop any running or queued extraction when leaving the page
+  useEffect(() => {
+    const controllers = extractionControllers.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
   
+  // Ctrl+V with a screenshot adds it as a file; with text, offers to add the text as a document
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      // Pasting into fields, the editor and dialogs works as usual
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (target?.closest('input, textarea, [contenteditable="true"], [role="dialog"], [role="alertdialog"]')) return;
+      if (showDisclaimer || isAnalyzing || !event.clipboardData) return;
+
+      const files = Array.from(event.clipboardData.files);
+      if (files.length > 0) {
+        event.preventDefault();
+        // Browsers name every pasted screenshot "image.png"
+        void handleFilesSelected(files.map((file) => file.type.startsWith('image/')
+          ? new File([file], `Pasted image ${++pastedImageCount.current}.${file.type.split('/')[1] || 'png'}`, { type: file.type })
+          : file));
+        return;
+      }
+
+      const text = event.clipboardData.getData('text/plain');
+      if (text.trim()) {
+        event.preventDefault();
+        setPastedText(text);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  });
+
   const handleAccept = () => {
     localStorage.setItem("disclaimerAccepted", "true");
     setShowDisclaimer(false);
   };
 
   const handleFilesSelected = async (files: File[]) => {
-     const newFiles: saveUploadedFiles[] = files.map(file => ({
-    file
-     }));
     const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
     const validFiles: File[] = [];
+    const bundleEntries = new Map<File, Omit<BundleEntry, 'file'>>();
+    const skippedAttachments: string[] = [];
 
+    // Emails and ZIP archives are replaced by their message text and attachments
+    const unpackedFiles: File[] = [];
     for (const file of files) {
+      if (!isBundleFile(file)) {
+        unpackedFiles.push(file);
+        continue;
+      }
+
+      if (file.size > MAX_BUNDLE_SIZE) {
+        toast({
+          title: "File too large",
+          description: `${file.name}: Emails and ZIP archives must be under 25MB.`,
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      try {
+        const { entries, warnings } = await unpackBundle(file);
+        for (const { file: entryFile, ...entry } of entries) {
+          unpackedFiles.push(entryFile);
+          bundleEntries.set(entryFile, entry);
+        }
+        if (warnings.length > 0) {
+          toast({ title: `Some of ${file.name} was skipped`, description: warnings.join(' ') });
+        }
+      } catch (error) {
+        toast({
+          title: "Unable to open file",
+          description: error instanceof Error ? error.message : `${file.name} could not be unpacked`,
+          variant: "destructive",
+        });
+      }
+    }
+
+    for (const file of unpackedFiles) {
       if (!isAllowedDocumentOrImage(file)) {
+        // Emails often carry calendar invites and spreadsheets; list them together rather than one toast each
+        if (bundleEntries.has(file)) {
+          skippedAttachments.push(file.name);
+          continue;
+        }
         toast({
           title: "Invalid file type",
-          description: `${file.name}: Please upload PDF, DOCX, TXT, or image files only.`,
+          description: `${file.name}: Please upload PDF, Word (DOC/DOCX), ODT, RTF, TXT, email (EML/MSG), ZIP, or image files only.`,
           variant: "destructive",
         });
         continue;
@@ -118,11 +281,23 @@ export default function DocumentAnalyzer() {
       validFiles.push(file);
     }
 
+    if (skippedAttachments.length > 0) {
+      toast({
+        title: "Unsupported attachments skipped",
+        description: skippedAttachments.join(', '),
+      });
+    }
+
     if (validFiles.length === 0) return;
 
+    const newFiles: saveUploadedFiles[] = validFiles.map(file => ({
+      file
+    }));
+
     const newSelectedFiles = validFiles.map((file) => ({
       file,
       status: "idle" as const,
+      bundle: bundleEntries.get(file),
     }));
 
     setSelectedFiles((prev) => [...prev, ...newSelectedFiles]);
@@ -138,65 +313,298 @@ export default function DocumentAnalyzer() {
     await extractTextFromFiles(newSelectedFiles.length - validFiles.length, validFiles);
   };
 
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving over child elements fires dragleave on the parent too
+    if (event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0 && !isAnalyzing) {
+      void handleFilesSelected(files);
+    }
+  };
+
+  // Pasted text needs no extraction, so it is ready for analysis straight away
+  const handleAddPastedText = (title: string, text: string) => {
+    const file = new File([text], title.toLowerCase().endsWith('.txt') ? title : `${title}.txt`, { type: 'text/plain' });
+
+    setSelectedFiles((prev) => [...prev, { file, status: "done", extractedText: text, progress: 100, pasted: true }]);
+    if (!activeTab) {
+      setActiveTab(file.name);
+    }
+    setUploadedFiles((prev) => [...prev, { file, extractedText: text }]);
+    setPastedText(null);
+
+    toast({
+      title: "Text added",
+      description: `${file.name} will be analyzed with your other documents`,
+    });
+  };
+
+  const handlePhotosCaptured = async (pages: File[]) => {
+    if (pages.length === 0) return;
+
+    // The photos back to back stand in for the document: a name for the list and bytes for the cache key
+    const documentNumber = selectedFiles.filter(sf => sf.pages).length + 1;
+    const file = new File(pages, `Photographed document ${documentNumber}`, { type: 'application/octet-stream' });
+
+    setSelectedFiles((prev) => [...prev, { file, status: "idle", pages }]);
+    if (!activeTab) {
+      setActiveTab(file.name);
+    }
+    setUploadedFiles((prev) => [...prev, { file }]);
+
+    await extractFileText(file, undefined, new AbortController(), { pages });
+  };
+
   const extractTextFromFiles = async (startIndex: number, files: File[]) => {
+    // Controllers are created up front so removing a queued file skips it
+    const controllers = files.map((file) => {
+      const controller = new AbortController();
+      extractionControllers.current.set(file, controller);
+      return controller;
+    });
+
     for (let i = 0; i < files.length; i++) {
-      const fileIndex = startIndex + i;
-      const file = files[i];
-      
-      // Update status to extracting
-      setSelectedFiles(prev => prev.map((f, idx) =>
-        idx === fileIndex ? { ...f, status: 'extracting', progress: 0 } : f
-      ));
+      if (controllers[i].signal.aborted) continue;
+      if (await needsPageSelection(files[i])) continue;
+      await extractFileText(files[i], undefined, controllers[i]);
+    }
+  };
 
-      try {
-        const result = await extractText(file, {
-          fallbackToOCR: true,
-          ocrOptions: {
-            logger: (info) => {
-              setSelectedFiles(prev => prev.map((f, idx) =>
-                idx === fileIndex ? { ...f, progress: info.progress } : f
-              ));
-            }
-          }
-        });
+  // Long PDFs show their page count first so annexures can be left out before extracting
+  const needsPageSelection = async (file: File) => {
+    if (detectFileType(file) !== 'pdf') return false;
 
-        // Update with extraction results
-        setSelectedFiles(prev => prev.map((f, idx) =>
-          idx === fileIndex ? { 
-            ...f, 
-            status: 'done', 
-            extractedText: result.text,
-            extractionResult: result,
-            progress: 100 
-          } : f
-        ));
+    try {
+      const { pageCount } = await getPDFInfo(file);
+      const choosePages = pageCount > PAGE_SELECTION_MIN_PAGES;
+      setSelectedFiles(prev => prev.map(f => f.file === file
+        ? { ...f, pageCount, ...(choosePages && { status: 'choosingPages' as const }) }
+        : f));
+      if (choosePages) extractionControllers.current.delete(file);
+      return choosePages;
+    } catch {
+      // Encrypted and damaged PDFs go straight to extraction, which asks for the password or reports the error
+      return false;
+    }
+  };
 
-        toast({
-          title: "Text extracted successfully",
-          description: `Extracted ${result.text.length} characters from ${file.name}`,
-        });
+  const handlePagesChosen = (pageNumbers: number[]) => {
+    if (choosingPagesIndex === null) return;
+    const selectedFile = selectedFiles[choosingPagesIndex];
+    setChoosingPagesIndex(null);
+    if (!selectedFile) return;
 
-        // Show privacy protection dialog after successful extraction
-        setShowPrivacyDialog(true);
+    const isAllPages = pageNumbers.length === selectedFile.pageCount;
+    setSelectedFiles(prev => prev.map(f => f.file === selectedFile.file
+      ? { ...f, pageNumbers: isAllPages ? undefined : pageNumbers, editedText: undefined }
+      : f));
+    void extractFileText(selectedFile.file, undefined, undefined, { pageNumbers: isAllPages ? undefined : pageNumbers });
+  };
 
-      } catch (error) {
-        setSelectedFiles(prev => prev.map((f, idx) =>
-          idx === fileIndex ? { 
-            ...f, 
-            status: 'error',
-            progress: 0
-          } : f
-        ));
+  const handleExtractAllPages = (index: number) => {
+    const selectedFile = selectedFiles[index];
+    if (selectedFile) {
+      void extractFileText(selectedFile.file);
+    }
+  };
+
+  // The password, when given, is only passed through to PDF.js and never stored
+  const extractFileText = async (
+    file: File,
+    password?: string,
+    controller: AbortController = new AbortController(),
+    { pages, pageNumbers }: ExtractionInput = {}
+  ) => {
+    if (controller.signal.aborted) return;
+    extractionControllers.current.set(file, controller);
+
+    const updateFile = (update: Partial<SelectedFile>) => {
+      setSelectedFiles(prev => prev.map(f => f.file === file ? { ...f, ...update } : f));
+    };
+
+    // Update status to extracting
+    updateFile({ status: 'extracting', progress: 0, progressLabel: undefined });
+
+    const extractionOptions: TextExtractionOptions = {
+      fallbackToOCR: true,
+      preprocessImage: true,
+      pdfOptions: {
+        layout: true,
+        password,
+        pageNumbers,
+      },
+    };
+
+    try {
+      // Re-uploads of the same file reuse the earlier result and edits instead of running OCR again
+      const cacheKey = await getExtractionCacheKey(file, extractionOptions).catch(() => undefined);
+      const cached = cacheKey ? await getCachedExtraction(cacheKey) : undefined;
+      if (controller.signal.aborted) return;
+
+      if (cached) {
+        updateFile({
+          status: 'done',
+          extractedText: cached.result.text,
+          extractionResult: cached.result,
+          editedText: cached.editedText,
+          cacheKey,
+          progress: 100,
+          splitSuggestion: getSplitSuggestion(cached.result),
+        });
 
         toast({
-          title: "Text extraction failed",
-          description: `Unable to extract text from ${file.name}`,
-          variant: "destructive",
+          title: "Text loaded from cache",
+          description: `${file.name} was extracted before${cached.editedText ? ', including your edits' : ''}`,
         });
+        return;
+      }
+
+      const result = await extractTextInWorker(file, extractionOptions, {
+        signal: controller.signal,
+        pages,
+        onProgress: (progress) => updateFile({
+          progress: progress.progress * 100,
+          progressLabel: getProgressLabel(progress),
+        }),
+      });
+
+      if (result.passwordRequired) {
+        updateFile({ status: 'needsPassword', passwordReason: result.passwordRequired, progress: 0 });
+        setUnlockingIndex(selectedFilesRef.current.findIndex(f => f.file === file));
+        return;
+      }
+
+      // Update with extraction results
+      updateFile({
+        status: 'done',
+        passwordReason: undefined,
+        extractedText: result.text,
+        extractionResult: result,
+        cacheKey,
+        progress: 100,
+        splitSuggestion: getSplitSuggestion(result),
+      });
+
+      if (cacheKey) {
+        void putCachedExtraction(cacheKey, file, result);
+      }
+
+      toast({
+        title: "Text extracted successfully",
+        description: `Extracted ${result.text.length} characters from ${file.name}`,
+      });
+
+      // Show privacy protection dialog after successful extraction
+      setShowPrivacyDialog(true);
+
+    } catch (error) {
+      // Removed files and leaving the page abort extraction; nothing to report
+      if (isAbortError(error)) return;
+
+      updateFile({ status: 'error', progress: 0 });
+
+      toast({
+        title: "Text extraction failed",
+        description: `Unable to extract text from ${file.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      if (extractionControllers.current.get(file) === controller) {
+        extractionControllers.current.delete(file);
       }
     }
   };
 
+  // Offer to split a PDF that holds several documents, e.g. an agreement followed by a letter of offer
+  const getSplitSuggestion = (result: UnifiedExtractionResult) => {
+    const segments = detectDocumentBoundaries(getPageTexts(result));
+    return segments.length > 1 ? segments : undefined;
+  };
+
+  const handleSplitFile = async (index: number) => {
+    const selectedFile = selectedFiles[index];
+    const segments = selectedFile?.splitSuggestion;
+    if (!segments) return;
+
+    // Each part is the same PDF limited to its own pages, so it needs a File of its own to track
+    const baseName = selectedFile.file.name.replace(/\.pdf$/i, '');
+    const parts: SelectedFile[] = segments.map((segment) => ({
+      file: new File(
+        [selectedFile.file],
+        `${baseName} - ${(segment.title || 'Part').replace(/[\\/:*?"<>|]/g, '')} (pages ${formatPageRange(segment)}).pdf`,
+        { type: selectedFile.file.type }
+      ),
+      status: "idle",
+      bundle: selectedFile.bundle,
+      pageNumbers: segment.pageNumbers,
+    }));
+
+    setSelectedFiles((prev) => prev.flatMap((sf) => (sf.file === selectedFile.file ? parts : [sf])));
+    if (activeTab === selectedFile.file.name) {
+      setActiveTab(parts[0].file.name);
+    }
+
+    const controllers = parts.map((part) => {
+      const controller = new AbortController();
+      extractionControllers.current.set(part.file, controller);
+      return controller;
+    });
+    for (let i = 0; i < parts.length; i++) {
+      await extractFileText(parts[i].file, undefined, controllers[i], { pageNumbers: parts[i].pageNumbers });
+    }
+  };
+
+  const handleDismissSplit = (index: number) => {
+    setSelectedFiles((prev) => prev.map((sf, i) => (i === index ? { ...sf, splitSuggestion: undefined } : sf)));
+  };
+
+  const getBoundaryReasonLabel = (segment: DocumentSegment) => {
+    const labels = segment.reasons.map((reason) => {
+      switch (reason) {
+        case 'title-page':
+          return 'title page';
+        case 'document-title':
+          return 'new title';
+        case 'numbering-restart':
+          return 'clause numbering restarts';
+        case 'execution-block':
+          return 'follows a signature block';
+      }
+    });
+    return labels.join(', ');
+  };
+
+  const getProgressLabel = (progress: ExtractionProgress) => {
+    if (progress.stage === 'reading' && progress.page !== undefined) {
+      return `Reading page ${progress.page} of ${progress.pageCount}`;
+    }
+    if (progress.stage === 'ocr') {
+      return progress.page !== undefined ? `Recognizing text on page ${progress.page}` : 'Recognizing text';
+    }
+    return undefined;
+  };
+
+  const handleUnlockFile = (password: string) => {
+    if (unlockingIndex === null) return;
+    const selectedFile = selectedFiles[unlockingIndex];
+    setUnlockingIndex(null);
+    if (selectedFile) {
+      void extractFileText(selectedFile.file, password, undefined, { pageNumbers: selectedFile.pageNumbers });
+    }
+  };
+
   const handleEditFile = async (index: number) => {
     const selectedFile = selectedFiles[index];
     if (!selectedFile) return;
@@ -220,7 +628,7 @@ export default function DocumentAnalyzer() {
         }
       }
 
-      setEditingFile({ file: selectedFile.file, text: initialText });
+      setEditingFile({ file: selectedFile.file, text: initialText, extractionResult: selectedFile.extractionResult });
     } catch (error) {
       toast({
         title: "Error",
@@ -230,9 +638,87 @@ export default function DocumentAnalyzer() {
     }
   };
 
+  // Which file and where in it each AI-quoted clause comes from, found once per analysis rather than on every render
+  const clauseSources = useMemo(() => {
+    const sources = new Map<string, { fileIndex: number; location: SourceLocation }>();
+
+    for (const { clause_text: clauseText } of analysisResult?.important_clauses || []) {
+      if (sources.has(clauseText)) continue;
+
+      for (let index = 0; index < selectedFiles.length; index++) {
+        const { extractionResult, editedText } = selectedFiles[index];
+        // Offsets only hold for the text as extracted, not for user edits
+        if (!extractionResult || editedText) continue;
+
+        let searchable = searchableTexts.current.get(extractionResult);
+        if (!searchable) {
+          searchable = buildSearchableText(extractionResult.text);
+          searchableTexts.current.set(extractionResult, searchable);
+        }
+
+        const location = locateSnippet(extractionResult.text, extractionResult.anchors, clauseText, searchable);
+        if (location) {
+          sources.set(clauseText, { fileIndex: index, location });
+          break;
+        }
+      }
+    }
+    return sources;
+  }, [analysisResult, selectedFiles]);
+
+  const handleJumpToSource = (fileIndex: number, location: SourceLocation) => {
+    const selectedFile = selectedFiles[fileIndex];
+    if (!selectedFile?.extractionResult) return;
+
+    setEditingFile({
+      file: selectedFile.file,
+      text: selectedFile.extractionResult.text,
+      extractionResult: selectedFile.extractionResult,
+      highlightRange: { start: location.start, end: location.end },
+    });
+  };
+
+  const renderSourceBadge = (clauseText: string) => {
+    const source = clauseSources.get(clauseText);
+    if (!source) return null;
+
+    const fileName = selectedFiles[source.fileIndex].file.name;
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs cursor-pointer hover:bg-muted"
+        title={`Show in ${fileName}`}
+        onClick={() => handleJumpToSource(source.fileIndex, source.location)}
+      >
+        <MapPin className="w-3 h-3 mr-1" />
+        {source.location.label || fileName}
+      </Badge>
+    );
+  };
+
+  // Which parts of a chunked analysis reported a finding
+  const renderChunkBadge = (sourceChunks?: number[]) => {
+    const chunks = analysisResult?.analysis_chunks;
+    if (!chunks || chunks.length < 2 || !sourceChunks?.length) return null;
+
+    const headings = sourceChunks
+      .map((index) => chunks.find((chunk) => chunk.index === index)?.heading)
+      .filter(Boolean);
+    return (
+      <Badge variant="outline" className="text-xs" title={headings.length > 0 ? `Starting at ${headings.join('; ')}` : undefined}>
+        {sourceChunks.length === 1 ? 'Part' : 'Parts'} {sourceChunks.map((index) => index + 1).join(', ')}
+      </Badge>
+    );
+  };
+
   const handleSaveEditedText = (newText: string) => {
     if (!editingFile) return;
 
+    const editedFile = selectedFiles.find((sf) => sf.file === editingFile.file);
+    if (editedFile?.cacheKey) {
+      void saveCachedEdit(editedFile.cacheKey, newText);
+    }
+
     setSelectedFiles((prev) =>
       prev.map((sf) =>
         sf.file.name === editingFile.file.name &&
@@ -251,22 +737,40 @@ export default function DocumentAnalyzer() {
   };
 
   const handleRemoveFile = (index: number) => {
-    const removedFile = selectedFiles[index];
-    setSelectedFiles((prev) => prev.filter((_, i) => i !== index));
+    removeFiles((_, i) => i === index);
+  };
+
+  // Removes every file unpacked from an email or archive, including nested ones
+  const handleRemoveBundle = (bundleId: string) => {
+    removeFiles((sf) => !!sf.bundle && getRootBundle(sf.bundle.source).id === bundleId);
+  };
+
+  const removeFiles = (shouldRemove: (selectedFile: SelectedFile, index: number) => boolean) => {
+    const removedFiles = selectedFiles.filter(shouldRemove);
+    for (const removedFile of removedFiles) {
+      extractionControllers.current.get(removedFile.file)?.abort();
+      extractionControllers.current.delete(removedFile.file);
+    }
+    setSelectedFiles((prev) => prev.filter((sf, i) => !shouldRemove(sf, i)));
+    setUnlockingIndex(null);
 
     // If there are no more files, clear the analysis result
-    const remainingFiles = selectedFiles.filter((_, i) => i !== index);
+    const remainingFiles = selectedFiles.filter((sf, i) => !shouldRemove(sf, i));
     if (remainingFiles.length === 0) {
       setAnalysisResult(null);
     }
 
-    if (removedFile && activeTab === removedFile.file.name) {
+    if (removedFiles.some(removedFile => activeTab === removedFile.file.name)) {
       setActiveTab(
         remainingFiles.length > 0 ? remainingFiles[0].file.name : ""
       );
     }
   };
 
+  const getRootBundle = (source: BundleSource): BundleSource => {
+    return source.parent ? getRootBundle(source.parent) : source;
+  };
+
   const getStatusIcon = (status: SelectedFile['status']) => {
     switch (status) {
       case 'idle':
@@ -279,26 +783,165 @@ export default function DocumentAnalyzer() {
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'error':
         return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case 'needsPassword':
+        return <Lock className="h-4 w-4 text-amber-500" />;
+      case 'choosingPages':
+        return <Files className="h-4 w-4 text-amber-500" />;
     }
   };
 
-  const getRiskSeverityColor = (riskArea: string) => {
-    // Simple heuristic to assign severity based on risk area keywords
-    const highRiskTerms = ['termination', 'liability', 'penalty', 'breach', 'dispute'];
-    const mediumRiskTerms = ['payment', 'delivery', 'performance', 'intellectual', 'confidentiality'];
-    
-    const lowerRiskArea = riskArea.toLowerCase();
-    
-    if (highRiskTerms.some(term => lowerRiskArea.includes(term))) {
-      return { color: 'text-red-600', bg: 'bg-red-50 border-red-200', severity: 'High' };
-    } else if (mediumRiskTerms.some(term => lowerRiskArea.includes(term))) {
-      return { color: 'text-yellow-600', bg: 'bg-yellow-50 border-yellow-200', severity: 'Medium' };
-    } else {
-      return { color: 'text-green-600', bg: 'bg-green-50 border-green-200', severity: 'Low' };
-    }
+  // Email or archive the following files were unpacked from, with the email's headers
+  const renderBundleHeader = (source: BundleSource) => {
+    const { headers } = source;
+    return (
+      <div className="flex items-center gap-3 px-3 pt-2">
+        {source.kind === 'email' ? (
+          <Mail className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <Archive className="h-4 w-4 text-muted-foreground" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="font-medium truncate">{headers?.subject || source.fileName}</div>
+          {headers && (
+            <div className="text-xs text-muted-foreground truncate">
+              {[headers.from && `From ${headers.from}`, headers.date, headers.subject && source.fileName]
+                .filter(Boolean)
+                .join(' • ')}
+            </div>
+          )}
+        </div>
+        <Button size="sm" variant="ghost" onClick={() => handleRemoveBundle(source.id)}>
+          Remove all
+        </Button>
+      </div>
+    );
   };
 
+  const formatLanguages = (language: DocumentLanguageInfo) => {
+    const names = getSignificantLanguages(language).map(code => LANGUAGE_NAMES[code]);
+    return language.mixed ? `Mixed: ${names.join(', ')}` : names[0];
+  };
 
+  const formatFieldValue = (value: PdfFormField['value']) => {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return value || '—';
+  };
+
+  // Form fields, reviewer annotations and signatures found in a PDF
+  const renderPdfDetails = (result?: UnifiedExtractionResult) => {
+    const pdfResult = result?.pdfResult;
+    if (!pdfResult) return null;
+
+    const formFields = (pdfResult.formFields || []).filter(field => field.type !== 'signature' && field.type !== 'button');
+    const annotations = pdfResult.annotations || [];
+    const signatures = pdfResult.signatures || [];
+    if (formFields.length === 0 && annotations.length === 0 && signatures.length === 0) return null;
+
+    return (
+      <div className="mt-2 space-y-1 text-xs">
+        {signatures.map((signature, index) => (
+          <div key={`signature-${index}`} className="flex items-center gap-1 flex-wrap">
+            <Signature className="h-3 w-3" />
+            <span>
+              {signature.isTimestamp ? 'Document timestamp' : `Signed by ${signature.signerName || 'unknown signer'}`}
+              {signature.signingTime && ` on ${signature.signingTime.toLocaleString()}`}
+              {signature.page && ` (page ${signature.page})`}
+            </span>
+            <Badge
+              variant="outline"
+              className={signature.modifiedAfterSigning ? 'text-amber-600 border-amber-300' : 'text-green-600 border-green-300'}
+            >
+              {signature.modifiedAfterSigning ? 'Changed after signing' : 'Unchanged since signing'}
+            </Badge>
+          </div>
+        ))}
+
+        {formFields.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-muted-foreground">
+              <ClipboardList className="inline h-3 w-3 mr-1" />
+              {formFields.length} form field{formFields.length === 1 ? '' : 's'}
+            </summary>
+            <ul className="mt-1 ml-4 space-y-0.5">
+              {formFields.map((field) => (
+                <li key={field.name}>
+                  <span className="font-medium">{field.name}:</span> {formatFieldValue(field.value)}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {annotations.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-muted-foreground">
+              <StickyNote className="inline h-3 w-3 mr-1" />
+              {annotations.length} annotation{annotations.length === 1 ? '' : 's'}
+            </summary>
+            <ul className="mt-1 ml-4 space-y-0.5">
+              {annotations.map((annotation, index) => (
+                <li key={`annotation-${index}`}>
+                  Page {annotation.page} · {annotation.type}
+                  {annotation.author && ` · ${annotation.author}`}: {annotation.contents || '(no text)'}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    );
+  };
+
+  // Schedules and fee tables read from the document, shown as tables rather than jumbled text
+  const renderTables = (result?: UnifiedExtractionResult) => {
+    const tables = result?.tables || [];
+    if (tables.length === 0) return null;
+
+    return (
+      <details className="mt-2 text-xs">
+        <summary className="cursor-pointer text-muted-foreground">
+          <Table2 className="inline h-3 w-3 mr-1" />
+          {tables.length} table{tables.length === 1 ? '' : 's'}
+        </summary>
+        <div className="mt-1 space-y-3">
+          {tables.map((table) => {
+            const isNumeric = table.columns.map((column) => ['number', 'currency', 'percentage'].includes(column.type));
+            return (
+              <div key={table.index} className="rounded-md border overflow-x-auto">
+                {table.page && (
+                  <div className="px-2 pt-1 text-muted-foreground">Page {table.page}</div>
+                )}
+                <Table className="text-xs">
+                  {table.columns.some((column) => column.header) && (
+                    <TableHeader>
+                      <TableRow>
+                        {table.columns.map((column, index) => (
+                          <TableHead key={index} className={`h-8 px-2${isNumeric[index] ? ' text-right' : ''}`}>
+                            {column.header}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                  )}
+                  <TableBody>
+                    {table.rows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {row.map((cell, index) => (
+                          <TableCell key={index} className={`px-2 py-1${isNumeric[index] ? ' text-right tabular-nums' : ''}`}>
+                            {cell.text}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          })}
+        </div>
+      </details>
+    );
+  };
 
   const handleAnalyzeAll = async () => {
     if (selectedFiles.length === 0) return;
@@ -314,26 +957,49 @@ export default function DocumentAnalyzer() {
 
       // Collect all document texts for analysis
       const documentTexts: string[] = [];
+      const documentNames: string[] = [];
+      const documentPageStarts: Array<number[] | undefined> = [];
+      const documentLanguages: Array<{ language?: DocumentLanguageInfo; length: number }> = [];
+      const documentTables: Array<{ fileName: string; tables?: ExtractedTable[] }> = [];
       for (const selectedFile of selectedFiles) {
         // Use edited text if available, otherwise use extracted text
         const textToAnalyze = selectedFile.editedText || selectedFile.extractedText || "";
         if (textToAnalyze.trim()) {
           documentTexts.push(textToAnalyze);
+          documentNames.push(selectedFile.file.name);
+          // Page starts only line up with the extracted text, not with edits to it
+          documentPageStarts.push(selectedFile.editedText ? undefined : getPageStartOffsets(selectedFile.extractionResult?.anchors));
+          documentLanguages.push({
+            language: selectedFile.editedText || !selectedFile.extractionResult
+              ? detectDocumentLanguages(textToAnalyze)
+              : selectedFile.extractionResult.language,
+            length: textToAnalyze.length,
+          });
+          // Edited text may have had details removed that the tables still hold, so only unedited documents send them
+          if (!selectedFile.editedText) {
+            documentTables.push({ fileName: selectedFile.file.name, tables: selectedFile.extractionResult?.tables });
+          }
         }
       }
 
-      // Validate document texts before sending to API
-      DocumentAnalysisService.validateDocumentTexts(documentTexts);
+      // Prepare and clean document texts; headers and page numbers shouldn't count towards the size limit
+      const { texts: preparedTexts, reports } = DocumentAnalysisService.prepareDocumentTexts(documentTexts, documentPageStarts);
+      setCleanupReports(reports.map((report, index) => ({ fileName: documentNames[index], report })));
 
-      // Prepare and clean document texts
-      const preparedTexts = DocumentAnalysisService.prepareDocumentTexts(documentTexts);
+      // Validate document texts before sending to API
+      DocumentAnalysisService.validateDocumentTexts(preparedTexts);
 
       try {
         // Call the real API to analyze documents
-        const analysisResult = await DocumentAnalysisService.analyzeDocuments(
+        const analysisLanguage = DocumentAnalysisService.chooseAnalysisLanguage(documentLanguages);
+        const aiResult = await DocumentAnalysisService.analyzeDocumentsInChunks(
           preparedTexts,
-          "Please analyze these legal documents and identify important clauses and potential legal risks according to Malaysian law."
+          DocumentAnalysisService.getAnalysisQuestion(analysisLanguage),
+          DocumentAnalysisService.prepareTables(documentTables),
+          { onProgress: (completed, total) => setAnalysisProgress({ completed, total }) }
         );
+        // Clauses the offline detector recognizes but the AI didn't report
+        const analysisResult = DocumentAnalysisService.addDetectedClauses(aiResult, preparedTexts);
 
         // Add analyzed file names to the result
         analysisResult.analyzed_files = fileNames;
@@ -350,20 +1016,36 @@ export default function DocumentAnalyzer() {
         setAnalysisResult(analysisResult);
         
         // Show success message
+        const cleanupSummary = summarizeBoilerplateReports(reports);
         toast({
           title: "Analysis Complete!",
-          description: `Successfully analyzed ${fileNames.length} document(s) using AI. ${analysisResult.important_clauses.length} clauses and ${analysisResult.legal_risks.length} risks identified.`,
+          description: `Successfully analyzed ${fileNames.length} document(s) using AI. ${analysisResult.important_clauses.length} clauses and ${analysisResult.legal_risks.length} risks identified.${cleanupSummary ? ` ${cleanupSummary}` : ''}`,
         });
 
       } catch (error) {
         console.error('Analysis error:', error);
+
+        const errorMessage = error instanceof Error ? error.message : "Unable to analyze the documents";
+
+        // Without a usable AI analysis, show the clauses the offline detector finds
+        const offlineResult = DocumentAnalysisService.analyzeOffline(preparedTexts, error);
+        if (offlineResult.important_clauses.length > 0) {
+          offlineResult.analyzed_files = fileNames;
+          setSelectedFiles((prev) =>
+            prev.map((sf) => ({ ...sf, status: "done" }))
+          );
+          setAnalysisResult(offlineResult);
+          toast({
+            title: "AI analysis unavailable",
+            description: `${errorMessage} Showing ${offlineResult.important_clauses.length} clauses found offline instead; legal risks were not assessed.`,
+          });
+          return;
+        }
         
         // Update all files to "error" status
         setSelectedFiles((prev) =>
           prev.map((sf) => ({ ...sf, status: "error" }))
         );
-
-        const errorMessage = error instanceof Error ? error.message : "Unable to analyze the documents";
         
         toast({
           title: "Analysis failed",
@@ -374,6 +1056,7 @@ export default function DocumentAnalyzer() {
 
     } finally {
       setIsAnalyzing(false);
+      setAnalysisProgress(null);
     }
   };
 
@@ -403,7 +1086,14 @@ export default function DocumentAnalyzer() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
+            <div
+              className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                isDraggingFiles ? 'border-primary bg-primary/5' : 'border-border'
+              }`}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
               <div className="space-y-4">
                 <div className="w-12 h-12 mx-auto bg-primary/10 rounded-lg flex items-center justify-center">
                   <FileText className="w-6 h-6 text-primary" />
@@ -413,16 +1103,30 @@ export default function DocumentAnalyzer() {
                     Upload your legal documents
                   </h3>
                   <p className="text-muted-foreground mb-4">
-                    Select multiple files to analyze them all at once
+                    Select, drop or paste multiple files to analyze them all at once
                   </p>
-                  <UploadPicker
-                    mode="document"
-                    multiple={true}
-                    onFilesSelected={handleFilesSelected}
-                    disabled={isAnalyzing}
-                  />
+                  <div className="flex flex-wrap justify-center gap-2">
+                    <UploadPicker
+                      mode="document"
+                      multiple={true}
+                      onFilesSelected={handleFilesSelected}
+                      onPhotosCaptured={handlePhotosCaptured}
+                      disabled={isAnalyzing}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPastedText("")}
+                      disabled={isAnalyzing}
+                      className="flex items-center gap-2 min-h-[40px]"
+                    >
+                      <ClipboardPaste className="w-4 h-4" />
+                      <span className="hidden sm:inline">Paste text as document</span>
+                      <span className="sm:hidden">Paste text</span>
+                    </Button>
+                  </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Supports PDF, DOCX, TXT, and image files (max 10MB each)
+                    Supports PDF, DOC, DOCX, ODT, RTF, TXT, image files (max 10MB each), and emails (EML, MSG) or ZIP archives of them
                   </p>
                 </div>
               </div>
@@ -448,7 +1152,9 @@ export default function DocumentAnalyzer() {
                       {isAnalyzing ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                          Analyzing...
+                          {analysisProgress && analysisProgress.total > 1
+                            ? `Analyzing... (${analysisProgress.completed}/${analysisProgress.total} parts)`
+                            : "Analyzing..."}
                         </>
                       ) : !areAllFilesReadyForAnalysis() ? (
                         <>
@@ -468,59 +1174,162 @@ export default function DocumentAnalyzer() {
                   </div>
                 </div>
                 <div className="space-y-3">
-                  {selectedFiles.map((selectedFile, index) => (
-                    <div key={`${selectedFile.file.name}-${index}`} className="flex items-center gap-3 p-3 border rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <FileText className="h-4 w-4 text-blue-500" />
-                        {getStatusIcon(selectedFile.status)}
-                      </div>
+                  {selectedFiles.map((selectedFile, index) => {
+                    const rootBundle = selectedFile.bundle && getRootBundle(selectedFile.bundle.source);
+                    const previousBundle = selectedFiles[index - 1]?.bundle;
+                    const startsBundle = !!rootBundle && (!previousBundle || getRootBundle(previousBundle.source).id !== rootBundle.id);
+
+                    return (
+                      <Fragment key={`${selectedFile.file.name}-${index}`}>
+                        {rootBundle && startsBundle && renderBundleHeader(rootBundle)}
+                        <div className={`flex items-center gap-3 p-3 border rounded-lg${rootBundle ? ' ml-6' : ''}`}>
+                          <div className="flex items-center gap-2">
+                            <FileText className="h-4 w-4 text-blue-500" />
+                            {getStatusIcon(selectedFile.status)}
+                          </div>
                       
-                      <div className="flex-1 min-w-0">
-                        <div className="font-medium truncate">{selectedFile.file.name}</div>
-                        <div className="text-sm text-muted-foreground">
-                          {(selectedFile.file.size / 1024).toFixed(1)} KB
-                          {selectedFile.extractedText && (
-                            <> • {selectedFile.extractedText.length} characters extracted</>
-                          )}
-                          {selectedFile.editedText && (
-                            <> • Text edited</>
-                          )}
-                        </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium truncate">{selectedFile.file.name}</div>
+                            {selectedFile.bundle && (
+                              <div className="text-xs text-muted-foreground truncate">
+                                {selectedFile.bundle.role === 'body' ? 'Message text of' : 'From'} {formatBundlePath(selectedFile.bundle.source)}
+                                {selectedFile.bundle.path && <> › {selectedFile.bundle.path}</>}
+                              </div>
+                            )}
+                            <div className="text-sm text-muted-foreground">
+                              {(selectedFile.file.size / 1024).toFixed(1)} KB
+                              {selectedFile.pasted && (
+                                <> • Pasted text</>
+                              )}
+                              {selectedFile.pages && (
+                                <> • {selectedFile.pages.length} {selectedFile.pages.length === 1 ? 'page' : 'pages'} photographed</>
+                              )}
+                              {selectedFile.pageCount !== undefined && (
+                                <> • {selectedFile.pageCount} pages</>
+                              )}
+                              {selectedFile.pageNumbers && (
+                                <> • Pages {formatPageRanges(selectedFile.pageNumbers)}</>
+                              )}
+                              {selectedFile.extractedText && (
+                                <> • {selectedFile.extractedText.length} characters extracted</>
+                              )}
+                              {selectedFile.editedText && (
+                                <> • Text edited</>
+                              )}
+                              {selectedFile.extractionResult?.language && (
+                                <> • {formatLanguages(selectedFile.extractionResult.language)}</>
+                              )}
+                            </div>
+
+                            {selectedFile.extractionResult?.language && getUnsupportedLanguageWarning(selectedFile.extractionResult.language) && (
+                              <div className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                {getUnsupportedLanguageWarning(selectedFile.extractionResult.language)}
+                              </div>
+                            )}
+
+                            {renderPdfDetails(selectedFile.extractionResult)}
+                            {renderTables(selectedFile.extractionResult)}
+
+                            {selectedFile.splitSuggestion && (
+                              <div className="mt-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs dark:border-amber-800 dark:bg-amber-950/20">
+                                <div className="font-medium text-amber-800 dark:text-amber-200">
+                                  This PDF looks like {selectedFile.splitSuggestion.length} separate documents
+                                </div>
+                                <ul className="mt-1 ml-4 list-disc text-muted-foreground">
+                                  {selectedFile.splitSuggestion.map((segment) => (
+                                    <li key={segment.pageNumbers[0]}>
+                                      {segment.title || 'Untitled'}: pages {formatPageRange(segment)}
+                                      {segment.reasons.length > 0 && ` (${getBoundaryReasonLabel(segment)})`}
+                                    </li>
+                                  ))}
+                                </ul>
+                                <div className="mt-2 flex gap-2">
+                                  <Button size="sm" variant="outline" onClick={() => handleSplitFile(index)}>
+                                    <Scissors className="w-3 h-3 mr-1" />
+                                    Split into {selectedFile.splitSuggestion.length} documents
+                                  </Button>
+                                  <Button size="sm" variant="ghost" onClick={() => handleDismissSplit(index)}>
+                                    Keep as one
+                                  </Button>
+                                </div>
+                              </div>
+                            )}
                         
-                        {selectedFile.status === 'extracting' && selectedFile.progress !== undefined && (
-                          <Progress value={selectedFile.progress} className="mt-2" />
-                        )}
-                      </div>
+                            {selectedFile.status === 'extracting' && selectedFile.progress !== undefined && (
+                              <>
+                                <Progress value={selectedFile.progress} className="mt-2" />
+                                {selectedFile.progressLabel && (
+                                  <div className="text-xs text-muted-foreground mt-1">{selectedFile.progressLabel}</div>
+                                )}
+                              </>
+                            )}
+                          </div>
                       
-                      <div className="flex gap-2">
-                        <Badge variant={
-                          selectedFile.status === 'done' ? 'default' : 
-                          selectedFile.status === 'error' ? 'destructive' : 
-                          selectedFile.status === 'extracting' ? 'secondary' :
-                          'secondary'
-                        }>
-                          {selectedFile.status === 'extracting' ? 'Extracting...' : selectedFile.status}
-                        </Badge>
+                          <div className="flex gap-2">
+                            <Badge variant={
+                              selectedFile.status === 'done' ? 'default' : 
+                              selectedFile.status === 'error' ? 'destructive' : 
+                              selectedFile.status === 'extracting' ? 'secondary' :
+                              'secondary'
+                            }>
+                              {selectedFile.status === 'extracting' ? 'Extracting...' :
+                                selectedFile.status === 'needsPassword' ? 'Password required' :
+                                selectedFile.status === 'choosingPages' ? 'Choose pages' :
+                                selectedFile.status}
+                            </Badge>
+
+                            {selectedFile.status === 'choosingPages' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleExtractAllPages(index)}
+                              >
+                                Extract all
+                              </Button>
+                            )}
+
+                            {selectedFile.pageCount !== undefined && (selectedFile.status === 'choosingPages' || selectedFile.status === 'done') && (
+                              <Button
+                                size="sm"
+                                onClick={() => setChoosingPagesIndex(index)}
+                              >
+                                <Files className="w-4 h-4 mr-1" />
+                                Choose pages
+                              </Button>
+                            )}
                         
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          onClick={() => handleEditFile(index)}
-                          disabled={selectedFile.status === 'extracting'}
-                        >
-                          Edit Text
-                        </Button>
+                            {selectedFile.status === 'needsPassword' && (
+                              <Button
+                                size="sm"
+                                onClick={() => setUnlockingIndex(index)}
+                              >
+                                <Lock className="w-4 h-4 mr-1" />
+                                Unlock
+                              </Button>
+                            )}
                         
-                        <Button 
-                          size="sm" 
-                          variant="destructive"
-                          onClick={() => handleRemoveFile(index)}
-                        >
-                          Remove
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => handleEditFile(index)}
+                              disabled={selectedFile.status === 'extracting'}
+                            >
+                              Edit Text
+                            </Button>
+                        
+                            <Button 
+                              size="sm" 
+                              variant="destructive"
+                              onClick={() => handleRemoveFile(index)}
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                        </div>
+                      </Fragment>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -537,6 +1346,33 @@ export default function DocumentAnalyzer() {
                 Review the results below and proceed to the chatbot for detailed discussions.
               </AlertDescription>
             </Alert>
+
+            {cleanupReports.some(({ report }) => report.removed.length > 0 || report.hyphenationsJoined > 0) && (
+              <details className="text-sm text-muted-foreground border rounded-lg p-3">
+                <summary className="cursor-pointer">
+                  {summarizeBoilerplateReports(cleanupReports.map(({ report }) => report))}
+                </summary>
+                <div className="mt-2 space-y-2">
+                  {cleanupReports.map(({ fileName, report }) => (
+                    <div key={fileName}>
+                      <div className="font-medium text-foreground">{fileName}</div>
+                      <ul className="ml-4 list-disc">
+                        {report.removed.map((item, index) => (
+                          <li key={index}>
+                            {item.kind === 'page-number' ? 'Page number' : item.kind === 'initials' ? 'Initials box' : 'Header/footer'}
+                            {item.kind !== 'page-number' && <>: "{item.text}"</>}
+                            {item.occurrences > 1 && ` ×${item.occurrences}`}
+                          </li>
+                        ))}
+                        {report.hyphenationsJoined > 0 && (
+                          <li>{report.hyphenationsJoined} hyphenated word(s) re-joined</li>
+                        )}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </details>
+            )}
             
             <div className="flex items-center justify-between">
               <div>
@@ -590,6 +1426,13 @@ export default function DocumentAnalyzer() {
                               <h4 className="font-medium text-blue-900 flex-1">
                                 {clause.clause_title}
                               </h4>
+                              {renderSourceBadge(clause.clause_text)}
+                              {renderChunkBadge(clause.source_chunks)}
+                              {clause.origin === 'rules' && (
+                                <Badge variant="secondary" className="text-xs" title="Found by the offline clause detector">
+                                  Rule-based
+                                </Badge>
+                              )}
                               {clause.relevant_law && (
                                 <Badge variant="outline" className="text-xs">
                                   <BookOpen className="w-3 h-3 mr-1" />
@@ -631,8 +1474,8 @@ export default function DocumentAnalyzer() {
                     </Badge>
                   </div>
                   <div className="grid gap-4">
-                    {analysisResult.legal_risks.map((risk, index) => {
-                      const severityStyle = getRiskSeverityColor(risk.risk_area);
+                    {sortRisksBySeverity(analysisResult.legal_risks).map((risk, index) => {
+                      const severityStyle = getRiskSeverityStyle(risk.severity);
                       return (
                         <Card key={index} className={`${severityStyle.bg} border-2`}>
                           <CardContent className="p-4">
@@ -642,9 +1485,17 @@ export default function DocumentAnalyzer() {
                                   {risk.risk_area}
                                 </h4>
                                 <div className="flex items-center gap-2">
-                                  <Badge variant="outline" className={`text-xs ${severityStyle.color}`}>
+                                  {renderChunkBadge(risk.source_chunks)}
+                                  <Badge
+                                    variant="outline"
+                                    className={`text-xs ${severityStyle.color}`}
+                                    title={[
+                                      risk.likelihood && `Likelihood: ${formatRiskLevel(risk.likelihood)}`,
+                                      risk.impact && `Impact: ${formatRiskLevel(risk.impact)}`,
+                                    ].filter(Boolean).join(' · ') || undefined}
+                                  >
                                     <AlertTriangle className="w-3 h-3 mr-1" />
-                                    {severityStyle.severity} Risk
+                                    {severityStyle.label} Risk
                                   </Badge>
                                   {risk.relevant_law && (
                                     <Badge variant="outline" className="text-xs">
@@ -669,7 +1520,26 @@ export default function DocumentAnalyzer() {
                                     <strong>Relevant Law:</strong> {risk.relevant_law}
                                   </p>
                                 )}
+                                {(risk.likelihood || risk.impact) && (
+                                  <p className="text-sm">
+                                    <strong>Likelihood:</strong> {risk.likelihood ? formatRiskLevel(risk.likelihood) : 'Not rated'}
+                                    {' · '}
+                                    <strong>Impact:</strong> {risk.impact ? formatRiskLevel(risk.impact) : 'Not rated'}
+                                  </p>
+                                )}
+                                {risk.rationale && (
+                                  <p className="text-sm text-muted-foreground">
+                                    <strong>Why this rating:</strong> {risk.rationale}
+                                  </p>
+                                )}
                               </div>
+                              {risk.recommended_action && (
+                                <div className="bg-white p-3 rounded border">
+                                  <p className="text-sm">
+                                    <strong>Recommended Action:</strong> {risk.recommended_action}
+                                  </p>
+                                </div>
+                              )}
                             </div>
                           </CardContent>
                         </Card>
@@ -720,16 +1590,47 @@ export default function DocumentAnalyzer() {
     </div>
 
 
+      <PasteTextDialog
+        isOpen={pastedText !== null}
+        initialText={pastedText || ""}
+        defaultTitle={`Pasted text ${selectedFiles.filter(sf => sf.pasted).length + 1}`}
+        onSubmit={handleAddPastedText}
+        onClose={() => setPastedText(null)}
+      />
+
       {editingFile && (
         <EditDocumentModal
           file={editingFile.file}
           initialText={editingFile.text}
+          extractionResult={editingFile.extractionResult}
+          highlightRange={editingFile.highlightRange}
           isOpen={!!editingFile}
           onSave={handleSaveEditedText}
           onClose={() => setEditingFile(null)}
         />
       )}
 
+      {choosingPagesIndex !== null && selectedFiles[choosingPagesIndex]?.pageCount !== undefined && (
+        <PdfPageSelector
+          isOpen={choosingPagesIndex !== null}
+          file={selectedFiles[choosingPagesIndex].file}
+          pageCount={selectedFiles[choosingPagesIndex].pageCount || 0}
+          initialSelection={selectedFiles[choosingPagesIndex].pageNumbers}
+          onSubmit={handlePagesChosen}
+          onClose={() => setChoosingPagesIndex(null)}
+        />
+      )}
+
+      {unlockingIndex !== null && selectedFiles[unlockingIndex] && (
+        <PdfPasswordDialog
+          fileName={selectedFiles[unlockingIndex].file.name}
+          reason={selectedFiles[unlockingIndex].passwordReason || 'needed'}
+          isOpen={unlockingIndex !== null}
+          onSubmit={handleUnlockFile}
+          onClose={() => setUnlockingIndex(null)}
+        />
+      )}
+
       {/* Privacy Protection Dialog */}
       <AlertDialog open={showPrivacyDialog} onOpenChange={setShowPrivacyDialog}>
         <AlertDialogContent className="max-w-2xl">
@@ -14,17 +14,52 @@ import {
   ExternalLink,
   Scale,
   Globe,
-  Lock
+  Lock,
+  Database,
+  Trash2,
+  Loader2
 } from "lucide-react";
 import { applyTheme, getStoredTheme, setStoredTheme, type Theme } from "@/lib/theme";
+import { formatFileSize } from "@/lib/file";
+import { useToast } from "@/hooks/use-toast";
+import { clearExtractionCache, ExtractionCacheSummary, getExtractionCacheSummary } from "@/services/extractionCache";
 
 export default function Settings() {
   const [theme, setTheme] = useState<Theme>(getStoredTheme());
+  const [cacheSummary, setCacheSummary] = useState<ExtractionCacheSummary | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const { toast } = useToast();
 
   useEffect(() => {
     applyTheme(theme);
   }, [theme]);
 
+  useEffect(() => {
+    getExtractionCacheSummary()
+      .then(setCacheSummary)
+      .catch(() => setCacheSummary(null));
+  }, []);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      await clearExtractionCache();
+      setCacheSummary(await getExtractionCacheSummary());
+      toast({
+        title: "Cache cleared",
+        description: "Saved extractions and edits have been removed from this browser",
+      });
+    } catch (error) {
+      toast({
+        title: "Unable to clear cache",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
   const handleThemeChange = (newTheme: Theme) => {
     setTheme(newTheme);
     setStoredTheme(newTheme);
@@ -179,6 +214,76 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Extraction Cache */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="w-5 h-5" />
+                Document Cache
+              </CardTitle>
+              <CardDescription>
+                Extracted text and your edits are kept in this browser so re-uploaded documents open instantly
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {cacheSummary ? (
+                <>
+                  <div className="space-y-3 text-sm text-muted-foreground">
+                    <div className="flex items-center justify-between">
+                      <span>Cached documents</span>
+                      <span>{cacheSummary.entryCount}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Space used</span>
+                      <span>
+                        {formatFileSize(cacheSummary.totalSize)} of {formatFileSize(cacheSummary.maxSize)}
+                      </span>
+                    </div>
+                  </div>
+
+                  {cacheSummary.entries.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto space-y-2 text-sm">
+                      {cacheSummary.entries.map((entry) => (
+                        <div key={entry.key} className="flex items-center justify-between gap-3">
+                          <span className="truncate">
+                            {entry.fileName}
+                            {entry.editedText !== undefined && (
+                              <span className="text-muted-foreground"> (edited)</span>
+                            )}
+                          </span>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            {new Date(entry.lastAccessed).toLocaleDateString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  The cache is not available in this browser.
+                </p>
+              )}
+
+              <Separator />
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={handleClearCache}
+                disabled={!cacheSummary || cacheSummary.entryCount === 0 || isClearingCache}
+              >
+                {isClearingCache ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4 mr-2" />
+                )}
+                Clear cache
+              </Button>
+            </CardContent>
+          </Card>
+
           {/* About */}
           <Card className="shadow-card">
             <CardHeader>
@@ -51,6 +51,7 @@ export default function TextExtractionTest() {
     try {
       const result = await extractText(fileToProcess.file, {
         fallbackToOCR: true,
+        preprocessImage: true,
         ocrOptions: {
           logger: (info) => {
             setFiles(prev => prev.map((f, i) => 
@@ -338,7 +339,16 @@ export default function TextExtractionTest() {
                       success: selectedResult.success,
                       ...(selectedResult.pdfResult?.metadata && { pdfMetadata: selectedResult.pdfResult.metadata }),
                       ...(selectedResult.docxResult?.metadata && { docxMetadata: selectedResult.docxResult.metadata }),
+                      ...(selectedResult.docxResult?.structure && { docxStructure: {
+                        headings: selectedResult.docxResult.structure.headings.length,
+                        clauses: selectedResult.docxResult.structure.clauses.length,
+                        tables: selectedResult.docxResult.structure.tables.length,
+                        comments: selectedResult.docxResult.structure.comments.length,
+                        revisions: selectedResult.docxResult.structure.revisions.length,
+                        authors: selectedResult.docxResult.structure.authors,
+                      } }),
                       ...(selectedResult.ocrResult && { ocrMetadata: { confidence: selectedResult.ocrResult.confidence, processingTime: selectedResult.ocrResult.processingTime } }),
+                      ...(selectedResult.preprocessing && { preprocessing: selectedResult.preprocessing }),
                     }, null, 2)}
                   </pre>
                 </div>
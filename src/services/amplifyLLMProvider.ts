@@ -0,0 +1,53 @@
+import { client } from '@/lib/amplify-client';
+import type { AnalysisRequest, ChatRequest, LLMProvider, LLMRequestOptions, LLMStreamOptions } from './llmProvider';
+
+/**
+ * Sends analysis and chat requests to the Bedrock generation routes of the Amplify data backend
+ */
+export class AmplifyLLMProvider implements LLMProvider {
+  readonly name = 'amplify' as const;
+
+  async analyze(request: AnalysisRequest, options: LLMRequestOptions = {}): Promise<string> {
+    const { data, errors } = await client.generations.analyzeLegalDocuments({
+      userQuestion: request.userQuestion,
+      snippets: request.snippets,
+      tables: JSON.stringify(request.tables || []),
+    });
+    throwIfAborted(options.signal);
+    return readGeneration(data, errors, 'analysis');
+  }
+
+  async chat(request: ChatRequest, options: LLMRequestOptions = {}): Promise<string> {
+    const { data, errors } = await client.generations.chatWithDocuments({
+      userMessage: request.userMessage,
+      legalText: request.legalText,
+      summarizedJson: JSON.stringify(request.summarizedJson),
+    });
+    throwIfAborted(options.signal);
+    return readGeneration(data, errors, 'chat');
+  }
+
+  // Generation routes answer in one piece
+  async streamChat(request: ChatRequest, { onDelta, signal }: LLMStreamOptions): Promise<string> {
+    const text = await this.chat(request, { signal });
+    onDelta(text, text);
+    return text;
+  }
+}
+
+function readGeneration(data: string | null | undefined, errors: Array<{ message: string }> | undefined, kind: 'analysis' | 'chat'): string {
+  if (errors && errors.length > 0) {
+    throw new Error(errors.map((error) => error.message).join('; '));
+  }
+  if (!data) {
+    throw new Error(`Missing message content in ${kind} response`);
+  }
+  return data;
+}
+
+// The data client can't cancel a request, so an aborted one is dropped once it returns
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('The request was aborted', 'AbortError');
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { DocumentAnalysisResult } from '@/hooks/uploadedFileContext';
+import { AnalysisChunk, mapWithConcurrency, mergeChunkAnalyses, splitIntoChunks } from './analysisChunker';
+
+const clause = (heading: string, sentences: number) =>
+  [heading, ...Array.from({ length: sentences }, (_, i) => `Sentence ${i + 1} sets out what the parties agreed.`)].join('\n');
+
+const chunk = (index: number, text = ''): AnalysisChunk => ({ index, documentIndex: 0, text });
+
+const analysis = (overrides: Partial<DocumentAnalysisResult>): DocumentAnalysisResult => ({
+  important_clauses: [],
+  legal_risks: [],
+  notes: '',
+  ...overrides,
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps a document that fits in one chunk', () => {
+    const chunks = splitIntoChunks(['1. Rent\nThe rent is RM2,500.'], 1000);
+
+    expect(chunks).toEqual([{ index: 0, documentIndex: 0, text: '1. Rent\nThe rent is RM2,500.', heading: '1. Rent' }]);
+  });
+
+  it('cuts at clause headings and packs whole clauses into each chunk', () => {
+    const clauses = [clause('1. Rent', 3), clause('2. Deposit', 3), clause('3. Termination', 3), clause('4. Governing Law', 3)];
+    const text = clauses.join('\n');
+
+    const chunks = splitIntoChunks([text], clauses[0].length + clauses[1].length + clauses[2].length);
+
+    expect(chunks.map((entry) => entry.heading)).toEqual(['1. Rent', '3. Termination']);
+    expect(chunks[0].text).toBe(`${clauses[0]}\n${clauses[1]}`);
+    expect(chunks[1].text).toContain('4. Governing Law');
+  });
+
+  it('falls back to smaller boundaries for a clause longer than a chunk', () => {
+    const text = clause('12. Events of Default', 20);
+
+    const chunks = splitIntoChunks([text], 300);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((entry) => entry.text.length <= 300)).toBe(true);
+    // Cut between lines, so no sentence is split
+    expect(chunks.every((entry) => entry.text.endsWith('agreed.') || entry.text.endsWith('Default'))).toBe(true);
+  });
+
+  it('never mixes documents in a chunk', () => {
+    const chunks = splitIntoChunks(['1. Rent\nFirst document.', '', '1. Loan\nSecond document.'], 1000);
+
+    expect(chunks.map((entry) => [entry.index, entry.documentIndex])).toEqual([[0, 0], [1, 2]]);
+  });
+});
+
+describe('mergeChunkAnalyses', () => {
+  it('keeps findings reported by several chunks once, recording every chunk', () => {
+    const termination = {
+      clause_title: '12. Termination',
+      clause_text: 'Either party may terminate this agreement by giving one month written notice.',
+      summary: 'One month notice to terminate.',
+    };
+
+    const merged = mergeChunkAnalyses([
+      { chunk: chunk(0, 'first'), analysis: analysis({ important_clauses: [termination], notes: 'Not legal advice.' }) },
+      {
+        chunk: chunk(1, 'second'),
+        analysis: analysis({
+          important_clauses: [
+            { ...termination, clause_title: 'Termination', relevant_law: 'Contracts Act 1950' },
+            { clause_title: 'Deposit', clause_text: 'Two months rent as deposit.', summary: 'Deposit of two months.' },
+          ],
+          notes: 'Not legal advice.',
+        }),
+      },
+    ]);
+
+    expect(merged.important_clauses).toEqual([
+      { ...termination, relevant_law: 'Contracts Act 1950', source_chunks: [0, 1] },
+      { clause_title: 'Deposit', clause_text: 'Two months rent as deposit.', summary: 'Deposit of two months.', source_chunks: [1] },
+    ]);
+    expect(merged.notes).toBe('Not legal advice.');
+    expect(merged.analysis_chunks).toEqual([
+      { index: 0, document_index: 0, heading: undefined, characters: 5 },
+      { index: 1, document_index: 0, heading: undefined, characters: 6 },
+    ]);
+  });
+
+  it('keeps risks in the same area apart when they concern different clauses', () => {
+    const risk = {
+      risk_area: 'Payment',
+      description: 'Late payment interest is charged daily.',
+      potential_consequence: 'Debt grows quickly.',
+      related_clause: 'Clause 3',
+    };
+
+    const merged = mergeChunkAnalyses([
+      { chunk: chunk(0), analysis: analysis({ legal_risks: [risk] }) },
+      { chunk: chunk(1), analysis: analysis({ legal_risks: [{ ...risk, related_clause: 'Clause 9', description: 'Deposit is forfeited on any breach.' }] }) },
+    ]);
+
+    expect(merged.legal_risks.map((entry) => entry.source_chunks)).toEqual([[0], [1]]);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('limits calls in flight and settles each result in input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (value) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      if (value === 3) throw new Error('chunk failed');
+      return value * 10;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+    expect(results[4]).toEqual({ status: 'fulfilled', value: 50 });
+  });
+});
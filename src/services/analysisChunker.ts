@@ -0,0 +1,225 @@
+import type { AnalysisChunkInfo, DocumentAnalysisResult, ImportantClause, LegalRisk, RiskLevel } from '@/hooks/uploadedFileContext';
+
+// Documents too long for one analysis request are split into chunks at clause boundaries,
+// each chunk is analyzed on its own, and the findings are merged back into one result
+
+export interface AnalysisChunk {
+  index: number; // Position among all chunks, from 0
+  documentIndex: number; // Document the chunk was cut from
+  text: string;
+  heading?: string; // First clause heading in the chunk, e.g. "12. Events of Default"
+}
+
+export interface ChunkAnalysis {
+  chunk: AnalysisChunk;
+  analysis: DocumentAnalysisResult;
+}
+
+// Where a section may be cut, from the most to the least preferred
+const SPLIT_PATTERNS: RegExp[] = [
+  // Schedules, parts and top-level clauses: "SCHEDULE 2", "Part III", "12. Events of Default", "Clause 12", "Fasal 4"
+  /^(?=\s*(?:(?:first|second|third|fourth|fifth)\s+)?(?:schedule|jadual|lampiran|annexure|appendix|exhibit|part|bahagian)\b)/gimu,
+  /^(?=\s*(?:(?:clause|section|article|fasal|seksyen|perkara)\s+\d{1,3}\b|\d{1,3}[.)]\s+\p{L}))/gimu,
+  // Sub-clauses: "12.1 The Borrower shall..."
+  /^(?=\s*\d{1,3}(?:\.\d{1,3})+\.?\s+\p{L})/gimu,
+  // Paragraphs, then lines, then sentences
+  /(?<=\n\s*\n)/g,
+  /(?<=\n)/g,
+  /(?<=[.;:]\s)/g,
+];
+
+const HEADING_PATTERN = /^\s*(?:(?:clause|section|article|fasal|seksyen|perkara)\s+\d{1,3}\b|\d{1,3}[.)]\s+\p{L}|(?:schedule|jadual|lampiran|annexure|appendix|part|bahagian)\b)/imu;
+const MAX_HEADING_LENGTH = 80;
+
+// Word overlap above which two findings with the same title are taken to be the same finding
+const DUPLICATE_SIMILARITY = 0.6;
+
+/**
+ * Split documents into chunks no longer than the given length, cutting at clause boundaries where possible
+ * Each chunk holds text from one document; consecutive clauses are packed together until the chunk is full
+ * @param texts - Document texts
+ * @param maxLength - Longest chunk in characters
+ * @returns Chunks in document order
+ */
+export function splitIntoChunks(texts: string[], maxLength: number): AnalysisChunk[] {
+  const chunks: AnalysisChunk[] = [];
+  texts.forEach((text, documentIndex) => {
+    for (const piece of packSections(splitSection(text, maxLength, 0), maxLength)) {
+      const trimmed = piece.trim();
+      if (!trimmed) continue;
+      chunks.push({ index: chunks.length, documentIndex, text: trimmed, heading: findHeading(trimmed) });
+    }
+  });
+  return chunks;
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * @param items - Inputs
+ * @param limit - Maximum concurrent calls
+ * @param fn - Called for each item
+ * @returns Settled results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Merge the analyses of separate chunks into one result
+ * Clauses and risks reported by more than one chunk are kept once, with every chunk recorded in source_chunks
+ * @param analyses - Analysis of each chunk that succeeded
+ * @returns Combined analysis, with the chunks described in analysis_chunks
+ */
+export function mergeChunkAnalyses(analyses: ChunkAnalysis[]): DocumentAnalysisResult {
+  const clauses: ImportantClause[] = [];
+  const risks: LegalRisk[] = [];
+  const notes: string[] = [];
+
+  for (const { chunk, analysis } of analyses) {
+    for (const clause of analysis.important_clauses) {
+      const existing = clauses.find((other) => isSameClause(other, clause));
+      if (existing) {
+        addSourceChunk(existing, chunk.index);
+        existing.relevant_law = existing.relevant_law || clause.relevant_law;
+      } else {
+        clauses.push({ ...clause, source_chunks: [chunk.index] });
+      }
+    }
+
+    for (const risk of analysis.legal_risks) {
+      const existing = risks.find((other) => isSameRisk(other, risk));
+      if (existing) {
+        addSourceChunk(existing, chunk.index);
+        existing.relevant_law = existing.relevant_law || risk.relevant_law;
+        // Ratings come as a set with their rationale, so take the more severe one whole
+        if (getLevelRank(risk.severity) > getLevelRank(existing.severity)) {
+          Object.assign(existing, { severity: risk.severity, likelihood: risk.likelihood, impact: risk.impact, rationale: risk.rationale });
+        }
+        existing.recommended_action = existing.recommended_action || risk.recommended_action;
+      } else {
+        risks.push({ ...risk, source_chunks: [chunk.index] });
+      }
+    }
+
+    const note = analysis.notes?.trim();
+    if (note && !notes.includes(note)) notes.push(note);
+  }
+
+  return {
+    important_clauses: clauses,
+    legal_risks: risks,
+    notes: notes.join('\n\n'),
+    analysis_chunks: analyses.map(({ chunk }): AnalysisChunkInfo => ({
+      index: chunk.index,
+      document_index: chunk.documentIndex,
+      heading: chunk.heading,
+      characters: chunk.text.length,
+    })),
+  };
+}
+
+// Cut a section into pieces no longer than maxLength, trying each split pattern in turn
+function splitSection(text: string, maxLength: number, level: number): string[] {
+  if (text.length <= maxLength) return [text];
+  if (level >= SPLIT_PATTERNS.length) {
+    const pieces: string[] = [];
+    for (let start = 0; start < text.length; start += maxLength) pieces.push(text.slice(start, start + maxLength));
+    return pieces;
+  }
+
+  const sections = text.split(SPLIT_PATTERNS[level]).filter(Boolean);
+  if (sections.length < 2) return splitSection(text, maxLength, level + 1);
+  return packSections(sections.flatMap((section) => splitSection(section, maxLength, level + 1)), maxLength);
+}
+
+// Join consecutive sections while they fit in one chunk
+function packSections(sections: string[], maxLength: number): string[] {
+  const packed: string[] = [];
+  let current = '';
+  for (const section of sections) {
+    if (current && current.length + section.length > maxLength) {
+      packed.push(current);
+      current = '';
+    }
+    current += section;
+  }
+  if (current) packed.push(current);
+  return packed;
+}
+
+function findHeading(text: string): string | undefined {
+  const line = text.split('\n').find((candidate) => HEADING_PATTERN.test(candidate));
+  if (!line) return undefined;
+  const heading = line.trim().replace(/\s+/g, ' ');
+  return heading.length > MAX_HEADING_LENGTH ? `${heading.slice(0, MAX_HEADING_LENGTH - 1)}…` : heading;
+}
+
+function getLevelRank(level?: RiskLevel): number {
+  return level ? ['low', 'medium', 'high'].indexOf(level) + 1 : 0;
+}
+
+function addSourceChunk(finding: { source_chunks?: number[] }, chunkIndex: number) {
+  const chunks = finding.source_chunks || [];
+  if (!chunks.includes(chunkIndex)) finding.source_chunks = [...chunks, chunkIndex];
+}
+
+// Same title, and either the quoted text or the summary mostly shared
+function isSameClause(a: ImportantClause, b: ImportantClause): boolean {
+  if (normalizeTitle(a.clause_title) !== normalizeTitle(b.clause_title)) return false;
+  return getSimilarity(a.clause_text, b.clause_text) >= DUPLICATE_SIMILARITY ||
+    getSimilarity(a.summary, b.summary) >= DUPLICATE_SIMILARITY;
+}
+
+// Same risk area, and either the same related clause or mostly the same description
+function isSameRisk(a: LegalRisk, b: LegalRisk): boolean {
+  if (normalizeTitle(a.risk_area) !== normalizeTitle(b.risk_area)) return false;
+  const relatedClause = normalizeReference(a.related_clause);
+  return (!!relatedClause && relatedClause === normalizeReference(b.related_clause)) ||
+    getSimilarity(a.description, b.description) >= DUPLICATE_SIMILARITY;
+}
+
+// Lower case without clause numbers and punctuation, so "12. Termination" matches "Termination"
+function normalizeTitle(title: string): string {
+  return (title || '')
+    .toLowerCase()
+    .replace(/^\s*(?:(?:clause|section|article|fasal|seksyen|perkara)\s+)?\d+(?:\.\d+)*[.)]?\s*/, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Lower case without punctuation, keeping numbers: "Clause 3" and "Clause 9" are different clauses
+function normalizeReference(reference: string): string {
+  return (reference || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Share of distinct words the two texts have in common
+function getSimilarity(a: string, b: string): number {
+  const wordsA = new Set((a || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+  const wordsB = new Set((b || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
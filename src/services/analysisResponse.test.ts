@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { buildRepairQuestion, extractJson, parseAnalysisResponse } from './analysisResponse';
+
+const ANALYSIS = {
+  important_clauses: [
+    { clause_title: 'Rent', clause_text: 'The rent is RM2,500 per month.', summary: 'Monthly rent.' },
+  ],
+  legal_risks: [
+    {
+      risk_area: 'Late payment',
+      description: 'Interest of 10% a year on late rent.',
+      potential_consequence: 'Higher cost.',
+      related_clause: 'Clause 3',
+    },
+  ],
+  notes: 'Not legal advice.',
+};
+
+describe('extractJson', () => {
+  it('reads a bare JSON answer', () => {
+    expect(extractJson(JSON.stringify(ANALYSIS))).toEqual(ANALYSIS);
+  });
+
+  it('reads JSON inside code fences', () => {
+    expect(extractJson(`Here is the analysis:\n\`\`\`json\n${JSON.stringify(ANALYSIS)}\n\`\`\``)).toEqual(ANALYSIS);
+  });
+
+  it('finds the object in surrounding text, ignoring braces inside strings', () => {
+    const answer = `Sure! {"notes": "Rent {see clause 3} applies"} Let me know if you need more.`;
+
+    expect(extractJson(answer)).toEqual({ notes: 'Rent {see clause 3} applies' });
+  });
+
+  it('returns undefined when there is no JSON', () => {
+    expect(extractJson('I could not analyze this document.')).toBeUndefined();
+  });
+});
+
+describe('parseAnalysisResponse', () => {
+  it('accepts a valid analysis', () => {
+    expect(parseAnalysisResponse(JSON.stringify(ANALYSIS))).toEqual({ data: ANALYSIS, errors: [] });
+  });
+
+  it('coerces near-miss shapes', () => {
+    const answer = JSON.stringify({
+      keyClauses: {
+        rent: { clauseTitle: 'Rent', clauseText: ['The rent is RM2,500', 'payable monthly.'], summary: 'Monthly rent.', relevantLaw: '' },
+      },
+      risks: JSON.stringify({ risk_area: 'Deposit', description: 'Forfeited on breach.', related_clause: ['Clause 4', 'Clause 9'] }),
+      disclaimer: 'Not legal advice.',
+    });
+
+    const { data, errors } = parseAnalysisResponse(answer);
+
+    expect(errors).toEqual([]);
+    expect(data).toEqual({
+      important_clauses: [{ clause_title: 'Rent', clause_text: 'The rent is RM2,500\npayable monthly.', summary: 'Monthly rent.' }],
+      legal_risks: [
+        { risk_area: 'Deposit', description: 'Forfeited on breach.', potential_consequence: '', related_clause: 'Clause 4, Clause 9' },
+      ],
+      notes: 'Not legal advice.',
+    });
+  });
+
+  it('reports what is missing, field by field', () => {
+    const { data, errors } = parseAnalysisResponse(JSON.stringify({
+      important_clauses: [{ clause_text: 'The rent is RM2,500.' }],
+      legal_risks: [],
+    }));
+
+    expect(data).toBeUndefined();
+    expect(errors).toEqual(['important_clauses[0].clause_title: Required']);
+  });
+
+  it('reports an answer without JSON', () => {
+    expect(parseAnalysisResponse('Sorry, I cannot help with that.')).toEqual({
+      errors: ['The answer does not contain a JSON object'],
+    });
+  });
+});
+
+describe('buildRepairQuestion', () => {
+  it('lists every problem', () => {
+    const question = buildRepairQuestion(['important_clauses[0].clause_title: Required', 'legal_risks: Required']);
+
+    expect(question).toContain('- important_clauses[0].clause_title: Required\n- legal_risks: Required');
+  });
+});
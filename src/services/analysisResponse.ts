@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import type { RiskLevel } from '@/hooks/uploadedFileContext';
+
+// Reads the analysis JSON out of a model answer. Models often wrap it in ```json fences, add a sentence
+// before or after it, or bend the shape slightly, so the answer is extracted tolerantly, near-miss shapes
+// are coerced, and whatever still doesn't fit is reported field by field
+
+// Analysis as returned by the language model
+export interface LLMResponse {
+  important_clauses: Array<{
+    clause_title: string;
+    clause_text: string;
+    summary: string;
+    relevant_law?: string;
+  }>;
+  legal_risks: Array<{
+    risk_area: string;
+    description: string;
+    potential_consequence: string;
+    related_clause: string;
+    relevant_law?: string;
+    severity?: RiskLevel;
+    likelihood?: RiskLevel;
+    impact?: RiskLevel;
+    recommended_action?: string;
+    rationale?: string;
+  }>;
+  notes: string;
+}
+
+// Text fields also accept numbers, and lists of strings which are joined
+const text = (separator: string) => z.preprocess((value) => {
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value.join(separator);
+  return value;
+}, z.string());
+
+const optionalText = z.preprocess((value) => (value === null || value === '' ? undefined : value), text('; ').optional());
+
+// Ratings also accept common synonyms and 1-5 scores; "unknown" and similar are treated as missing
+const level = z.preprocess(normalizeRiskLevel, z.enum(['low', 'medium', 'high']).optional());
+
+// Lists also accept a single item, an object of items keyed by name, or the list as a JSON string
+const list = <T extends z.ZodTypeAny>(item: T, itemKey: string) => z.preprocess((value) => {
+  if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return itemKey in value ? [value] : Object.values(value);
+  }
+  return value;
+}, z.array(item));
+
+const clauseSchema = z.preprocess(normalizeKeys, z.object({
+  clause_title: text(' '),
+  clause_text: text('\n'),
+  summary: text(' ').default(''),
+  relevant_law: optionalText,
+}));
+
+const riskSchema = z.preprocess(normalizeKeys, z.object({
+  risk_area: text(' '),
+  description: text(' '),
+  potential_consequence: text(' ').default(''),
+  related_clause: text(', ').default(''),
+  relevant_law: optionalText,
+  severity: level,
+  likelihood: level,
+  impact: level,
+  recommended_action: optionalText,
+  rationale: optionalText,
+}).transform((risk) => ({ ...risk, severity: risk.severity || combineRiskLevels(risk.likelihood, risk.impact) })));
+
+const llmResponseSchema = z.preprocess(normalizeKeys, z.object({
+  important_clauses: list(clauseSchema, 'clause_title'),
+  legal_risks: list(riskSchema, 'risk_area'),
+  notes: text(' ').default(''),
+}));
+
+// Other names models use for the top-level fields
+const KEY_ALIASES: Record<string, string> = {
+  clauses: 'important_clauses',
+  key_clauses: 'important_clauses',
+  risks: 'legal_risks',
+  potential_risks: 'legal_risks',
+  note: 'notes',
+  disclaimer: 'notes',
+  recommendation: 'recommended_action',
+  recommended_actions: 'recommended_action',
+  mitigation: 'recommended_action',
+  reason: 'rationale',
+  severity_rationale: 'rationale',
+  probability: 'likelihood',
+};
+
+const RISK_LEVEL_SYNONYMS: Record<string, RiskLevel | undefined> = {
+  low: 'low',
+  minor: 'low',
+  negligible: 'low',
+  'very low': 'low',
+  medium: 'medium',
+  moderate: 'medium',
+  med: 'medium',
+  high: 'high',
+  major: 'high',
+  severe: 'high',
+  critical: 'high',
+  'very high': 'high',
+  unknown: undefined,
+  'n/a': undefined,
+  none: undefined,
+};
+
+export interface AnalysisResponseParseResult {
+  data?: LLMResponse; // Set when the answer passed validation
+  errors: string[]; // One message per problem, e.g. "important_clauses[2].clause_title: Required"
+}
+
+/**
+ * Thrown when a model answer can't be read as an analysis
+ */
+export class AnalysisResponseError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`The analysis returned by the AI is incomplete or malformed (${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '; …' : ''})`);
+    this.name = 'AnalysisResponseError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Read and validate the analysis in a model answer
+ * @param content - Model answer, which may wrap the JSON in fences or other text
+ * @returns The analysis, or the problems found with it
+ */
+export function parseAnalysisResponse(content: string): AnalysisResponseParseResult {
+  const json = extractJson(content);
+  if (json === undefined) {
+    return { errors: ['The answer does not contain a JSON object'] };
+  }
+
+  const parsed = llmResponseSchema.safeParse(json);
+  if (parsed.success) {
+    // The schema enforces the required fields; without strict null checks zod infers them as optional
+    return { data: parsed.data as LLMResponse, errors: [] };
+  }
+  return { errors: parsed.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`) };
+}
+
+/**
+ * Build the follow-up request asking the model to fix an answer that failed validation
+ * @param errors - Problems from parseAnalysisResponse
+ * @returns Question to send with the failed answer as the only snippet
+ */
+export function buildRepairQuestion(errors: string[]): string {
+  return [
+    'Your previous analysis of these legal documents, given below, could not be used because of these problems:',
+    ...errors.map((error) => `- ${error}`),
+    'Return only the corrected analysis as a single JSON object with "important_clauses" (each with clause_title, clause_text, summary and optional relevant_law), ' +
+      '"legal_risks" (each with risk_area, description, potential_consequence, related_clause, severity, likelihood and impact ' +
+      'as "low", "medium" or "high", recommended_action, rationale and optional relevant_law) and "notes". ' +
+      'Keep the content of the previous analysis, do not add commentary, and do not wrap the JSON in code fences.',
+  ].join('\n');
+}
+
+/**
+ * Find the JSON value in a model answer
+ * Tries the whole answer, then fenced code blocks, then the outermost balanced {...} in the text
+ * @param content - Model answer
+ * @returns Parsed JSON, or undefined when none could be read
+ */
+export function extractJson(content: string): unknown {
+  const candidates = [
+    content,
+    ...Array.from(content.matchAll(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/g), (match) => match[1]),
+    ...findBalancedObjects(content),
+  ];
+
+  for (const candidate of candidates) {
+    const trimmed = candidate.trim();
+    if (!trimmed) continue;
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+// Top-level {...} spans in the text, longest first, skipping braces inside strings
+function findBalancedObjects(content: string): string[] {
+  const spans: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) spans.push(content.slice(start, i + 1));
+    }
+  }
+  return spans.sort((a, b) => b.length - a.length);
+}
+
+// camelCase and spaced keys to snake_case, and known aliases to the expected names
+function normalizeKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => {
+    const snake = key
+      .replace(/([a-z])([A-Z])/g, '$1_$2')
+      .replace(/[\s-]+/g, '_')
+      .toLowerCase();
+    return [KEY_ALIASES[snake] || snake, entry];
+  }));
+}
+
+function normalizeRiskLevel(value: unknown): unknown {
+  if (value === null || value === '') return undefined;
+  if (typeof value === 'number') {
+    // 1-5 scores
+    return value <= 2 ? 'low' : value < 4 ? 'medium' : 'high';
+  }
+  if (typeof value !== 'string') return value;
+
+  const key = value.trim().toLowerCase().replace(/[\s_-]+/g, ' ').replace(/\s*risk$/, '');
+  return Object.prototype.hasOwnProperty.call(RISK_LEVEL_SYNONYMS, key) ? RISK_LEVEL_SYNONYMS[key] : value;
+}
+
+// Severity from likelihood and impact when the model rated those but not severity; impact weighs more
+function combineRiskLevels(likelihood?: RiskLevel, impact?: RiskLevel): RiskLevel | undefined {
+  if (!likelihood || !impact) return impact;
+  if (impact === 'high') return likelihood === 'low' ? 'medium' : 'high';
+  if (impact === 'medium') return likelihood === 'high' ? 'high' : 'medium';
+  return likelihood === 'high' ? 'medium' : 'low';
+}
+
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) return 'analysis';
+  return path.map((part, index) => (typeof part === 'number' ? `[${part}]` : `${index > 0 ? '.' : ''}${part}`)).join('');
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { removeBoilerplate } from './boilerplateCleaner';
+
+// A page of body text with a footer page number, as the PDF extractor joins pages
+const page = (pageNumber: number, body: string[]) => [...body, '', String(pageNumber)].join('\n');
+
+describe('removeBoilerplate', () => {
+  it('keeps numeric table cells on their own lines', () => {
+    // DOCX and ODT tables come out one cell per line
+    const text = [
+      'SCHEDULE 2',
+      'Payment schedule',
+      'Instalment',
+      'Amount (RM)',
+      '1',
+      '1500',
+      '2',
+      '1500',
+      '3',
+      '2024',
+      'Total',
+      '5024',
+    ].join('\n');
+
+    const { text: cleaned, report } = removeBoilerplate(text);
+
+    expect(cleaned).toBe(text);
+    expect(report.linesRemoved).toBe(0);
+  });
+
+  it('removes bare page numbers at page edges but keeps numbers inside the page', () => {
+    const pages = [
+      page(1, ['1. RENT', 'The monthly rent is:', '2500', 'payable in advance.']),
+      page(2, ['2. DEPOSIT', 'The deposit is:', '5000', 'refundable on expiry.']),
+    ];
+    const text = pages.join('\n\n');
+    const pageStarts = [0, pages[0].length + 2];
+
+    const { text: cleaned, report } = removeBoilerplate(text, { pageStarts });
+
+    expect(cleaned).toContain('2500');
+    expect(cleaned).toContain('5000');
+    expect(cleaned.split('\n')).not.toContain('1');
+    expect(cleaned.split('\n')).not.toContain('2');
+    expect(report.removed.every((entry) => entry.kind === 'page-number')).toBe(true);
+  });
+
+  it('removes page numbers that count up through the text when pages are unknown', () => {
+    const filler = Array.from({ length: 10 }, (_, i) => `Clause text line ${i + 1} of the agreement.`);
+    const text = [1, 2, 3].map((pageNumber) => page(pageNumber, filler)).join('\n\n');
+
+    const { text: cleaned } = removeBoilerplate(text);
+
+    expect(cleaned.split('\n').filter((line) => /^\d+$/.test(line.trim()))).toEqual([]);
+  });
+
+  it('removes labelled page numbers anywhere', () => {
+    const { text: cleaned } = removeBoilerplate('First paragraph.\nPage 3 of 12\nSecond paragraph.');
+
+    expect(cleaned).toBe('First paragraph.\nSecond paragraph.');
+  });
+
+  it('keeps numbered headings that differ only by their number', () => {
+    const body = Array.from({ length: 9 }, (_, i) => `Particulars of item ${i + 1}.`);
+    const text = ['SCHEDULE 1', 'ARTICLE 1', 'PART 1', 'SCHEDULE 2', 'ARTICLE 2', 'PART 2', 'SCHEDULE 3', 'ARTICLE 3', 'PART 3']
+      .map((heading) => [heading, ...body.map((line) => `${line} (${heading})`)].join('\n'))
+      .join('\n\n');
+
+    const { text: cleaned, report } = removeBoilerplate(text);
+
+    expect(cleaned).toBe(text);
+    expect(report.linesRemoved).toBe(0);
+  });
+
+  it('removes running headers with page labels at page tops but keeps numbered headings', () => {
+    const pages = [1, 2, 3].map((pageNumber) => [
+      `Tenancy Agreement - Page ${pageNumber} of 3`,
+      `SCHEDULE ${pageNumber}`,
+      'The Tenant shall pay the rent on time.',
+      ...Array.from({ length: 8 }, (_, i) => `Term ${pageNumber}.${i + 1} applies.`),
+    ].join('\n'));
+    const text = pages.join('\n\n');
+    const pageStarts = pages.map((_, index) => pages.slice(0, index).reduce((total, pageText) => total + pageText.length + 2, 0));
+
+    const { text: cleaned, report } = removeBoilerplate(text, { pageStarts });
+
+    expect(cleaned).not.toContain('Tenancy Agreement');
+    expect(cleaned).toContain('SCHEDULE 1');
+    expect(cleaned).toContain('SCHEDULE 2');
+    expect(cleaned).toContain('SCHEDULE 3');
+    // The same sentence in the middle of each page is body text, not a header
+    expect(cleaned.split('The Tenant shall pay the rent on time.')).toHaveLength(4);
+    expect(report.removed).toEqual([{ kind: 'header-footer', text: 'Tenancy Agreement - Page 1 of 3', occurrences: 3 }]);
+  });
+});
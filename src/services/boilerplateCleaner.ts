@@ -0,0 +1,228 @@
+// Page furniture that extraction leaves in the text: running headers and footers, page numbers,
+// initials boxes and words hyphenated across line breaks
+
+export type BoilerplateKind = 'header-footer' | 'page-number' | 'initials';
+
+export interface RemovedBoilerplate {
+  kind: BoilerplateKind;
+  text: string; // First occurrence, as it appeared in the text
+  occurrences: number;
+}
+
+export interface BoilerplateReport {
+  removed: RemovedBoilerplate[]; // In order of first occurrence
+  linesRemoved: number;
+  hyphenationsJoined: number;
+  originalLength: number;
+  cleanedLength: number;
+}
+
+export interface BoilerplateOptions {
+  pageStarts?: number[]; // Offsets in the text where each page starts, when the text came from pages
+}
+
+// A line must repeat this often, at least this many lines apart, to count as a running header or footer
+const MIN_REPEATS = 3;
+const MIN_REPEAT_GAP = 8;
+const MAX_HEADER_LENGTH = 120;
+
+// "Page 3", "Page 3 of 12", "- 12 -", "Muka surat 3 daripada 12", "Halaman 3": page numbers wherever they appear
+const LABELLED_PAGE_NUMBER_PATTERN =
+  /^(?:(?:(?:page|pg\.?|p\.|muka surat|halaman|hlm\.?)\s*\d{1,4}(?:\s*(?:of|\/|daripada|dari)\s*\d{1,4})?)|[-–—]\s*\d{1,4}\s*[-–—]|\d{1,4}\s*(?:of|daripada|dari)\s*\d{1,4})$/i;
+// "12" or "3/12": also a table cell or an amount, so only a page number at the edge of a page
+// or as part of a running sequence
+const BARE_PAGE_NUMBER_PATTERN = /^\d{1,4}(?:\s*\/\s*\d{1,4})?$/;
+// Page labels inside a longer line, e.g. the "Page 3 of 12" of "Tenancy Agreement - Page 3 of 12"
+const PAGE_LABEL_PATTERN =
+  /\b(?:page|pg\.?|p\.|muka surat|halaman|hlm\.?)\s*\d{1,4}(?:\s*(?:of|\/|daripada|dari)\s*\d{1,4})?|\b\d{1,4}\s*(?:of|daripada|dari)\s*\d{1,4}\b/gi;
+// Non-empty lines at the top and bottom of each page that may hold a page number
+const PAGE_EDGE_LINES = 2;
+
+const INITIALS_PATTERN = /\b(?:initials?|paraf|parap)\b/i;
+// Blanks left for handwriting: underscores, dotted lines or empty boxes
+const BLANK_PATTERN = /_{3,}|\.{4,}|\[\s*\]|\(\s*\)|:\s*$/;
+
+// A word split by a hyphen at the end of a line, possibly across a page break
+const HYPHENATED_BREAK_PATTERN = /(\p{Ll})-[ \t]*\n(?:[ \t]*\n)*[ \t]*(\p{Ll})/gu;
+
+/**
+ * Remove headers, footers, page numbers and initials boxes, and re-join hyphenated words
+ * Numbers alone on a line are only removed next to a page start or when they count up page by page,
+ * so table cells and amounts on their own line are kept
+ * @param text - Extracted document text
+ * @param options - Page starts of text that came from pages
+ * @returns Cleaned text and a report of what was removed
+ */
+export function removeBoilerplate(text: string, options: BoilerplateOptions = {}): { text: string; report: BoilerplateReport } {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\u00AD/g, '').split('\n');
+  const pageEdgeLines = findPageEdgeLines(lines, options.pageStarts);
+  const repeatedKeys = findRepeatedLines(lines, pageEdgeLines);
+  const pageNumberLines = new Set([...pageEdgeLines, ...findPageNumberSequences(lines)]);
+  const removed = new Map<string, RemovedBoilerplate>();
+  let linesRemoved = 0;
+
+  const kept = lines.filter((line, index) => {
+    const kind = classifyLine(line, repeatedKeys, pageNumberLines.has(index));
+    if (!kind) return true;
+
+    const key = `${kind}:${lineKey(line)}`;
+    const entry = removed.get(key);
+    if (entry) {
+      entry.occurrences++;
+    } else {
+      removed.set(key, { kind, text: line.trim(), occurrences: 1 });
+    }
+    linesRemoved++;
+    return false;
+  });
+
+  let hyphenationsJoined = 0;
+  const cleaned = kept.join('\n').replace(HYPHENATED_BREAK_PATTERN, (_match, before: string, after: string) => {
+    hyphenationsJoined++;
+    return before + after;
+  });
+
+  return {
+    text: cleaned,
+    report: {
+      removed: Array.from(removed.values()),
+      linesRemoved,
+      hyphenationsJoined,
+      originalLength: text.length,
+      cleanedLength: cleaned.length,
+    },
+  };
+}
+
+/**
+ * Describe a report in one sentence, e.g. for a toast
+ * @param reports - Reports of the documents that were cleaned
+ * @returns Summary, or undefined when nothing was removed
+ */
+export function summarizeBoilerplateReports(reports: BoilerplateReport[]): string | undefined {
+  const linesRemoved = reports.reduce((total, report) => total + report.linesRemoved, 0);
+  const hyphenationsJoined = reports.reduce((total, report) => total + report.hyphenationsJoined, 0);
+  if (linesRemoved === 0 && hyphenationsJoined === 0) return undefined;
+
+  const charactersSaved = reports.reduce((total, report) => total + report.originalLength - report.cleanedLength, 0);
+  const parts: string[] = [];
+  if (linesRemoved > 0) parts.push(`removed ${linesRemoved} header, footer, page number and initials line${linesRemoved === 1 ? '' : 's'}`);
+  if (hyphenationsJoined > 0) parts.push(`re-joined ${hyphenationsJoined} hyphenated word${hyphenationsJoined === 1 ? '' : 's'}`);
+  return `Cleanup ${parts.join(' and ')}, saving ${charactersSaved} characters.`;
+}
+
+function classifyLine(line: string, repeatedKeys: Set<string>, isPageNumberLine: boolean): BoilerplateKind | undefined {
+  const trimmed = line.trim();
+  if (!trimmed) return undefined;
+
+  if (LABELLED_PAGE_NUMBER_PATTERN.test(trimmed)) return 'page-number';
+  if (isPageNumberLine && BARE_PAGE_NUMBER_PATTERN.test(trimmed)) return 'page-number';
+  if (trimmed.length <= 80 && INITIALS_PATTERN.test(trimmed) && BLANK_PATTERN.test(trimmed)) return 'initials';
+  if (repeatedKeys.has(lineKey(line))) return 'header-footer';
+  return undefined;
+}
+
+/**
+ * Find lines that recur throughout the document, spread out like running headers and footers
+ * When the pages are known only lines at the top or bottom of a page count. Form labels ("Name:")
+ * and lines repeated close together (signature blocks) are left alone
+ */
+function findRepeatedLines(lines: string[], pageEdgeLines: number[]): Set<string> {
+  const edges = new Set(pageEdgeLines);
+  const positions = new Map<string, number[]>();
+  lines.forEach((line, index) => {
+    if (edges.size > 0 && !edges.has(index)) return;
+    const trimmed = line.trim();
+    if (trimmed.length < 3 || trimmed.length > MAX_HEADER_LENGTH || trimmed.endsWith(':')) return;
+    if (!/\p{L}/u.test(trimmed)) return;
+
+    const key = lineKey(line);
+    const linePositions = positions.get(key);
+    if (linePositions) {
+      linePositions.push(index);
+    } else {
+      positions.set(key, [index]);
+    }
+  });
+
+  const repeated = new Set<string>();
+  positions.forEach((linePositions, key) => {
+    if (linePositions.length < MIN_REPEATS) return;
+    const spreadOut = edges.size > 0 || linePositions.every((position, index) => index === 0 || position - linePositions[index - 1] >= MIN_REPEAT_GAP);
+    if (spreadOut) repeated.add(key);
+  });
+  return repeated;
+}
+
+/**
+ * Find the lines at the top and bottom of each page
+ * Pages are only known when page starts are given; otherwise no line counts as a page edge
+ */
+function findPageEdgeLines(lines: string[], pageStarts: number[] | undefined): number[] {
+  if (!pageStarts || pageStarts.length === 0) return [];
+
+  // Line index of each page start, plus the end of the text so the last page has a bottom edge
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const lineAt = (position: number) => {
+    let index = 0;
+    while (index + 1 < lineStarts.length && lineStarts[index + 1] <= position) index++;
+    return index;
+  };
+  const boundaries = [...new Set(pageStarts.map(lineAt)), lines.length].sort((a, b) => a - b);
+
+  const edges: number[] = [];
+  boundaries.forEach((boundary, index) => {
+    // Top of the page starting here, bottom of the page before it
+    if (boundary < lines.length) edges.push(...takeNonEmpty(lines, boundary, lines.length, 1));
+    if (index > 0 || boundary > 0) edges.push(...takeNonEmpty(lines, boundary - 1, -1, -1));
+  });
+  return edges;
+}
+
+// Up to PAGE_EDGE_LINES indexes of non-empty lines, walking from `from` towards `to`
+function takeNonEmpty(lines: string[], from: number, to: number, step: 1 | -1): number[] {
+  const found: number[] = [];
+  for (let index = from; index !== to && found.length < PAGE_EDGE_LINES; index += step) {
+    if (lines[index].trim()) found.push(index);
+  }
+  return found;
+}
+
+/**
+ * Find numbers alone on a line that count up by one, spread out like page numbers in a footer
+ * Table cells numbered 1, 2, 3 sit close together and are left alone
+ */
+function findPageNumberSequences(lines: string[]): number[] {
+  const candidates = lines
+    .map((line, index) => ({ index, value: Number(line.trim()) }))
+    .filter(({ index }) => /^\d{1,4}$/.test(lines[index].trim()));
+
+  const found: number[] = [];
+  const runs: Array<typeof candidates> = [];
+  for (const candidate of candidates) {
+    const run = runs.find((entry) => {
+      const last = entry[entry.length - 1];
+      return candidate.value === last.value + 1 && candidate.index - last.index >= MIN_REPEAT_GAP;
+    });
+    if (run) {
+      run.push(candidate);
+    } else {
+      runs.push([candidate]);
+    }
+  }
+  for (const run of runs) {
+    if (run.length >= MIN_REPEATS) found.push(...run.map(({ index }) => index));
+  }
+  return found;
+}
+
+// Page labels inside headers change from page to page, so they are ignored when comparing lines;
+// other numbers, as in "Schedule 1" and "Schedule 2", keep lines apart
+function lineKey(line: string): string {
+  return line.trim().toLowerCase().replace(PAGE_LABEL_PATTERN, 'page #').replace(/\s+/g, ' ');
+}
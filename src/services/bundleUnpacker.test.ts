@@ -0,0 +1,108 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { formatBundlePath, unpackBundle } from './bundleUnpacker';
+
+const eml = (lines: string[]) => new File([lines.join('\r\n')], 'Tenancy.eml', { type: 'message/rfc822' });
+
+// A ZIP whose directory claims each entry inflates to `declaredSize` bytes
+async function zipDeclaring(declaredSize: number, files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  const bytes = await zip.generateAsync({ type: 'arraybuffer' });
+
+  const view = new DataView(bytes);
+  for (let offset = 0; offset + 4 <= bytes.byteLength; offset++) {
+    const signature = view.getUint32(offset, true);
+    if (signature === 0x04034b50) view.setUint32(offset + 22, declaredSize, true); // Local file header
+    if (signature === 0x02014b50) view.setUint32(offset + 24, declaredSize, true); // Central directory header
+  }
+  return bytes;
+}
+
+describe('unpackBundle', () => {
+  it('reads the headers, message text and attachments of a MIME email', async () => {
+    const { source, entries } = await unpackBundle(eml([
+      'From: =?UTF-8?B?QWlzeWFoIEJpbnRpIEFobWFk?= <aisyah@example.com>',
+      'To: tenant@example.com',
+      'Subject: =?UTF-8?Q?Draf_perjanjian_sewa_=E2=80=93_semakan?=',
+      'Date: Mon, 3 Jun 2024 09:15:00 +0800',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      '--outer',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Please review the deposit clause =E2=80=93 it is RM5,000.=',
+      ' Thanks.',
+      '--outer',
+      'Content-Type: image/png',
+      'Content-ID: <logo@example.com>',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'iVBORw0KGgo=',
+      '--outer',
+      'Content-Type: text/plain; name="schedule.txt"',
+      'Content-Disposition: attachment; filename*=utf-8\'\'Jadual%20sewa.txt',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'UmVudDogUk0yLDUwMA==',
+      '--outer--',
+    ]));
+
+    expect(source.kind).toBe('email');
+    expect(source.headers).toMatchObject({
+      from: 'Aisyah Binti Ahmad <aisyah@example.com>',
+      subject: 'Draf perjanjian sewa – semakan',
+    });
+
+    // The inline logo is left out
+    expect(entries.map((entry) => [entry.role, entry.file.name])).toEqual([
+      ['body', 'Tenancy - message.txt'],
+      ['attachment', 'Jadual sewa.txt'],
+    ]);
+    const body = await entries[0].file.text();
+    expect(body).toContain('Subject: Draf perjanjian sewa – semakan');
+    expect(body).toContain('Please review the deposit clause – it is RM5,000. Thanks.');
+    expect(await entries[1].file.text()).toBe('Rent: RM2,500');
+  });
+
+  it('unpacks attached emails as nested bundles', async () => {
+    const { entries } = await unpackBundle(eml([
+      'Subject: Fwd: Offer letter',
+      'Content-Type: multipart/mixed; boundary=b1',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'See below.',
+      '--b1',
+      'Content-Type: message/rfc822',
+      '',
+      'Subject: Offer letter',
+      'Content-Type: text/html',
+      '',
+      '<p>The offer is valid for <b>14 days</b>.</p>',
+      '--b1--',
+    ]));
+
+    expect(entries).toHaveLength(2);
+    expect(await entries[1].file.text()).toContain('The offer is valid for 14 days.');
+    expect(formatBundlePath(entries[1].source)).toBe('Tenancy.eml › Offer letter.eml');
+  });
+
+  it('refuses a ZIP whose entries declare more than the size limit before inflating them', async () => {
+    const bytes = await zipDeclaring(300 * 1024 * 1024, { 'contract.txt': 'Tenancy agreement' });
+
+    await expect(unpackBundle(new File([bytes], 'bomb.zip'))).rejects.toThrow('Unpacked contents exceed 200MB');
+  });
+
+  it('stops at the size limit inside a nested archive instead of warning', async () => {
+    const inner = await zipDeclaring(300 * 1024 * 1024, { 'contract.txt': 'Tenancy agreement' });
+    const outer = new JSZip();
+    outer.file('nested.zip', inner);
+    const bytes = await outer.generateAsync({ type: 'arraybuffer' });
+
+    await expect(unpackBundle(new File([bytes], 'outer.zip'))).rejects.toThrow('Unpacked contents exceed 200MB');
+  });
+});
@@ -0,0 +1,649 @@
+import JSZip from 'jszip';
+import * as CFB from 'cfb';
+
+// Emails (.eml, .msg) and ZIP archives are unpacked into their body and attachments,
+// which then go through the normal extractors one by one
+
+export type BundleKind = 'email' | 'zip';
+
+export interface EmailHeaders {
+  from?: string;
+  to?: string;
+  cc?: string;
+  date?: string;
+  subject?: string;
+}
+
+export interface BundleSource {
+  id: string;
+  fileName: string;
+  kind: BundleKind;
+  headers?: EmailHeaders; // Emails only
+  parent?: BundleSource; // Set when this email or archive was itself inside another one
+}
+
+export interface BundleEntry {
+  file: File;
+  role: 'body' | 'attachment'; // The email's message text, or an attached or archived file
+  source: BundleSource; // Email or archive the file came out of
+  path?: string; // Folder path inside a ZIP archive
+}
+
+export interface UnpackedBundle {
+  source: BundleSource;
+  entries: BundleEntry[]; // In the order they appear, nested bundles already unpacked
+  warnings: string[];
+}
+
+// Limits that keep a malicious or runaway archive from filling memory
+const MAX_NESTING_DEPTH = 3;
+const MAX_ENTRIES = 200;
+const MAX_UNPACKED_SIZE = 200 * 1024 * 1024; // 200MB
+
+const HEADER_LABELS: Array<[keyof EmailHeaders, string]> = [
+  ['from', 'From'],
+  ['to', 'To'],
+  ['cc', 'Cc'],
+  ['date', 'Date'],
+  ['subject', 'Subject'],
+];
+
+// Outlook property tags (MS-OXPROPS), read from __substg1.0_<tag><type> streams
+const MSG_SUBJECT = '0037';
+const MSG_SENDER_NAME = '0C1A';
+const MSG_SENDER_EMAIL = '0C1F';
+const MSG_SENDER_SMTP = '5D01';
+const MSG_DISPLAY_TO = '0E04';
+const MSG_DISPLAY_CC = '0E03';
+const MSG_BODY = '1000';
+const MSG_HTML_BODY = '1013';
+const MSG_TRANSPORT_HEADERS = '007D';
+const MSG_ATTACH_DATA = '3701';
+const MSG_ATTACH_FILENAME = '3704';
+const MSG_ATTACH_LONG_FILENAME = '3707';
+const MSG_ATTACH_MIME_TAG = '370E';
+const MSG_CLIENT_SUBMIT_TIME = 0x0039;
+const MSG_DELIVERY_TIME = 0x0e06;
+const PT_SYSTIME = 0x0040;
+
+interface ParsedEmail {
+  headers: EmailHeaders;
+  body: string;
+  attachments: File[];
+  messages: Array<{ fileName: string; email: ParsedEmail }>; // Forwarded emails attached as messages
+}
+
+interface UnpackState {
+  entries: BundleEntry[];
+  warnings: string[];
+  unpackedSize: number;
+}
+
+let nextBundleId = 0;
+
+/**
+ * Thrown when a bundle unpacks to more than MAX_UNPACKED_SIZE; stops the whole unpack, even from inside a nested bundle
+ */
+class BundleSizeLimitError extends Error {
+  constructor() {
+    super(`Unpacked contents exceed ${MAX_UNPACKED_SIZE / (1024 * 1024)}MB`);
+    this.name = 'BundleSizeLimitError';
+  }
+}
+
+/**
+ * Check whether a file is an email or archive that should be unpacked before extraction
+ * @param file - File to check
+ * @returns True for .eml, .msg and .zip files
+ */
+export function isBundleFile(file: File): boolean {
+  return getBundleFormat(file) !== undefined;
+}
+
+/**
+ * Unpack an email or ZIP archive into separate files
+ * An email becomes a text file with its headers and message, followed by its attachments; emails and
+ * archives found inside are unpacked in turn
+ * @param file - .eml, .msg or .zip file
+ * @returns Promise containing the unpacked files and the bundle they came from
+ */
+export async function unpackBundle(file: File): Promise<UnpackedBundle> {
+  try {
+    const state: UnpackState = { entries: [], warnings: [], unpackedSize: 0 };
+    const source = await unpackFile(file, undefined, 0, state);
+    if (!source) {
+      throw new Error(`${file.name} is not an email or ZIP archive`);
+    }
+    return { source, entries: state.entries, warnings: state.warnings };
+  } catch (error) {
+    console.error('Error unpacking bundle:', error);
+    throw new Error(`Failed to unpack ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Describe where an unpacked file came from, outermost bundle first
+ * @param source - Bundle the file was unpacked from
+ * @returns e.g. "Contract.zip › Re: Tenancy.eml"
+ */
+export function formatBundlePath(source: BundleSource): string {
+  const names: string[] = [];
+  for (let current: BundleSource | undefined = source; current; current = current.parent) {
+    names.unshift(current.fileName);
+  }
+  return names.join(' › ');
+}
+
+function getBundleFormat(file: File): 'eml' | 'msg' | 'zip' | undefined {
+  const fileName = file.name.toLowerCase();
+  const mimeType = file.type.toLowerCase();
+
+  if (fileName.endsWith('.eml') || mimeType === 'message/rfc822') return 'eml';
+  if (fileName.endsWith('.msg') || mimeType === 'application/vnd.ms-outlook') return 'msg';
+  if (fileName.endsWith('.zip') || mimeType === 'application/zip' || mimeType === 'application/x-zip-compressed') {
+    return 'zip';
+  }
+  return undefined;
+}
+
+async function unpackFile(
+  file: File,
+  parent: BundleSource | undefined,
+  depth: number,
+  state: UnpackState
+): Promise<BundleSource | undefined> {
+  switch (getBundleFormat(file)) {
+    case 'eml':
+      return addEmail(parseEml(bytesToBinaryString(new Uint8Array(await file.arrayBuffer()))), file.name, parent, depth, state);
+    case 'msg':
+      return addEmail(parseMsg(new Uint8Array(await file.arrayBuffer())), file.name, parent, depth, state);
+    case 'zip':
+      return addZip(file, parent, depth, state);
+    default:
+      return undefined;
+  }
+}
+
+async function addEmail(
+  email: ParsedEmail,
+  fileName: string,
+  parent: BundleSource | undefined,
+  depth: number,
+  state: UnpackState
+): Promise<BundleSource> {
+  const source = createSource(fileName, 'email', parent, email.headers);
+
+  const headerLines = HEADER_LABELS
+    .filter(([key]) => email.headers[key])
+    .map(([key, label]) => `${label}: ${email.headers[key]}`);
+  const bodyText = [...headerLines, '', email.body.trim()].join('\n').trim();
+  addEntry(new File([bodyText], `${stripExtension(fileName)} - message.txt`, { type: 'text/plain' }), 'body', source, state);
+
+  for (const attachment of email.attachments) {
+    await addNestedFile(attachment, source, depth, state);
+  }
+  for (const message of email.messages) {
+    if (depth + 1 > MAX_NESTING_DEPTH) {
+      state.warnings.push(`${message.fileName} was not unpacked: emails nested more than ${MAX_NESTING_DEPTH} deep`);
+      continue;
+    }
+    await addEmail(message.email, message.fileName, source, depth + 1, state);
+  }
+
+  return source;
+}
+
+async function addZip(file: File, parent: BundleSource | undefined, depth: number, state: UnpackState): Promise<BundleSource> {
+  const source = createSource(file.name, 'zip', parent);
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  const zipEntries = Object.values(zip.files)
+    // macOS resource forks and hidden files aren't documents
+    .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/') && !getBaseName(entry.name).startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  for (const entry of zipEntries) {
+    if (state.entries.length >= MAX_ENTRIES) {
+      state.warnings.push(`${file.name}: stopped after ${MAX_ENTRIES} files`);
+      break;
+    }
+
+    // Check the size the archive declares before inflating the entry, so a ZIP bomb is never unpacked
+    if (state.unpackedSize + (getDeclaredSize(entry) || 0) > MAX_UNPACKED_SIZE) {
+      throw new BundleSizeLimitError();
+    }
+
+    const data = await entry.async('blob');
+    const baseName = getBaseName(entry.name);
+    const folder = entry.name.slice(0, entry.name.length - baseName.length).replace(/\/$/, '');
+    await addNestedFile(new File([data], baseName, { type: guessMimeType(baseName) }), source, depth, state, folder || undefined);
+  }
+
+  return source;
+}
+
+// Uncompressed size from the archive's directory; JSZip keeps it on a private field and checks it while inflating
+function getDeclaredSize(entry: JSZip.JSZipObject): number | undefined {
+  return (entry as JSZip.JSZipObject & { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+}
+
+/**
+ * Add a file found inside a bundle, unpacking it too when it is an email or archive
+ */
+async function addNestedFile(
+  file: File,
+  source: BundleSource,
+  depth: number,
+  state: UnpackState,
+  path?: string
+): Promise<void> {
+  if (!isBundleFile(file)) {
+    addEntry(file, 'attachment', source, state, path);
+    return;
+  }
+
+  if (depth + 1 > MAX_NESTING_DEPTH) {
+    state.warnings.push(`${file.name} was not unpacked: bundles nested more than ${MAX_NESTING_DEPTH} deep`);
+    return;
+  }
+
+  try {
+    await unpackFile(file, source, depth + 1, state);
+  } catch (error) {
+    if (error instanceof BundleSizeLimitError) throw error;
+    state.warnings.push(`${file.name} could not be unpacked: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function addEntry(file: File, role: BundleEntry['role'], source: BundleSource, state: UnpackState, path?: string) {
+  state.unpackedSize += file.size;
+  if (state.unpackedSize > MAX_UNPACKED_SIZE) {
+    throw new BundleSizeLimitError();
+  }
+  state.entries.push({ file, role, source, path });
+}
+
+function createSource(fileName: string, kind: BundleKind, parent?: BundleSource, headers?: EmailHeaders): BundleSource {
+  return { id: `bundle-${++nextBundleId}`, fileName, kind, headers, parent };
+}
+
+/**
+ * Parse a MIME email (RFC 5322 / RFC 2045) given as a binary string, one character per byte
+ */
+function parseEml(raw: string): ParsedEmail {
+  const { headers, body } = splitEntity(raw);
+  const email: ParsedEmail = {
+    headers: {
+      from: decodeHeaderWords(headers.get('from')),
+      to: decodeHeaderWords(headers.get('to')),
+      cc: decodeHeaderWords(headers.get('cc')),
+      date: headers.get('date'),
+      subject: decodeHeaderWords(headers.get('subject')),
+    },
+    body: '',
+    attachments: [],
+    messages: [],
+  };
+
+  const bodies = { text: [] as string[], html: [] as string[] };
+  collectMimeParts(headers, body, email, bodies);
+  email.body = bodies.text.length > 0 ? bodies.text.join('\n\n') : bodies.html.map(htmlToText).join('\n\n');
+  return email;
+}
+
+function collectMimeParts(
+  headers: Map<string, string>,
+  body: string,
+  email: ParsedEmail,
+  bodies: { text: string[]; html: string[] }
+) {
+  const contentType = parseHeaderValue(headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(headers.get('content-disposition') || '');
+  const mimeType = contentType.value.toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return;
+    for (const part of splitMultipart(body, boundary)) {
+      const entity = splitEntity(part);
+      collectMimeParts(entity.headers, entity.body, email, bodies);
+    }
+    return;
+  }
+
+  const content = decodeTransferEncoding(body, headers.get('content-transfer-encoding'));
+
+  if (mimeType === 'message/rfc822') {
+    const message = parseEml(bytesToBinaryString(content));
+    const fileName = disposition.params.filename || contentType.params.name || `${message.headers.subject || 'Attached message'}.eml`;
+    email.messages.push({ fileName: sanitizeFileName(fileName), email: message });
+    return;
+  }
+
+  const fileName = disposition.params.filename || contentType.params.name;
+  const isAttachment = disposition.value.toLowerCase() === 'attachment'
+    || (!!fileName && mimeType !== 'text/plain' && mimeType !== 'text/html');
+
+  if (isAttachment) {
+    // Inline images referenced by the HTML body are logos and signatures, not documents
+    if (disposition.value.toLowerCase() !== 'attachment' && headers.has('content-id') && mimeType.startsWith('image/')) return;
+    email.attachments.push(new File([content], sanitizeFileName(fileName || 'attachment'), { type: mimeType }));
+  } else if (mimeType === 'text/plain') {
+    bodies.text.push(decodeCharset(content, contentType.params.charset));
+  } else if (mimeType === 'text/html') {
+    bodies.html.push(decodeCharset(content, contentType.params.charset));
+  }
+}
+
+/**
+ * Split a MIME entity into its (unfolded, lower-cased) headers and its body
+ */
+function splitEntity(raw: string): { headers: Map<string, string>; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const headerText = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : '';
+
+  const headers = new Map<string, string>();
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins, as with Subject and Date
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  for (const chunk of body.split(delimiter).slice(1)) {
+    if (chunk.startsWith('--')) break; // Closing delimiter
+    parts.push(chunk.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, ''));
+  }
+  return parts;
+}
+
+/**
+ * Parse a header such as Content-Type into its value and parameters
+ * RFC 2231 parameters (filename*=utf-8''...) and continuations are decoded
+ */
+function parseHeaderValue(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  const continued: Record<string, Array<{ index: number; text: string; encoded: boolean }>> = {};
+
+  const paramPattern = /([^=\s;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  const paramText = rest.join(';');
+  let match: RegExpExecArray | null;
+  while ((match = paramPattern.exec(paramText)) !== null) {
+    const rawName = match[1].toLowerCase();
+    const rawValue = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+    const extended = /^([^*]+)\*(?:(\d+)\*?)?$/.exec(rawName);
+    if (extended) {
+      const list = continued[extended[1]] || (continued[extended[1]] = []);
+      list.push({ index: Number(extended[2] || 0), text: rawValue, encoded: rawName.endsWith('*') });
+    } else {
+      params[rawName] = decodeHeaderWords(rawValue) || '';
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const text = pieces.map((piece, index) => {
+      let pieceText = piece.text;
+      if (piece.encoded && index === 0) {
+        const charsetMatch = /^([^']*)'[^']*'(.*)$/.exec(pieceText);
+        if (charsetMatch) {
+          charset = charsetMatch[1] || charset;
+          pieceText = charsetMatch[2];
+        }
+      }
+      return piece.encoded ? pieceText.replace(/%([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))) : pieceText;
+    }).join('');
+    params[name] = decodeCharset(binaryStringToBytes(text), charset);
+  }
+
+  return { value: value.trim(), params };
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. =?UTF-8?B?...?= in Subject and From
+ */
+function decodeHeaderWords(value: string | undefined): string | undefined {
+  if (!value) return value;
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?[^?]*\?=)/gi, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Uint8Array<ArrayBuffer> {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return decodeBase64(body);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return binaryStringToBytes(body);
+  }
+}
+
+function decodeBase64(text: string): Uint8Array<ArrayBuffer> {
+  let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  // Restore padding; a single dangling character can't encode a byte
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  clean += '='.repeat((4 - (clean.length % 4)) % 4);
+  return binaryStringToBytes(atob(clean));
+}
+
+function decodeQuotedPrintable(text: string): Uint8Array<ArrayBuffer> {
+  return binaryStringToBytes(
+    text
+      .replace(/=\r?\n/g, '') // Soft line breaks
+      .replace(/=([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset?.trim() || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Read an Outlook .msg file (a Compound File Binary of MAPI properties, MS-OXMSG)
+ */
+function parseMsg(bytes: Uint8Array): ParsedEmail {
+  const container = CFB.read(bytes, { type: 'array' });
+  const streams = new Map<string, Uint8Array<ArrayBuffer>>();
+  container.FullPaths.forEach((fullPath, index) => {
+    const content = container.FileIndex[index].content;
+    if (content && content.length > 0) {
+      // Paths are kept relative to the root storage, e.g. "__attach_version1.0_#00000000/__substg1.0_37010102"
+      streams.set(fullPath.slice(fullPath.indexOf('/') + 1), Uint8Array.from(content));
+    }
+  });
+  return readMsgStorage(streams, '', true);
+}
+
+function readMsgStorage(streams: Map<string, Uint8Array<ArrayBuffer>>, prefix: string, isTopLevel: boolean): ParsedEmail {
+  const getString = (tag: string) => readMsgString(streams, `${prefix}__substg1.0_${tag}`);
+
+  const senderName = getString(MSG_SENDER_NAME);
+  const senderEmail = getString(MSG_SENDER_SMTP) || getString(MSG_SENDER_EMAIL);
+  const from = senderName && senderEmail && senderName !== senderEmail
+    ? `${senderName} <${senderEmail}>`
+    : senderName || senderEmail;
+
+  // Received emails keep their original Date header in the transport headers
+  const transportHeaders = getString(MSG_TRANSPORT_HEADERS);
+  const sentTime = readMsgTime(streams.get(`${prefix}__properties_version1.0`), isTopLevel);
+  const date = (transportHeaders && splitEntity(`${transportHeaders}\r\n\r\n`).headers.get('date'))
+    || sentTime?.toUTCString();
+
+  let body = getString(MSG_BODY) || '';
+  if (!body.trim()) {
+    const html = streams.get(`${prefix}__substg1.0_${MSG_HTML_BODY}0102`);
+    const htmlText = html ? decodeCharset(html, 'utf-8') : getString(MSG_HTML_BODY);
+    body = htmlText ? htmlToText(htmlText) : '';
+  }
+
+  const email: ParsedEmail = {
+    headers: {
+      from,
+      to: getString(MSG_DISPLAY_TO),
+      cc: getString(MSG_DISPLAY_CC),
+      date,
+      subject: getString(MSG_SUBJECT),
+    },
+    body,
+    attachments: [],
+    messages: [],
+  };
+
+  const attachmentStorages = new Set<string>();
+  for (const path of streams.keys()) {
+    const relative = path.slice(prefix.length);
+    if (!path.startsWith(prefix) || !relative.startsWith('__attach_version1.0_')) continue;
+    attachmentStorages.add(`${prefix}${relative.slice(0, relative.indexOf('/') + 1)}`);
+  }
+
+  for (const storage of attachmentStorages) {
+    const fileName = readMsgString(streams, `${storage}__substg1.0_${MSG_ATTACH_LONG_FILENAME}`)
+      || readMsgString(streams, `${storage}__substg1.0_${MSG_ATTACH_FILENAME}`);
+    const data = streams.get(`${storage}__substg1.0_${MSG_ATTACH_DATA}0102`);
+
+    if (data) {
+      const mimeType = readMsgString(streams, `${storage}__substg1.0_${MSG_ATTACH_MIME_TAG}`);
+      const name = sanitizeFileName(fileName || 'attachment');
+      email.attachments.push(new File([data], name, { type: mimeType || guessMimeType(name) }));
+      continue;
+    }
+
+    // Attached Outlook items are stored as a nested message storage rather than as bytes
+    const embeddedPrefix = `${storage}__substg1.0_${MSG_ATTACH_DATA}000D/`;
+    if (Array.from(streams.keys()).some(path => path.startsWith(embeddedPrefix))) {
+      const message = readMsgStorage(streams, embeddedPrefix, false);
+      const name = sanitizeFileName(`${stripExtension(fileName || '') || message.headers.subject || 'Attached message'}.msg`);
+      email.messages.push({ fileName: name, email: message });
+    }
+  }
+
+  return email;
+}
+
+function readMsgString(streams: Map<string, Uint8Array<ArrayBuffer>>, path: string): string | undefined {
+  const unicode = streams.get(`${path}001F`);
+  if (unicode) return new TextDecoder('utf-16le').decode(unicode).replace(/\0+$/, '') || undefined;
+
+  const ansi = streams.get(`${path}001E`);
+  if (ansi) return new TextDecoder('windows-1252').decode(ansi).replace(/\0+$/, '') || undefined;
+
+  return undefined;
+}
+
+/**
+ * Read the sent (or else delivery) time from a fixed-size property stream
+ */
+function readMsgTime(stream: Uint8Array | undefined, isTopLevel: boolean): Date | undefined {
+  if (!stream) return undefined;
+
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  // The top-level message has a 32-byte header, embedded messages 24 bytes; each property takes 16
+  const times = new Map<number, Date>();
+  for (let offset = isTopLevel ? 32 : 24; offset + 16 <= stream.byteLength; offset += 16) {
+    const type = view.getUint16(offset, true);
+    const id = view.getUint16(offset + 2, true);
+    if (type !== PT_SYSTIME) continue;
+
+    // FILETIME: 100ns intervals since 1601-01-01
+    const filetime = view.getUint32(offset + 8, true) + view.getUint32(offset + 12, true) * 2 ** 32;
+    times.set(id, new Date(filetime / 10000 - 11644473600000));
+  }
+  return times.get(MSG_CLIENT_SUBMIT_TIME) || times.get(MSG_DELIVERY_TIME);
+}
+
+/**
+ * Plain text of an HTML email body: block elements become line breaks and entities are decoded
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function guessMimeType(fileName: string): string {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'pdf': return 'application/pdf';
+    case 'docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    case 'doc': return 'application/msword';
+    case 'odt': return 'application/vnd.oasis.opendocument.text';
+    case 'rtf': return 'application/rtf';
+    case 'txt': return 'text/plain';
+    case 'jpg':
+    case 'jpeg': return 'image/jpeg';
+    case 'png': return 'image/png';
+    case 'gif': return 'image/gif';
+    case 'bmp': return 'image/bmp';
+    case 'tif':
+    case 'tiff': return 'image/tiff';
+    case 'webp': return 'image/webp';
+    case 'eml': return 'message/rfc822';
+    case 'msg': return 'application/vnd.ms-outlook';
+    case 'zip': return 'application/zip';
+    default: return 'application/octet-stream';
+  }
+}
+
+function getBaseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^./]+$/, '');
+}
+
+function sanitizeFileName(fileName: string): string {
+  return fileName.replace(/[\\/:*?"<>|\r\n]+/g, '_').trim() || 'attachment';
+}
+
+// Raw email bytes are handled as one character per byte so parts can be decoded in their own charset
+function bytesToBinaryString(bytes: Uint8Array): string {
+  let result = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return result;
+}
+
+function binaryStringToBytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let index = 0; index < text.length; index++) {
+    bytes[index] = text.charCodeAt(index) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,59 @@
+// Canvas helpers that work both on the page and inside the extraction worker, where there is no DOM
+
+export type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * Create a canvas, falling back to OffscreenCanvas when there is no document
+ * @param width - Width in pixels (rounded, at least 1)
+ * @param height - Height in pixels (rounded, at least 1)
+ * @returns A canvas of the requested size
+ */
+export function createCanvas(width: number, height: number): DrawingCanvas {
+  const canvasWidth = Math.max(1, Math.round(width));
+  const canvasHeight = Math.max(1, Math.round(height));
+
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(canvasWidth, canvasHeight);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  return canvas;
+}
+
+/**
+ * Get a 2D context for pixel work on either kind of canvas
+ * @param canvas - Canvas to draw on
+ * @returns The canvas's 2D context
+ */
+export function getContext2D(canvas: DrawingCanvas): CanvasRenderingContext2D {
+  // Both context types share the drawing and pixel API used here
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  return ctx;
+}
+
+/**
+ * Encode a canvas as an image
+ * @param canvas - Canvas to encode
+ * @param type - Image MIME type
+ * @returns Promise containing the encoded image
+ */
+export async function canvasToBlob(canvas: DrawingCanvas, type: string = 'image/png'): Promise<Blob> {
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    return canvas.convertToBlob({ type });
+  }
+
+  return new Promise((resolve, reject) => {
+    (canvas as HTMLCanvasElement).toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode canvas image'));
+      }
+    }, type);
+  });
+}
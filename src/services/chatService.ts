@@ -1,103 +1,36 @@
 import { DocumentAnalysisResult } from '@/hooks/uploadedFileContext';
+import { insertPageMarkers, UnifiedExtractionResult } from '@/services/textExtractor';
+import { getLLMProvider } from '@/services/llmProvider';
+import { splitIntoChunks } from '@/services/analysisChunker';
 
-const CHAT_API_ENDPOINT = 'https://f9jekjb575.execute-api.ap-southeast-1.amazonaws.com/devmhtwo/chat';
-
-export interface ChatRequest {
-  userMessage: string;
-  legalText: string;
-  summarizedJson: DocumentAnalysisResult;
-}
-
-// Response structure from the Lambda function (similar to Bedrock chat completion format)
-export interface ChatResponse {
-  answer: {
-    choices: Array<{
-      finish_reason: string;
-      index: number;
-      logprobs: null | object;
-      message: {
-        content: string;
-        refusal: null | string;
-        role: string;
-      };
-    }>;
-    created: number;
-    id: string;
-    model: string;
-    object: string;
-    service_tier: string;
-    usage: {
-      completion_tokens: number;
-      prompt_tokens: number;
-      total_tokens: number;
-    };
-  };
-}
+// Longest legal text sent with a chat message
+const MAX_LEGAL_TEXT_LENGTH = 50000;
+// Size of the parts long legal text is cut into when choosing what to send
+const LEGAL_TEXT_PART_LENGTH = 6000;
 
 export class ChatService {
   /**
-   * Send a chat message to the legal assistant API
+   * Send a chat message to the legal assistant
+   * @param onDelta - When given, the answer is streamed and this is called as it's written
+   * @returns The complete answer
    */
   static async sendMessage(
     userMessage: string,
     legalText: string,
-    analysisResult: DocumentAnalysisResult
+    analysisResult: DocumentAnalysisResult,
+    onDelta?: (delta: string, text: string) => void
   ): Promise<string> {
     try {
-      const requestBody: ChatRequest = {
+      const request = {
         userMessage,
         legalText,
         summarizedJson: analysisResult
       };
 
-      console.log('Sending chat request:', requestBody); // Debug log
-
-      const response = await fetch(CHAT_API_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        
-        try {
-          const errorData = await response.json();
-          if (errorData.error) {
-            errorMessage = errorData.error;
-            if (errorData.details) {
-              errorMessage += ` - ${errorData.details}`;
-            }
-          }
-        } catch (parseError) {
-          // Use the default error message if we can't parse the error response
-        }
-
-        throw new Error(errorMessage);
-      }
-
-      const responseData = await response.json();
-      
-      console.log('Chat API response:', responseData); // Debug log
-      
-      // Parse the response similar to the document analysis service
-      if (responseData.answer && responseData.answer.choices && responseData.answer.choices.length > 0) {
-        const chatResponse = responseData as ChatResponse;
-        const firstChoice = chatResponse.answer.choices[0];
-        
-        if (!firstChoice.message || !firstChoice.message.content) {
-          throw new Error('Missing message content in chat response');
-        }
-        
-        return firstChoice.message.content;
-        
-      } else {
-        console.error('Invalid chat response structure:', responseData);
-        throw new Error('Invalid response format from chat service');
-      }
+      const provider = getLLMProvider();
+      return onDelta
+        ? await provider.streamChat(request, { onDelta })
+        : await provider.chat(request);
 
     } catch (error) {
       console.error('Chat service error:', error);
@@ -123,11 +56,13 @@ export class ChatService {
   /**
    * Prepare legal text from uploaded files
    */
-  static prepareLegalText(uploadedFiles: Array<{file: File, extractedText?: string, editedText?: string}>): string {
+  static prepareLegalText(uploadedFiles: Array<{file: File, extractedText?: string, editedText?: string, extractionResult?: UnifiedExtractionResult}>): string {
     const documentTexts = uploadedFiles
       .map(file => {
-        // Prefer edited text over extracted text
-        const fileContent = file.editedText || file.extractedText || '';
+        // Prefer edited text over extracted text; unedited text gets page markers so answers can cite pages
+        const fileContent = file.editedText ||
+          (file.extractionResult ? insertPageMarkers(file.extractionResult.text, file.extractionResult.anchors) : file.extractedText) ||
+          '';
         if (fileContent.trim()) {
           return `Document "${file.file.name}":\n${fileContent}\n`;
         }
@@ -138,6 +73,38 @@ export class ChatService {
     return documentTexts.join('\n---\n\n');
   }
 
+  /**
+   * Fit legal text into the chat request limit
+   * Text over the limit is cut into parts at clause boundaries and the parts sharing the most words
+   * with the question are kept, in document order
+   * @param legalText - Text from prepareLegalText
+   * @param userMessage - Question being asked
+   * @returns The text itself when it fits, otherwise the most relevant parts separated by "[...]"
+   */
+  static fitLegalText(legalText: string, userMessage: string): string {
+    if (legalText.length <= MAX_LEGAL_TEXT_LENGTH) return legalText;
+
+    const questionWords = new Set(userMessage.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+    const parts = splitIntoChunks([legalText], LEGAL_TEXT_PART_LENGTH).map((chunk) => ({
+      chunk,
+      score: (chunk.text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []).filter((word) => questionWords.has(word)).length,
+    }));
+
+    const separator = '\n\n[...]\n\n';
+    const kept = new Set<number>();
+    let length = 0;
+    for (const { chunk } of [...parts].sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index)) {
+      if (length + chunk.text.length + separator.length > MAX_LEGAL_TEXT_LENGTH) continue;
+      kept.add(chunk.index);
+      length += chunk.text.length + separator.length;
+    }
+
+    return parts
+      .filter(({ chunk }) => kept.has(chunk.index))
+      .map(({ chunk }) => chunk.text)
+      .join(separator);
+  }
+
   /**
    * Validate chat request data
    */
@@ -160,7 +127,7 @@ export class ChatService {
     }
 
     // Check legal text length
-    if (legalText.length > 50000) { // 50KB limit
+    if (legalText.length > MAX_LEGAL_TEXT_LENGTH) { // 50KB limit; use fitLegalText for longer documents
       throw new Error('Legal document text is too large for chat processing. Please try with smaller documents.');
     }
   }
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { detectClauses, mergeDetectedClauses, segmentClauses, toImportantClauses } from './clauseDetector';
+
+const TENANCY = [
+  'TENANCY AGREEMENT',
+  '',
+  '1. RENT',
+  '1.1 The monthly rent of RM2,500 shall be payable by the Tenant in advance on or before the 7th day of each month.',
+  '2. DEPOSIT',
+  '2.1 The Tenant shall pay a security deposit of RM5,000, refundable without interest on expiry.',
+  '2.2 The Landlord may forfeit the deposit if the Tenant is in breach.',
+  '3. MISCELLANEOUS',
+  '3.1 This Agreement shall be governed by and construed in accordance with the laws of Malaysia.',
+  '3.2 The stamp duty on this Agreement shall be borne by the Tenant.',
+].join('\n');
+
+describe('segmentClauses', () => {
+  it('nests numbered sub-clauses under their clause', () => {
+    const clauses = segmentClauses(TENANCY);
+
+    expect(clauses.map((clause) => [clause.number, clause.heading])).toEqual([['1', 'RENT'], ['2', 'DEPOSIT'], ['3', 'MISCELLANEOUS']]);
+    expect(clauses[1].subClauses.map((clause) => clause.number)).toEqual(['2.1', '2.2']);
+    expect(clauses[1].text).toContain('forfeit the deposit');
+  });
+
+  it('falls back to paragraphs for text without clause numbering', () => {
+    const clauses = segmentClauses('The rent is RM2,500.\n\nThe deposit is RM5,000.');
+
+    expect(clauses).toEqual([
+      { text: 'The rent is RM2,500.', subClauses: [] },
+      { text: 'The deposit is RM5,000.', subClauses: [] },
+    ]);
+  });
+});
+
+describe('detectClauses', () => {
+  it('classifies whole clauses, and sub-clauses of a mixed clause separately', () => {
+    const detected = detectClauses(TENANCY);
+
+    expect(detected.map((clause) => [clause.category, clause.number])).toEqual([
+      ['rent', '1'],
+      ['deposit', '2'],
+      ['governing_law', '3.1'],
+      ['stamp_duty', '3.2'],
+    ]);
+  });
+
+  it('recognizes Malay clauses', () => {
+    const detected = detectClauses([
+      '1. TIMBANG TARA',
+      'Sebarang pertikaian hendaklah dirujuk kepada timbang tara mengikut Kaedah AIAC.',
+      '2. DUTI SETEM',
+      'Duti setem ke atas perjanjian ini hendaklah ditanggung oleh Penyewa.',
+    ].join('\n'));
+
+    expect(detected.map((clause) => clause.category)).toEqual(['arbitration', 'stamp_duty']);
+  });
+
+  it('reports nothing for text without contract clauses', () => {
+    expect(detectClauses('1. Introduction\nThis note explains the project timeline.\n2. Team\nFive engineers.')).toEqual([]);
+  });
+});
+
+describe('mergeDetectedClauses', () => {
+  it('adds only the kinds of clause the AI did not report, marked as found by the rules', () => {
+    const detected = detectClauses(TENANCY);
+    const aiClauses = [
+      { clause_title: 'Security Deposit', clause_text: 'A deposit of RM5,000 is payable.', summary: 'Deposit.' },
+    ];
+
+    const merged = mergeDetectedClauses(aiClauses, detected);
+
+    expect(merged[0]).toBe(aiClauses[0]);
+    expect(merged.slice(1).map((clause) => clause.clause_title)).toEqual([
+      'Rent (Clause 1)',
+      'Governing Law (Clause 3.1)',
+      'Stamp Duty (Clause 3.2)',
+    ]);
+    expect(merged.slice(1).every((clause) => clause.origin === 'rules')).toBe(true);
+  });
+
+  it('shortens long clause text', () => {
+    const [clause] = toImportantClauses([{ category: 'rent', title: 'Rent', text: 'Rent '.repeat(200), score: 5 }]);
+
+    expect(clause.clause_text.length).toBe(600);
+    expect(clause.clause_text.endsWith('…')).toBe(true);
+  });
+});
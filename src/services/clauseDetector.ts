@@ -0,0 +1,289 @@
+import type { ImportantClause } from '@/hooks/uploadedFileContext';
+
+// Finds common Malaysian contract clauses without the language model: the text is cut into numbered
+// clauses and each is scored against the taxonomy below. Runs in the browser and always gives the same
+// answer, so it backs up the AI analysis and stands in for it when the analysis service is unavailable
+
+export type ClauseCategoryId =
+  | 'rent'
+  | 'deposit'
+  | 'termination'
+  | 'indemnity'
+  | 'governing_law'
+  | 'arbitration'
+  | 'stamp_duty'
+  | 'liquidated_damages';
+
+interface ClauseCategory {
+  id: ClauseCategoryId;
+  title: string;
+  summary: string;
+  law?: string;
+  heading: RegExp; // Clause headings that name the category outright
+  patterns: RegExp[]; // Distinctive phrases, worth more than keywords
+  keywords: RegExp[];
+}
+
+export interface DetectedClause {
+  category: ClauseCategoryId;
+  title: string; // Category title, e.g. "Stamp Duty"
+  number?: string; // Clause number as printed, e.g. "12" or "12.3"
+  heading?: string; // Clause heading, when the clause has one
+  text: string;
+  score: number; // Evidence found for the category; higher is more certain
+}
+
+export interface NumberedClause {
+  number?: string; // Missing for unnumbered paragraphs
+  heading?: string;
+  text: string; // Whole clause, including its number and heading
+  subClauses: NumberedClause[];
+}
+
+const CLAUSE_TAXONOMY: ClauseCategory[] = [
+  {
+    id: 'rent',
+    title: 'Rent',
+    summary: 'Sets the rent, when it falls due and how it is paid.',
+    law: 'Civil Law Act 1956, section 28; Distress Act 1951',
+    heading: /\b(rent(al)?|sewa(an)?)\b/i,
+    patterns: [/\bmonthly rent(al)?\b/i, /\brent(al)? (shall be )?payable\b/i, /\bsewa bulanan\b/i, /\bin advance on or before the \w+ day\b/i],
+    keywords: [/\brent(al)?\b/i, /\bsewa\b/i, /\bper month\b|\bsebulan\b/i, /\btenant\b|\bpenyewa\b/i, /\bpayable\b|\bdibayar\b/i],
+  },
+  {
+    id: 'deposit',
+    title: 'Security Deposit',
+    summary: 'Requires a deposit and sets when it can be kept, set off or must be refunded.',
+    law: 'Contracts Act 1950, section 75',
+    heading: /\b(deposits?|cagaran|wang pendahuluan)\b/i,
+    patterns: [/\b(security|utility|earnest|booking) deposit\b/i, /\bdeposit keselamatan\b/i, /\brefund(ed)? (of )?the deposit\b/i, /\bforfeit(ed|ure)?\b.{0,40}\bdeposit\b/i],
+    keywords: [/\bdeposits?\b/i, /\brefund(ed|able)?\b|\bdikembalikan\b/i, /\bforfeit(ed|ure)?\b|\bdilucuthakkan\b/i, /\binterest[- ]free\b|\btanpa faedah\b/i],
+  },
+  {
+    id: 'termination',
+    title: 'Termination',
+    summary: 'Sets out who can end the agreement, on what grounds and with how much notice.',
+    law: 'Contracts Act 1950, section 40',
+    heading: /\b(terminat\w*|penamatan|early termination|determination)\b/i,
+    patterns: [/\b(may|shall be entitled to|right to) terminate\b/i, /\bnotice of termination\b/i, /\bupon (such )?termination\b/i, /\bmenamatkan perjanjian\b/i],
+    keywords: [/\bterminat\w*\b|\bpenamatan\b|\bmenamatkan\b/i, /\bnotice\b|\bnotis\b/i, /\bbreach\b|\bpelanggaran\b|\bingkar\b/i, /\bremed(y|ied)\b/i],
+  },
+  {
+    id: 'indemnity',
+    title: 'Indemnity',
+    summary: 'Makes one party cover the other\'s losses and claims arising from the agreement.',
+    law: 'Contracts Act 1950, sections 77 and 78',
+    heading: /\b(indemnit\w*|indemnif\w*|tanggung ?rugi)\b/i,
+    patterns: [/\b(shall |agrees to )?indemnify and keep\b/i, /\bindemnif(y|ied) (and hold harmless )?(against|from)\b/i, /\bhold harmless\b/i, /\bmenanggung rugi\b/i],
+    keywords: [/\bindemnif\w*\b|\bindemnity\b|\btanggung ?rugi\b/i, /\blosses?\b|\bkerugian\b/i, /\bclaims?\b|\btuntutan\b/i, /\bliabilit\w*\b|\bliabiliti\b/i, /\bdamages?\b/i],
+  },
+  {
+    id: 'governing_law',
+    title: 'Governing Law',
+    summary: 'Picks Malaysian law, or another law, to govern the agreement and the courts that hear disputes.',
+    heading: /\b(governing law|applicable law|undang-undang yang terpakai|jurisdiction|bidang kuasa)\b/i,
+    patterns: [/\bgoverned by (and construed in accordance with )?the laws? of\b/i, /\btertakluk kepada undang-undang\b/i, /\b(exclusive|non-exclusive) jurisdiction\b/i],
+    keywords: [/\blaws? of malaysia\b|\bundang-undang malaysia\b/i, /\bcourts?\b|\bmahkamah\b/i, /\bjurisdiction\b|\bbidang kuasa\b/i, /\bconstrued\b|\bditafsirkan\b/i],
+  },
+  {
+    id: 'arbitration',
+    title: 'Arbitration',
+    summary: 'Sends disputes to arbitration, usually under the rules of the Asian International Arbitration Centre (AIAC).',
+    law: 'Arbitration Act 2005; AIAC Arbitration Rules',
+    heading: /\b(arbitration|timbang ?tara|dispute resolution|penyelesaian pertikaian)\b/i,
+    patterns: [
+      /\bAIAC\b/,
+      /\basian international arbitration cent(re|er)\b/i,
+      /\bKLRCA\b|\bkuala lumpur regional cent(re|er) for arbitration\b/i,
+      /\barbitration act 2005\b|\bakta timbang tara 2005\b/i,
+      /\breferred to (and finally resolved by )?arbitration\b/i,
+    ],
+    keywords: [/\barbitrat\w*\b|\btimbang ?tara\b/i, /\bdisputes?\b|\bpertikaian\b/i, /\bseat\b|\bvenue\b|\btempat\b/i, /\brules\b|\bkaedah\b/i],
+  },
+  {
+    id: 'stamp_duty',
+    title: 'Stamp Duty',
+    summary: 'Says who pays the stamp duty on the agreement and other costs of preparing it.',
+    law: 'Stamp Act 1949',
+    heading: /\b(stamp duty|duti setem|costs and expenses|kos dan perbelanjaan)\b/i,
+    patterns: [/\bstamp duty\b/i, /\bduti setem\b/i, /\bstamp act 1949\b|\bakta setem 1949\b/i],
+    keywords: [/\bstamp(ing|ed)?\b|\bsetem\b/i, /\blegal (costs|fees)\b|\bkos guaman\b/i, /\bborne by\b|\bditanggung oleh\b/i, /\bsolicitors?\b|\bpeguam\b/i],
+  },
+  {
+    id: 'liquidated_damages',
+    title: 'Liquidated Damages',
+    summary: 'Fixes the compensation payable for a breach such as late delivery, usually a daily or percentage rate.',
+    law: 'Contracts Act 1950, section 75',
+    heading: /\b(liquidated (and ascertained )?damages|LAD|ganti ?rugi (jumlah )?tertentu)\b/i,
+    patterns: [
+      /\bliquidated (and ascertained )?damages\b/i,
+      /\bganti ?rugi tertentu dan ditetapkan\b/i,
+      /\b(calculated|computed) (from )?day to day\b/i,
+      /\bat the rate of [\d.]+ ?(%|per ?cent)\b.{0,60}\b(per annum|per day)\b/i,
+    ],
+    keywords: [/\bdamages\b|\bganti ?rugi\b/i, /\bdelay\b|\blate\b|\blewat\b/i, /\bper (day|diem)\b|\bsehari\b/i, /\bdelivery of vacant possession\b|\bpenyerahan milikan kosong\b/i],
+  },
+];
+
+// Least evidence for a clause to be reported; a matching heading alone is enough
+const MIN_SCORE = 3;
+const HEADING_WEIGHT = 3;
+const PATTERN_WEIGHT = 2;
+// Most clauses reported per category, so a lease's many references to rent don't crowd the list
+const MAX_CLAUSES_PER_CATEGORY = 2;
+const MAX_HEADING_LENGTH = 80;
+const MAX_CLAUSE_TEXT_LENGTH = 600;
+
+// "5.", "5)", "5.1", "Clause 5" or "Fasal 5" at the start of a line, then the clause text
+const CLAUSE_START_PATTERN = /^\s*(?:(?:clause|fasal|article|perkara|section|seksyen)\s+)?(\d{1,3}(?:\.\d{1,2})*)(?:[.)]|(?<=\d\.\d{1,2}))\s+(?=[\p{L}("'])(.*)$/iu;
+
+/**
+ * Cut contract text into numbered clauses, with sub-clauses such as 5.1 nested under clause 5
+ * Text without clause numbering is cut into paragraphs instead
+ * @param text - Contract text
+ * @returns Top-level clauses in document order
+ */
+export function segmentClauses(text: string): NumberedClause[] {
+  const lines = text.split(/\r?\n/);
+  const clauses: NumberedClause[] = [];
+  let current: NumberedClause | undefined;
+  let currentSub: NumberedClause | undefined;
+
+  for (const line of lines) {
+    const match = CLAUSE_START_PATTERN.exec(line);
+    const isSubClause = match && match[1].includes('.');
+
+    if (match && !isSubClause) {
+      current = { number: match[1], heading: getHeading(match[2]), text: line, subClauses: [] };
+      currentSub = undefined;
+      clauses.push(current);
+    } else if (match && current && match[1].startsWith(`${current.number}.`)) {
+      currentSub = { number: match[1], heading: getHeading(match[2]), text: line, subClauses: [] };
+      current.subClauses.push(currentSub);
+      current.text += `\n${line}`;
+    } else if (current) {
+      current.text += `\n${line}`;
+      if (currentSub) currentSub.text += `\n${line}`;
+    }
+  }
+
+  if (clauses.length >= 2) return clauses;
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => ({ text: paragraph, subClauses: [] }));
+}
+
+/**
+ * Find the taxonomy's clauses in contract text
+ * Clauses are classified whole, unless their sub-clauses are of different kinds or the heading names no category
+ * @param text - Contract text
+ * @returns Detected clauses in document order, at most two per category
+ */
+export function detectClauses(text: string): DetectedClause[] {
+  const detected: DetectedClause[] = [];
+
+  for (const clause of segmentClauses(text)) {
+    const whole = toDetectedClause(clause);
+    const parts = clause.subClauses.flatMap((subClause) => toDetectedClause(subClause) || []);
+    const partCategories = new Set(parts.map((part) => part.category));
+    const headingNamesCategory = !!clause.heading && CLAUSE_TAXONOMY.some((category) => category.heading.test(clause.heading || ''));
+
+    // Sub-clauses stand alone when they're of different kinds, or the clause heading names no category
+    if (partCategories.size > 1 || (parts.length > 0 && !headingNamesCategory)) {
+      detected.push(...parts);
+    } else if (whole) {
+      detected.push(whole);
+    }
+  }
+
+  // Keep the strongest matches of each category, in document order
+  const kept = new Set<DetectedClause>();
+  for (const category of CLAUSE_TAXONOMY) {
+    detected
+      .filter((clause) => clause.category === category.id)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CLAUSES_PER_CATEGORY)
+      .forEach((clause) => kept.add(clause));
+  }
+  return detected.filter((clause) => kept.has(clause));
+}
+
+/**
+ * Convert detected clauses to the analysis format, marked as found by the rules
+ * @param detected - Output of detectClauses
+ * @returns Important clauses ready to show
+ */
+export function toImportantClauses(detected: DetectedClause[]): ImportantClause[] {
+  return detected.map((clause) => {
+    const category = CLAUSE_TAXONOMY.find((entry) => entry.id === clause.category);
+    const text = clause.text.replace(/[ \t]+/g, ' ');
+    return {
+      clause_title: clause.number ? `${clause.title} (Clause ${clause.number})` : clause.title,
+      clause_text: text.length > MAX_CLAUSE_TEXT_LENGTH ? `${text.slice(0, MAX_CLAUSE_TEXT_LENGTH - 1)}…` : text,
+      summary: category?.summary || '',
+      relevant_law: category?.law,
+      origin: 'rules',
+    };
+  });
+}
+
+/**
+ * Add rule-detected clauses to the AI's clauses where the AI didn't report a clause of that kind
+ * @param aiClauses - important_clauses from the analysis
+ * @param detected - Output of detectClauses
+ * @returns The AI's clauses followed by the detected clauses they don't cover
+ */
+export function mergeDetectedClauses(aiClauses: ImportantClause[], detected: DetectedClause[]): ImportantClause[] {
+  const covered = new Set<ClauseCategoryId>();
+  for (const clause of aiClauses) {
+    for (const category of CLAUSE_TAXONOMY) {
+      if (category.heading.test(clause.clause_title) || scoreText(category, clause.clause_text) >= MIN_SCORE + PATTERN_WEIGHT) {
+        covered.add(category.id);
+      }
+    }
+  }
+
+  return [...aiClauses, ...toImportantClauses(detected.filter((clause) => !covered.has(clause.category)))];
+}
+
+function toDetectedClause(clause: NumberedClause): DetectedClause | undefined {
+  const match = classifyClause(clause);
+  if (!match) return undefined;
+  return {
+    category: match.category.id,
+    title: match.category.title,
+    number: clause.number,
+    heading: clause.heading,
+    text: clause.text.trim(),
+    score: match.score,
+  };
+}
+
+// Best-scoring category for a clause, if any scores high enough
+function classifyClause(clause: NumberedClause): { category: ClauseCategory; score: number } | undefined {
+  let best: { category: ClauseCategory; score: number } | undefined;
+  for (const category of CLAUSE_TAXONOMY) {
+    const score = (clause.heading && category.heading.test(clause.heading) ? HEADING_WEIGHT : 0) + scoreText(category, clause.text);
+    if (score >= MIN_SCORE && (!best || score > best.score)) {
+      best = { category, score };
+    }
+  }
+  return best;
+}
+
+function scoreText(category: ClauseCategory, text: string): number {
+  return category.patterns.filter((pattern) => pattern.test(text)).length * PATTERN_WEIGHT +
+    category.keywords.filter((keyword) => keyword.test(text)).length;
+}
+
+// Short text after a clause number that reads as a heading, e.g. "DEPOSIT" or "Governing Law"
+function getHeading(rest: string): string | undefined {
+  const candidate = rest.trim().replace(/[.:]$/, '');
+  if (!candidate || candidate.length > MAX_HEADING_LENGTH || /[.;]\s/.test(candidate)) return undefined;
+  const words = candidate.split(/\s+/);
+  const isUpperCase = candidate === candidate.toUpperCase() && /\p{L}/u.test(candidate);
+  const isTitleCase = words.length <= 8 && words.every((word) => !/^\p{Ll}/u.test(word) || word.length <= 3);
+  return isUpperCase || isTitleCase ? candidate : undefined;
+}
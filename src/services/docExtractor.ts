@@ -0,0 +1,217 @@
+import * as CFB from 'cfb';
+import { convertRTFToText } from './rtfExtractor';
+import { buildParagraphSpans, TextSpan } from './sourceAnchors';
+
+export interface DocExtractionOptions {
+  ignoreEmptyParagraphs?: boolean; // Skip empty paragraphs
+}
+
+export interface DocExtractionResult {
+  text: string;
+  format: 'word97' | 'rtf'; // Older Word versions often save RTF under a .doc name
+  spans?: TextSpan[]; // Character ranges of `text` mapped to paragraph index
+  metadata?: {
+    wordCount: number;
+    paragraphCount: number;
+  };
+}
+
+// Word 97-2003 File Information Block offsets (MS-DOC 2.5.1)
+const FIB_IDENT = 0xa5ec;
+const FIB_FLAGS_OFFSET = 0x000a;
+const FIB_CCP_TEXT_OFFSET = 0x004c;
+const FIB_FC_CLX_OFFSET = 0x01a2;
+const FIB_LCB_CLX_OFFSET = 0x01a6;
+const FLAG_WHICH_TABLE_STREAM = 0x0200;
+const FLAG_ENCRYPTED = 0x0100;
+
+/**
+ * Extract text from a legacy Word (.doc) file
+ * Reads the piece table of Word 97-2003 binaries; RTF saved as .doc is also handled
+ * @param file - DOC file to extract text from
+ * @param options - Extraction options
+ * @returns Promise containing extracted text and metadata
+ */
+export async function extractTextFromDOC(
+  file: File,
+  options: DocExtractionOptions = {}
+): Promise<DocExtractionResult> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    let text: string;
+    let format: DocExtractionResult['format'];
+
+    if (startsWith(bytes, [0x7b, 0x5c, 0x72, 0x74, 0x66])) { // "{\rtf"
+      text = convertRTFToText(new TextDecoder('latin1').decode(bytes)).text;
+      format = 'rtf';
+    } else if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0])) { // Compound File Binary signature
+      text = readWordDocumentText(bytes);
+      format = 'word97';
+    } else {
+      throw new Error('Unrecognised .doc format');
+    }
+
+    let processedText = text;
+    if (options.ignoreEmptyParagraphs) {
+      processedText = processedText
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .join('\n');
+    }
+
+    const wordCount = processedText.trim().split(/\s+/).filter(word => word.length > 0).length;
+    const paragraphCount = processedText.split('\n').filter(para => para.trim().length > 0).length;
+
+    return {
+      text: processedText,
+      format,
+      spans: buildParagraphSpans(processedText),
+      metadata: {
+        wordCount,
+        paragraphCount,
+      },
+    };
+  } catch (error) {
+    console.error('Error extracting text from DOC:', error);
+    throw new Error(`Failed to extract text from DOC: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read the main document text of a Word 97-2003 binary via its piece table
+ */
+function readWordDocumentText(bytes: Uint8Array): string {
+  const container = CFB.read(bytes, { type: 'array' });
+  const wordDocument = getStream(container, 'WordDocument');
+  if (!wordDocument) {
+    throw new Error('WordDocument stream not found');
+  }
+
+  const fib = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength);
+  if (fib.getUint16(0, true) !== FIB_IDENT) {
+    throw new Error('Not a Word 97-2003 document');
+  }
+
+  const flags = fib.getUint16(FIB_FLAGS_OFFSET, true);
+  if (flags & FLAG_ENCRYPTED) {
+    throw new Error('Password-protected .doc files are not supported');
+  }
+
+  const tableStream = getStream(container, flags & FLAG_WHICH_TABLE_STREAM ? '1Table' : '0Table');
+  if (!tableStream) {
+    throw new Error('Table stream not found');
+  }
+
+  const ccpText = fib.getInt32(FIB_CCP_TEXT_OFFSET, true);
+  const fcClx = fib.getUint32(FIB_FC_CLX_OFFSET, true);
+  const lcbClx = fib.getUint32(FIB_LCB_CLX_OFFSET, true);
+  const clx = new DataView(tableStream.buffer, tableStream.byteOffset + fcClx, lcbClx);
+
+  // Skip any Prc (property modifier) entries to reach the Pcdt (piece table)
+  let position = 0;
+  while (position < lcbClx && clx.getUint8(position) === 0x01) {
+    position += 3 + clx.getInt16(position + 1, true);
+  }
+  if (position >= lcbClx || clx.getUint8(position) !== 0x02) {
+    throw new Error('Piece table not found');
+  }
+
+  const lcbPlcPcd = clx.getUint32(position + 1, true);
+  const plcStart = position + 5;
+  const pieceCount = (lcbPlcPcd - 4) / 12;
+
+  const cp1252 = new TextDecoder('windows-1252');
+  const utf16 = new TextDecoder('utf-16le');
+  let text = '';
+
+  for (let piece = 0; piece < pieceCount; piece++) {
+    const cpStart = clx.getUint32(plcStart + piece * 4, true);
+    const cpEnd = Math.min(clx.getUint32(plcStart + (piece + 1) * 4, true), ccpText);
+    if (cpStart >= ccpText) break;
+    if (cpEnd <= cpStart) continue;
+
+    const pcdOffset = plcStart + (pieceCount + 1) * 4 + piece * 8;
+    const fcCompressed = clx.getUint32(pcdOffset + 2, true);
+    const isCompressed = (fcCompressed & 0x40000000) !== 0;
+    const fc = fcCompressed & 0x3fffffff;
+    const length = cpEnd - cpStart;
+
+    if (isCompressed) {
+      const start = fc / 2;
+      text += cp1252.decode(wordDocument.subarray(start, start + length));
+    } else {
+      text += utf16.decode(wordDocument.subarray(fc, fc + length * 2));
+    }
+  }
+
+  return cleanWordText(text);
+}
+
+/**
+ * Turn Word's special characters into plain text: paragraph and cell marks,
+ * field codes (keeping only the displayed result), and hyphenation marks
+ */
+function cleanWordText(text: string): string {
+  let output = '';
+  const fieldStack: Array<{ inResult: boolean }> = [];
+  let previousWasCellMark = false;
+
+  for (const char of text) {
+    const inFieldCode = fieldStack.length > 0 && !fieldStack[fieldStack.length - 1].inResult;
+
+    switch (char) {
+      case '\u0013': // Field begin
+        fieldStack.push({ inResult: false });
+        continue;
+      case '\u0014': // Field separator: what follows is the displayed result
+        if (fieldStack.length > 0) fieldStack[fieldStack.length - 1].inResult = true;
+        continue;
+      case '\u0015': // Field end
+        fieldStack.pop();
+        continue;
+    }
+    if (inFieldCode) continue;
+
+    const isCellMark = char === '\u0007';
+    switch (char) {
+      case '\r':
+      case '\u000b': // Vertical tab: manual line break
+      case '\u000c': // Page or section break
+        output += '\n';
+        break;
+      case '\u0007': // Cell mark; a second mark straight after one ends the row
+        output = previousWasCellMark ? output.replace(/\t$/, '\n') : output + '\t';
+        break;
+      case '\u001e': // Non-breaking hyphen
+        output += '-';
+        break;
+      case '\u00a0': // Non-breaking space
+        output += ' ';
+        break;
+      case '\u001f': // Optional hyphen
+      case '\u0001': // Embedded object or picture anchor
+      case '\u0008': // Drawn object anchor
+        break;
+      default:
+        output += char;
+    }
+    previousWasCellMark = isCellMark && !previousWasCellMark;
+  }
+
+  return output
+    .replace(/\t+\n/g, '\n') // Row-end marks after the last cell
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function getStream(container: CFB.CFB$Container, name: string): Uint8Array | null {
+  const entry = CFB.find(container, name);
+  if (!entry || !entry.content) return null;
+  return entry.content instanceof Uint8Array ? entry.content : Uint8Array.from(entry.content);
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
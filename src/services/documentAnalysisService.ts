@@ -1,143 +1,85 @@
 import { DocumentAnalysisResult } from '@/hooks/uploadedFileContext';
+import { mapWithConcurrency, mergeChunkAnalyses, splitIntoChunks } from './analysisChunker';
+import { AnalysisResponseError, buildRepairQuestion, parseAnalysisResponse } from './analysisResponse';
+import { BoilerplateReport, removeBoilerplate } from './boilerplateCleaner';
+import { detectClauses, mergeDetectedClauses, toImportantClauses } from './clauseDetector';
+import { ANALYSIS_LANGUAGES, DetectedLanguage, DocumentLanguageInfo } from './languageDetector';
+import { getLLMProvider } from './llmProvider';
+import { ExtractedTable, TableCellType } from './tables';
 
-const API_ENDPOINT =
-	"https://f9jekjb575.execute-api.ap-southeast-1.amazonaws.com/devmhtwo/bedrockapi";
+export type { LLMResponse } from './analysisResponse';
 
-export interface AnalysisRequest {
-  userQuestion?: string;
-  snippets: string[];
+// A document table as sent for analysis; values are typed so amounts and dates can be compared
+export interface AnalysisTable {
+  document: string; // File name of the document the table is in
+  page?: number;
+  columns: Array<{ name: string; type: TableCellType; currency?: string }>;
+  rows: Array<Array<string | number | null>>; // Numbers for amounts and percentages, ISO dates, null for empty cells
 }
 
-// Response structure from the new Lambda function (Bedrock chat completion format)
-export interface LambdaResponse {
-  answer: {
-    choices: Array<{
-      finish_reason: string;
-      index: number;
-      logprobs: null | object;
-      message: {
-        content: string;
-        refusal: null | string;
-        role: string;
-      };
-    }>;
-    created: number;
-    id: string;
-    model: string;
-    object: string;
-    service_tier: string;
-    usage: {
-      completion_tokens: number;
-      prompt_tokens: number;
-      total_tokens: number;
-    };
-  };
+// Analysis request per prompt language; the model answers in the language it is asked in
+const ANALYSIS_QUESTIONS: Partial<Record<DetectedLanguage, string>> = {
+  en: "Please analyze these legal documents and identify important clauses and potential legal risks according to Malaysian law. " +
+    'For each legal risk, rate severity, likelihood and impact as "low", "medium" or "high", and give a recommended_action and a short rationale for the rating.',
+  ms: "Sila analisis dokumen undang-undang ini dan kenal pasti klausa penting serta potensi risiko undang-undang mengikut undang-undang Malaysia. " +
+    'Bagi setiap risiko undang-undang, nilaikan severity, likelihood dan impact sebagai "low", "medium" atau "high", serta berikan recommended_action dan rationale ringkas bagi penilaian tersebut. ' +
+    "Sila jawab dalam Bahasa Malaysia.",
+  zh: "请根据马来西亚法律分析这些法律文件，找出重要条款和潜在的法律风险。" +
+    '对每项法律风险，请将 severity、likelihood 和 impact 评为 "low"、"medium" 或 "high"，并给出 recommended_action 以及评级的简短 rationale。' +
+    "请用中文回答。",
+};
+
+// Documents longer than this in total are analyzed in chunks
+const MAX_SINGLE_REQUEST_LENGTH = 100000;
+// Longest chunk sent in one analysis request
+const MAX_CHUNK_LENGTH = 40000;
+// Chunk requests in flight at once
+const CHUNK_CONCURRENCY = 3;
+// Upper bound on the text analyzed in chunks, about 150 pages of dense contract
+const MAX_CHUNKED_TOTAL_LENGTH = 600000;
+
+export interface ChunkedAnalysisOptions {
+  onProgress?: (completed: number, total: number) => void; // Called as chunks finish; total is 1 for a single request
 }
 
-// Direct LLM response structure (what's inside the 'answer' field)
-export interface LLMResponse {
-  important_clauses: Array<{
-    clause_title: string;
-    clause_text: string;
-    summary: string;
-    relevant_law?: string;
-  }>;
-  legal_risks: Array<{
-    risk_area: string;
-    description: string;
-    potential_consequence: string;
-    related_clause: string;
-    relevant_law?: string;
-  }>;
-  notes: string;
+export interface PreparedDocumentTexts {
+  texts: string[]; // Cleaned texts, with empty documents left out
+  reports: BoilerplateReport[]; // What was removed, one report per input text
 }
 
 export class DocumentAnalysisService {
   /**
-   * Analyze documents using the AWS Lambda function
+   * Analyze documents with the configured language model provider
    */
   static async analyzeDocuments(
     documentTexts: string[],
-    userQuestion: string = "Please analyze these legal documents and identify important clauses and potential legal risks according to Malaysian law."
+    userQuestion: string = ANALYSIS_QUESTIONS.en,
+    tables: AnalysisTable[] = []
   ): Promise<DocumentAnalysisResult> {
     try {
-      const requestBody: AnalysisRequest = {
+      const provider = getLLMProvider();
+      const messageContent = await provider.analyze({
         userQuestion,
-        snippets: documentTexts
-      };
-
-      const response = await fetch(API_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+        snippets: documentTexts,
+        ...(tables.length > 0 && { tables }),
       });
 
-      if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        
-        try {
-          const errorData = await response.json();
-          if (errorData.error) {
-            errorMessage = errorData.error;
-            if (errorData.details) {
-              errorMessage += ` - ${errorData.details}`;
-            }
-          }
-        } catch (parseError) {
-          // Use the default error message if we can't parse the error response
-        }
-
-        throw new Error(errorMessage);
-      }
-
-      const responseData = await response.json();
-      
-      console.log('Lambda response:', responseData); // Debug log
-      
-      let analysisData: LLMResponse;
-      
-      // Handle the new Lambda response format
-      if (responseData.answer && responseData.answer.choices && responseData.answer.choices.length > 0) {
-        // New Lambda response format with Bedrock chat completion structure
-        const lambdaResponse = responseData as LambdaResponse;
-        const firstChoice = lambdaResponse.answer.choices[0];
-        
-        if (!firstChoice.message || !firstChoice.message.content) {
-          throw new Error('Missing message content in API response');
-        }
-        
-        const messageContent = firstChoice.message.content;
-        
-        try {
-          // Parse the JSON content from the message
-          analysisData = JSON.parse(messageContent);
-          
-          // Additional validation of parsed content
-          if (!analysisData.important_clauses || !analysisData.legal_risks) {
-            console.error('Parsed content missing required fields:', analysisData);
-            throw new Error('Parsed response missing required analysis fields');
-          }
-          
-        } catch (parseError) {
-          console.error('Failed to parse message content JSON:', parseError);
-          console.error('Content that failed to parse:', messageContent);
-          throw new Error('Invalid JSON format in response message content. The AI may have returned malformed data.');
-        }
-      } else if (responseData.important_clauses && responseData.legal_risks) {
-        // Direct LLM response format (fallback)
-        analysisData = responseData as LLMResponse;
-      } else {
-        console.error('Invalid response structure:', responseData);
-        throw new Error('Invalid response format: missing expected data structure');
+      // Answers that don't fit the schema get one chance to be corrected by the model
+      let parsed = parseAnalysisResponse(messageContent);
+      if (!parsed.data) {
+        console.error('Analysis response failed validation, asking for a repair:', parsed.errors);
+        const repairedContent = await provider.analyze({
+          userQuestion: buildRepairQuestion(parsed.errors),
+          snippets: [messageContent],
+        });
+        parsed = parseAnalysisResponse(repairedContent);
       }
 
-      // Validate that we have the required fields
-      if (!Array.isArray(analysisData.important_clauses) || !Array.isArray(analysisData.legal_risks)) {
-        throw new Error('Invalid response format: clauses and risks must be arrays');
+      if (!parsed.data) {
+        console.error('Repaired analysis response failed validation:', parsed.errors);
+        throw new AnalysisResponseError(parsed.errors);
       }
+      const analysisData = parsed.data;
 
       // Transform to our DocumentAnalysisResult format
       const result: DocumentAnalysisResult = {
@@ -148,11 +90,15 @@ export class DocumentAnalysisService {
         analyzed_files: [] // This will be populated by the calling component
       };
 
-      console.log('Transformed result:', result); // Debug log
       return result;
 
     } catch (error) {
       console.error('Document analysis service error:', error);
+
+      // Already lists what was wrong with the answer
+      if (error instanceof AnalysisResponseError) {
+        throw error;
+      }
       
       // Provide more specific error messages based on error type
       if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -176,6 +122,123 @@ export class DocumentAnalysisService {
     }
   }
 
+  /**
+   * Analyze documents of any size up to the chunked limit
+   * Documents that fit in one request are analyzed as before; longer ones are split at clause boundaries,
+   * the chunks analyzed in parallel and the findings merged, each recording the chunks it came from
+   * @param documentTexts - Prepared document texts
+   * @param userQuestion - Analysis question
+   * @param tables - Structured tables, sent with the first chunk only
+   * @param options - Progress callback
+   * @returns Combined analysis
+   */
+  static async analyzeDocumentsInChunks(
+    documentTexts: string[],
+    userQuestion?: string,
+    tables: AnalysisTable[] = [],
+    options: ChunkedAnalysisOptions = {}
+  ): Promise<DocumentAnalysisResult> {
+    const totalLength = documentTexts.join('').length;
+    if (totalLength <= MAX_SINGLE_REQUEST_LENGTH) {
+      const result = await this.analyzeDocuments(documentTexts, userQuestion, tables);
+      options.onProgress?.(1, 1);
+      return result;
+    }
+
+    const chunks = splitIntoChunks(documentTexts, MAX_CHUNK_LENGTH);
+    let completed = 0;
+    options.onProgress?.(0, chunks.length);
+
+    const settled = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+      try {
+        return await this.analyzeDocuments([chunk.text], userQuestion, chunk.index === 0 ? tables : []);
+      } finally {
+        options.onProgress?.(++completed, chunks.length);
+      }
+    });
+
+    const analyses = chunks.flatMap((chunk, index) => {
+      const outcome = settled[index];
+      return outcome.status === 'fulfilled' ? [{ chunk, analysis: outcome.value }] : [];
+    });
+    if (analyses.length === 0) {
+      const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+      throw failure?.reason instanceof Error ? failure.reason : new Error('Failed to analyze the documents');
+    }
+
+    const result = mergeChunkAnalyses(analyses);
+    const failedParts = chunks.filter((_, index) => settled[index].status === 'rejected').map((chunk) => chunk.index + 1);
+    if (failedParts.length > 0) {
+      console.error('Chunk analysis failed for parts:', failedParts);
+      result.notes = `Parts ${failedParts.join(', ')} of ${chunks.length} could not be analyzed, so findings from them are missing.\n\n${result.notes}`;
+    }
+    return result;
+  }
+
+  /**
+   * Add clauses found by the offline clause detector that the AI's analysis doesn't cover
+   * @param result - Analysis from the language model
+   * @param documentTexts - Prepared document texts the analysis was made from
+   * @returns The analysis with the detected clauses appended
+   */
+  static addDetectedClauses(result: DocumentAnalysisResult, documentTexts: string[]): DocumentAnalysisResult {
+    const detected = documentTexts.flatMap((text) => detectClauses(text));
+    return { ...result, important_clauses: mergeDetectedClauses(result.important_clauses, detected) };
+  }
+
+  /**
+   * Build an analysis from the offline clause detector alone, for when the AI analysis failed
+   * @param documentTexts - Prepared document texts
+   * @param reason - Error the AI analysis failed with, used to word the note
+   * @returns Clauses found by the detector; legal risks aren't assessed
+   */
+  static analyzeOffline(documentTexts: string[], reason?: unknown): DocumentAnalysisResult {
+    const cause = reason instanceof AnalysisResponseError
+      ? "The analysis returned by the AI could not be used"
+      : "Automated analysis was unavailable";
+
+    return {
+      important_clauses: toImportantClauses(documentTexts.flatMap((text) => detectClauses(text))),
+      legal_risks: [],
+      notes: `${cause}, so these clauses were found offline by matching common Malaysian contract wording and legal risks were not assessed. ` +
+        "This analysis is for informational purposes only and does not constitute legal advice. Please consult a licensed lawyer for any legally sensitive decisions.",
+      document_title: "Offline Clause Detection",
+      analyzed_files: [],
+    };
+  }
+
+  /**
+   * Choose the prompt language from the languages of the documents being analyzed
+   * @param documents - Detected languages and text lengths of each document
+   * @returns The supported language covering most of the text, English when none is known
+   */
+  static chooseAnalysisLanguage(documents: Array<{ language?: DocumentLanguageInfo; length: number }>): DetectedLanguage {
+    const totals = new Map<DetectedLanguage, number>();
+    for (const { language, length } of documents) {
+      if (!language) continue;
+      for (const [code, share] of Object.entries(language.proportions) as Array<[DetectedLanguage, number]>) {
+        if (ANALYSIS_LANGUAGES.includes(code)) {
+          totals.set(code, (totals.get(code) || 0) + share * length);
+        }
+      }
+    }
+
+    let best: DetectedLanguage = 'en';
+    totals.forEach((total, code) => {
+      if (total > (totals.get(best) || 0)) best = code;
+    });
+    return best;
+  }
+
+  /**
+   * Get the analysis request written in the given language
+   * @param language - Prompt language
+   * @returns The analysis question, in English for languages without a translation
+   */
+  static getAnalysisQuestion(language: DetectedLanguage = 'en'): string {
+    return ANALYSIS_QUESTIONS[language] || ANALYSIS_QUESTIONS.en;
+  }
+
   /**
    * Validate that the document texts are suitable for analysis
    */
@@ -192,26 +255,55 @@ export class DocumentAnalysisService {
       throw new Error('Documents appear to be empty or too short for analysis. Please ensure your documents contain substantial text content.');
     }
 
-    // Check if total text length is reasonable (not too long for the API)
+    // Check if total text length is reasonable; longer documents are analyzed in chunks up to this limit
     const totalLength = documentTexts.join('').length;
-    const maxTotalLength = 100000; // 100KB limit
     
-    if (totalLength > maxTotalLength) {
+    if (totalLength > MAX_CHUNKED_TOTAL_LENGTH) {
       throw new Error('Combined document text is too large for analysis. Please try with smaller documents or fewer files.');
     }
   }
 
   /**
-   * Prepare document texts by cleaning and formatting them
+   * Convert extracted tables into the structured form sent with the analysis request
+   * @param documents - File name and extracted tables of each document
+   * @returns Tables with column names and typed cell values
+   */
+  static prepareTables(documents: Array<{ fileName: string; tables?: ExtractedTable[] }>): AnalysisTable[] {
+    return documents.flatMap(({ fileName, tables }) => (tables || []).map((table) => ({
+      document: fileName,
+      page: table.page,
+      columns: table.columns.map((column, index) => ({
+        name: column.header || `Column ${index + 1}`,
+        type: column.type,
+        currency: column.type === 'currency' ? table.rows.find((row) => row[index].currency)?.[index].currency : undefined,
+      })),
+      rows: table.rows.map((row) => row.map((cell) => {
+        if (cell.type === 'empty') return null;
+        return cell.value ?? cell.text;
+      })),
+    })));
+  }
+
+  /**
+   * Prepare document texts by removing page furniture and normalizing whitespace
+   * Running headers and footers, page numbers and initials boxes only waste the analysis budget
+   * @param documentTexts - Document texts
+   * @param pageStarts - Where each page starts in each text, for texts that came from pages
    */
-  static prepareDocumentTexts(documentTexts: string[]): string[] {
-    return documentTexts.map(text => {
+  static prepareDocumentTexts(documentTexts: string[], pageStarts: Array<number[] | undefined> = []): PreparedDocumentTexts {
+    const reports: BoilerplateReport[] = [];
+    const texts = documentTexts.map((text, index) => {
+      const cleaned = removeBoilerplate(text, { pageStarts: pageStarts[index] });
+      reports.push(cleaned.report);
+
       // Clean up the text by removing excessive whitespace and normalizing line breaks
-      return text
+      return cleaned.text
         .replace(/\r\n/g, '\n') // Normalize line endings
         .replace(/\n{3,}/g, '\n\n') // Reduce multiple consecutive line breaks
-        .replace(/[ \t]{2,}/g, ' ') // Reduce multiple spaces/tabs to single space
+        .replace(/(\S)[ \t]{2,}/g, '$1 ') // Reduce runs of spaces/tabs between words, keeping each line's indentation
         .trim();
     }).filter(text => text.length > 0);
+
+    return { texts, reports };
   }
-}
\ No newline at end of file
+}
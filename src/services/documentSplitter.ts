@@ -0,0 +1,188 @@
+import type { UnifiedExtractionResult } from './textExtractor';
+
+// Scanned bundles often hold several documents in one PDF, e.g. an agreement, a letter of offer
+// and a statutory declaration; this finds where each one starts
+
+export type DocumentBoundaryReason =
+  | 'title-page' // Short page carrying a document title
+  | 'document-title' // Document title at the top of a full page
+  | 'numbering-restart'
+  | 'execution-block'; // Previous page ended with signatures and this one opens with a new heading
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface DocumentSegment {
+  pageNumbers: number[]; // Pages of the PDF in this document, ascending
+  title?: string; // Heading found at the top of the first page
+  reasons: DocumentBoundaryReason[]; // Why a new document was detected here; empty for the first document
+}
+
+// Headings that name a document type, in English and Malay
+const DOCUMENT_TITLE_PATTERN =
+  /\b(agreement|perjanjian|letter of offer|offer letter|surat tawaran|statutory declaration|akuan berkanun|deed|surat ikatan|lease|tenancy|power of attorney|surat kuasa wakil|memorandum|declaration|indemnity|guarantee|jaminan|undertaking|akujanji|letter|surat|notice|notis)\b/i;
+
+// Headings of parts that belong to the document before them
+const CONTINUATION_PATTERN = /^(?:(?:first|second|third|fourth|fifth)\s+)?(schedule|jadual|lampiran|annexure|appendix|exhibit|attachment|addendum)\b/i;
+
+// "1.", "2)", "1.1", "Clause 3" or "Fasal 4" at the start of a line
+const CLAUSE_NUMBER_PATTERN = /^(?:(?:clause|fasal|article|perkara)\s+)?(\d{1,3})(?:[.)]|(?:\.\d{1,2})+\.?)\s+\p{L}/iu;
+
+// Attestation and signature wording that closes a document
+const EXECUTION_PATTERN =
+  /\b(in witness whereof|signed (?:by|for and on behalf)|sealed and delivered|executed as a deed|yours (?:faithfully|sincerely|truly)|yang benar|sekian,? terima kasih|ditandatangani|tandatangan|subscribed and solemnly declared|declared (?:by|at)|before me|di hadapan saya|commissioner for oaths|pesuruhjaya sumpah)\b/i;
+
+// Kept lower-case inside titles
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'bagi', 'dan', 'di', 'untuk']);
+
+// Pages with fewer words than this, opening with a document title, are treated as title pages
+const TITLE_PAGE_MAX_WORDS = 120;
+const HEADING_SEARCH_LINES = 6;
+// Clause numbering has to have got this far before "1." counts as a restart
+const MIN_CLAUSES_BEFORE_RESTART = 3;
+// How much evidence a page needs before it starts a new document
+const BOUNDARY_THRESHOLD = 2;
+
+/**
+ * Collect the text of each page of an extracted PDF
+ * Uses the source anchors, so scanned pages read with OCR are included
+ * @param result - Extraction result of a PDF
+ * @returns Page texts in page order, or an empty array for other file types
+ */
+export function getPageTexts(result: UnifiedExtractionResult): PageText[] {
+  const pages = result.pdfResult?.pages;
+  if (!pages) return [];
+
+  const ranges = new Map<number, { start: number; end: number }>();
+  for (const anchor of result.anchors || []) {
+    if (anchor.page === undefined) continue;
+    const range = ranges.get(anchor.page);
+    ranges.set(anchor.page, range
+      ? { start: Math.min(range.start, anchor.start), end: Math.max(range.end, anchor.end) }
+      : { start: anchor.start, end: anchor.end });
+  }
+
+  return pages.map((page) => {
+    const range = ranges.get(page.pageNumber);
+    return { pageNumber: page.pageNumber, text: range ? result.text.slice(range.start, range.end) : page.text };
+  });
+}
+
+/**
+ * Split a PDF's pages into the separate documents it appears to contain
+ * A page starts a new document when enough of these point that way: it is a title page or opens with a
+ * document title, clause numbering restarts at 1, or the previous page ended with a signature or execution block
+ * @param pages - Page texts in page order
+ * @returns One segment per document; a single segment when no boundaries were found
+ */
+export function detectDocumentBoundaries(pages: PageText[]): DocumentSegment[] {
+  const segments: DocumentSegment[] = [];
+  let current: DocumentSegment | undefined;
+  let highestClause = 0;
+  let previousLines: string[] = [];
+
+  for (const page of pages) {
+    const lines = page.text.split('\n').map((line) => line.trim()).filter(Boolean);
+    const title = findDocumentTitle(lines);
+    const reasons: DocumentBoundaryReason[] = [];
+    let score = 0;
+
+    if (current) {
+      if (title) {
+        const isTitlePage = countWords(page.text) < TITLE_PAGE_MAX_WORDS;
+        reasons.push(isTitlePage ? 'title-page' : 'document-title');
+        score += isTitlePage ? 2 : 1;
+      }
+
+      const firstClause = findFirstClauseNumber(lines);
+      if (firstClause === 1 && highestClause >= MIN_CLAUSES_BEFORE_RESTART) {
+        reasons.push('numbering-restart');
+        score += 1;
+      }
+
+      if (endsWithExecutionBlock(previousLines) && lines.length > 0 && isHeading(lines[0]) && !CONTINUATION_PATTERN.test(lines[0])) {
+        reasons.push('execution-block');
+        score += 1;
+      }
+    }
+
+    if (!current || score >= BOUNDARY_THRESHOLD) {
+      current = { pageNumbers: [], title: title || findFirstHeading(lines), reasons };
+      segments.push(current);
+      highestClause = 0;
+    }
+
+    current.pageNumbers.push(page.pageNumber);
+    highestClause = Math.max(highestClause, findHighestClauseNumber(lines));
+    // Blank scanned pages shouldn't hide the signature block on the page before them
+    if (lines.length > 0) previousLines = lines;
+  }
+
+  return segments;
+}
+
+/**
+ * Describe the pages of a segment, e.g. "1-8" or "9"
+ * @param segment - Detected document
+ * @returns Page range for display and file names
+ */
+export function formatPageRange(segment: DocumentSegment): string {
+  const first = segment.pageNumbers[0];
+  const last = segment.pageNumbers[segment.pageNumbers.length - 1];
+  return first === last ? `${first}` : `${first}-${last}`;
+}
+
+function findDocumentTitle(lines: string[]): string | undefined {
+  const heading = lines
+    .slice(0, HEADING_SEARCH_LINES)
+    .find((line) => isHeading(line) && DOCUMENT_TITLE_PATTERN.test(line) && !CONTINUATION_PATTERN.test(line));
+  return heading && formatTitle(heading);
+}
+
+function findFirstHeading(lines: string[]): string | undefined {
+  const heading = lines.slice(0, HEADING_SEARCH_LINES).find(isHeading);
+  return heading && formatTitle(heading);
+}
+
+// Short lines in capitals, not starting with a clause number
+function isHeading(line: string): boolean {
+  if (line.length < 4 || line.length > 100 || /^\d/.test(line)) return false;
+  const letters = line.match(/\p{L}/gu) || [];
+  const capitals = line.match(/\p{Lu}/gu) || [];
+  return letters.length >= 4 && capitals.length / letters.length >= 0.8;
+}
+
+function formatTitle(heading: string): string {
+  return heading
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) => (index > 0 && MINOR_WORDS.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+function findFirstClauseNumber(lines: string[]): number | undefined {
+  for (const line of lines) {
+    const match = CLAUSE_NUMBER_PATTERN.exec(line);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+}
+
+function findHighestClauseNumber(lines: string[]): number {
+  return lines.reduce((highest, line) => {
+    const match = CLAUSE_NUMBER_PATTERN.exec(line);
+    return match ? Math.max(highest, Number(match[1])) : highest;
+  }, 0);
+}
+
+// Signature wording among the last lines of the page
+function endsWithExecutionBlock(lines: string[]): boolean {
+  return lines.slice(-15).some((line) => EXECUTION_PATTERN.test(line));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
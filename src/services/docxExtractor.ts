@@ -1,4 +1,6 @@
 import mammoth from 'mammoth';
+import { buildParagraphSpans, TextSpan } from './sourceAnchors';
+import { DocxDocumentModel, extractDocxStructure } from './docxStructure';
 
 // Simple type definitions for mammoth results
 interface MammothMessage {
@@ -15,12 +17,15 @@ export interface DocxExtractionOptions {
   includeStyleInfo?: boolean; // Include basic style information
   ignoreEmptyParagraphs?: boolean; // Skip empty paragraphs
   styleMap?: string[]; // Custom style mappings
+  includeStructure?: boolean; // Build the structured document model (default: true)
 }
 
 export interface DocxExtractionResult {
   text: string;
   html?: string;
   messages: MammothMessage[];
+  spans?: TextSpan[]; // Character ranges of `text` mapped to paragraph index
+  structure?: DocxDocumentModel; // Headings, numbered clauses, tables, comments and tracked changes
   metadata?: {
     wordCount: number;
     paragraphCount: number;
@@ -61,6 +66,20 @@ export async function extractTextFromDOCX(
       htmlMessages = htmlResult.messages;
     }
 
+    // Build the structured model; the flat text is still usable if this fails
+    let structure: DocxDocumentModel | undefined;
+    const structureMessages: MammothMessage[] = [];
+    if (options.includeStructure !== false) {
+      try {
+        structure = await extractDocxStructure(arrayBuffer);
+      } catch (error) {
+        structureMessages.push({
+          type: 'warning',
+          message: error instanceof Error ? error.message : 'Failed to read DOCX structure',
+        });
+      }
+    }
+
     // Process text
     let processedText = textResult.value;
     if (options.ignoreEmptyParagraphs) {
@@ -80,7 +99,9 @@ export async function extractTextFromDOCX(
     const result: DocxExtractionResult = {
       text: processedText,
       html,
-      messages: [...textResult.messages, ...htmlMessages],
+      messages: [...textResult.messages, ...htmlMessages, ...structureMessages],
+      spans: buildParagraphSpans(processedText),
+      structure,
       metadata: {
         wordCount,
         paragraphCount,
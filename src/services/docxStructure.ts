@@ -0,0 +1,732 @@
+import JSZip from 'jszip';
+import { childElements, parseXML } from './xml';
+
+// WordprocessingML main namespaces (transitional and strict)
+const W_NAMESPACES = new Set([
+  'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  'http://purl.oclc.org/ooxml/wordprocessingml/main',
+]);
+
+const RELATIONSHIP_TYPES = {
+  officeDocument: '/officeDocument',
+  styles: '/styles',
+  numbering: '/numbering',
+  comments: '/comments',
+};
+
+export interface DocxParagraph {
+  index: number; // Position among all paragraphs, including those inside tables
+  text: string; // Text with tracked insertions included and deletions left out
+  styleId?: string;
+  headingLevel?: number; // 1-based outline level for headings
+  numbering?: {
+    label: string; // Number as displayed, e.g. "7.2" or "(a)"
+    level: number; // 0-based list level
+    isBullet: boolean;
+  };
+  tableIndex?: number; // Set for paragraphs inside a table cell
+  commentIds: string[]; // Comments anchored to this paragraph
+}
+
+export interface DocxHeading {
+  text: string;
+  level: number;
+  number?: string; // Heading number when the heading is numbered
+  paragraphIndex: number;
+  children: DocxHeading[];
+}
+
+export interface DocxClause {
+  number: string; // Clause number as displayed
+  level: number; // 0-based list level
+  text: string;
+  paragraphIndex: number;
+}
+
+export interface DocxTable {
+  index: number;
+  rows: string[][]; // Cell text by row; paragraphs within a cell are joined by newlines
+  headerRows: number; // Leading rows marked to repeat as a header on each page
+}
+
+export interface DocxComment {
+  id: string;
+  author: string;
+  initials?: string;
+  date?: string; // ISO date from the document, when recorded
+  text: string;
+  anchorText: string; // Document text the comment is attached to
+  paragraphIndex?: number; // First paragraph the comment is attached to
+}
+
+export interface DocxRevision {
+  type: 'insertion' | 'deletion';
+  author: string;
+  date?: string;
+  text: string;
+  paragraphIndex: number;
+}
+
+export interface DocxRevisionAuthor {
+  author: string;
+  insertions: number;
+  deletions: number;
+  comments: number;
+}
+
+export type DocxBlock =
+  | { type: 'paragraph'; paragraphIndex: number }
+  | { type: 'table'; tableIndex: number };
+
+export interface DocxDocumentModel {
+  blocks: DocxBlock[]; // Top-level body content in document order
+  paragraphs: DocxParagraph[];
+  headings: DocxHeading[]; // Heading hierarchy; nested by level
+  clauses: DocxClause[]; // Numbered (non-bullet) paragraphs
+  tables: DocxTable[];
+  comments: DocxComment[];
+  revisions: DocxRevision[];
+  authors: DocxRevisionAuthor[]; // Reviewers with their tracked changes and comments
+}
+
+interface StyleInfo {
+  name?: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numId?: string;
+  ilvl?: number;
+}
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+  isLegal: boolean;
+}
+
+interface NumberingDefinitions {
+  abstractLevels: Map<string, Map<number, NumberingLevel>>;
+  nums: Map<string, { abstractId: string; overrides: Map<number, { start?: number; level?: NumberingLevel }> }>;
+}
+
+interface ParseState {
+  model: DocxDocumentModel;
+  styles: Map<string, StyleInfo>;
+  numbering: NumberingDefinitions;
+  counters: Map<string, number[]>; // Current list counters per abstract numbering definition
+  startedNums: Set<string>; // Numbering instances whose start overrides have been applied
+  openComments: Map<string, string>; // Comment id -> anchor text collected so far
+  commentAnchors: Map<string, string>; // Comment id -> anchor text of closed comment ranges
+  commentParagraphs: Map<string, number>;
+  inField: boolean; // Between a field's begin and separate characters (field code, not result)
+}
+
+/**
+ * Build a structured model of a DOCX document from its WordprocessingML parts
+ * Reads headings, list numbering, tables, reviewer comments and tracked changes
+ * @param arrayBuffer - DOCX file contents
+ * @returns Promise containing the document model
+ */
+export async function extractDocxStructure(arrayBuffer: ArrayBuffer): Promise<DocxDocumentModel> {
+  try {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+
+    const documentPath = (await readRelationships(zip, '_rels/.rels')).get(RELATIONSHIP_TYPES.officeDocument) || 'word/document.xml';
+    const documentXml = await readXml(zip, documentPath);
+    if (!documentXml) {
+      throw new Error('Main document part not found');
+    }
+
+    const folder = documentPath.includes('/') ? documentPath.slice(0, documentPath.lastIndexOf('/') + 1) : '';
+    const parts = await readRelationships(zip, `${folder}_rels/${documentPath.slice(folder.length)}.rels`, folder);
+
+    const [stylesXml, numberingXml, commentsXml] = await Promise.all([
+      readXml(zip, parts.get(RELATIONSHIP_TYPES.styles)),
+      readXml(zip, parts.get(RELATIONSHIP_TYPES.numbering)),
+      readXml(zip, parts.get(RELATIONSHIP_TYPES.comments)),
+    ]);
+
+    const state: ParseState = {
+      model: {
+        blocks: [],
+        paragraphs: [],
+        headings: [],
+        clauses: [],
+        tables: [],
+        comments: [],
+        revisions: [],
+        authors: [],
+      },
+      styles: stylesXml ? parseStyles(stylesXml) : new Map(),
+      numbering: numberingXml ? parseNumbering(numberingXml) : { abstractLevels: new Map(), nums: new Map() },
+      counters: new Map(),
+      startedNums: new Set(),
+      openComments: new Map(),
+      commentAnchors: new Map(),
+      commentParagraphs: new Map(),
+      inField: false,
+    };
+
+    const body = findChild(documentXml.documentElement, 'body');
+    if (!body) {
+      throw new Error('Document has no body');
+    }
+    readBlocks(body, state, undefined, true);
+
+    state.model.comments = commentsXml ? parseComments(commentsXml, state) : [];
+    state.model.headings = buildHeadingTree(state.model.paragraphs);
+    state.model.authors = summarizeAuthors(state.model);
+    return state.model;
+  } catch (error) {
+    console.error('Error reading DOCX structure:', error);
+    throw new Error(`Failed to read DOCX structure: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read paragraphs and tables from a container element (body, table cell, content control)
+ * @returns Text of the paragraphs read, one per entry
+ */
+function readBlocks(container: Element, state: ParseState, tableIndex: number | undefined, topLevel: boolean): string[] {
+  const texts: string[] = [];
+
+  for (const child of childElements(container)) {
+    if (isW(child, 'p')) {
+      const paragraph = readParagraph(child, state, tableIndex);
+      texts.push(paragraph.text);
+      if (topLevel) state.model.blocks.push({ type: 'paragraph', paragraphIndex: paragraph.index });
+    } else if (isW(child, 'tbl')) {
+      const table = readTable(child, state);
+      texts.push(table.rows.map(row => row.join('\t')).join('\n'));
+      if (topLevel) state.model.blocks.push({ type: 'table', tableIndex: table.index });
+    } else if (isW(child, 'sdt')) {
+      const content = findChild(child, 'sdtContent');
+      if (content) texts.push(...readBlocks(content, state, tableIndex, topLevel));
+    } else if (isW(child, 'ins') || isW(child, 'moveTo') || isW(child, 'customXml')) {
+      texts.push(...readBlocks(child, state, tableIndex, topLevel));
+    }
+  }
+
+  return texts;
+}
+
+function readTable(element: Element, state: ParseState): DocxTable {
+  const table: DocxTable = { index: state.model.tables.length, rows: [], headerRows: 0 };
+  state.model.tables.push(table);
+
+  for (const row of childElements(element).filter(child => isW(child, 'tr'))) {
+    if (table.rows.length === table.headerRows && isHeaderRow(row)) table.headerRows++;
+    const cells = childElements(row)
+      .filter(cell => isW(cell, 'tc'))
+      .map(cell => readBlocks(cell, state, table.index, false).join('\n').trim());
+    table.rows.push(cells);
+  }
+
+  return table;
+}
+
+// <w:tblHeader/> in the row properties; an explicit w:val of false or 0 turns it off
+function isHeaderRow(row: Element): boolean {
+  const properties = findChild(row, 'trPr');
+  const header = properties && findChild(properties, 'tblHeader');
+  if (!header) return false;
+  const value = attribute(header, 'val');
+  return value === undefined || !['false', '0', 'off'].includes(value);
+}
+
+function readParagraph(element: Element, state: ParseState, tableIndex: number | undefined): DocxParagraph {
+  const properties = findChild(element, 'pPr');
+  const styleId = properties ? attribute(findChild(properties, 'pStyle'), 'val') : undefined;
+  const style = resolveStyle(state.styles, styleId);
+
+  const paragraph: DocxParagraph = {
+    index: state.model.paragraphs.length,
+    text: '',
+    styleId,
+    tableIndex,
+    commentIds: [],
+  };
+  state.model.paragraphs.push(paragraph);
+
+  // Outline level: direct formatting first, then the style chain ("heading N" styles carry one)
+  const outlineLevel = properties ? attribute(findChild(properties, 'outlineLvl'), 'val') : undefined;
+  const level = outlineLevel !== undefined ? parseInt(outlineLevel, 10) : style.outlineLevel;
+  if (level !== undefined && level >= 0 && level < 9) {
+    paragraph.headingLevel = level + 1;
+  }
+
+  const numPr = properties ? findChild(properties, 'numPr') : undefined;
+  const numId = (numPr && attribute(findChild(numPr, 'numId'), 'val')) ?? style.numId;
+  const ilvlValue = numPr ? attribute(findChild(numPr, 'ilvl'), 'val') : undefined;
+  const ilvl = ilvlValue !== undefined ? parseInt(ilvlValue, 10) : style.ilvl ?? 0;
+  if (numId && numId !== '0') {
+    const numbering = nextNumber(state, numId, ilvl);
+    if (numbering) paragraph.numbering = numbering;
+  }
+
+  // Comments that started in earlier paragraphs are still anchored here
+  for (const id of state.openComments.keys()) {
+    if (!paragraph.commentIds.includes(id)) paragraph.commentIds.push(id);
+  }
+
+  paragraph.text = readInline(element, state, paragraph, undefined).replace(/[ \t]+$/, '');
+
+  for (const id of state.openComments.keys()) {
+    state.openComments.set(id, state.openComments.get(id) + '\n');
+  }
+
+  if (paragraph.numbering && !paragraph.numbering.isBullet && paragraph.text.trim()) {
+    state.model.clauses.push({
+      number: paragraph.numbering.label,
+      level: paragraph.numbering.level,
+      text: paragraph.text.trim(),
+      paragraphIndex: paragraph.index,
+    });
+  }
+
+  return paragraph;
+}
+
+/**
+ * Collect the text of runs inside a paragraph, recording revisions and comment anchors
+ * @param revision - Enclosing tracked change, if any
+ * @returns Paragraph text with insertions included and deletions left out
+ */
+function readInline(
+  element: Element,
+  state: ParseState,
+  paragraph: DocxParagraph,
+  revision: { type: DocxRevision['type']; author: string; date?: string } | undefined
+): string {
+  let text = '';
+
+  const append = (value: string, deleted: boolean) => {
+    if (!value) return;
+    if (revision) addRevision(state, paragraph, revision, value);
+    if (deleted) return;
+    text += value;
+    for (const [id, anchor] of state.openComments) {
+      state.openComments.set(id, anchor + value);
+    }
+  };
+
+  for (const child of childElements(element)) {
+    if (!W_NAMESPACES.has(child.namespaceURI || '')) continue;
+
+    switch (child.localName) {
+      case 'r':
+        append(readRun(child, state, paragraph), revision?.type === 'deletion');
+        break;
+      case 'ins':
+      case 'moveTo':
+      case 'del':
+      case 'moveFrom': {
+        const type = child.localName === 'ins' || child.localName === 'moveTo' ? 'insertion' : 'deletion';
+        const inner = readInline(child, state, paragraph, {
+          type,
+          author: attribute(child, 'author') || 'Unknown',
+          date: attribute(child, 'date'),
+        });
+        // Revisions and comment anchors were recorded while reading the inner runs
+        text += inner;
+        break;
+      }
+      case 'commentRangeStart': {
+        const id = attribute(child, 'id');
+        if (id !== undefined) {
+          state.openComments.set(id, '');
+          if (!paragraph.commentIds.includes(id)) paragraph.commentIds.push(id);
+          if (!state.commentParagraphs.has(id)) state.commentParagraphs.set(id, paragraph.index);
+        }
+        break;
+      }
+      case 'commentRangeEnd': {
+        const id = attribute(child, 'id');
+        if (id !== undefined && state.openComments.has(id)) {
+          state.commentAnchors.set(id, (state.openComments.get(id) || '').trim());
+          state.openComments.delete(id);
+        }
+        break;
+      }
+      case 'hyperlink':
+      case 'smartTag':
+      case 'fldSimple':
+      case 'customXml':
+      case 'bdo':
+      case 'dir':
+        text += readInline(child, state, paragraph, revision);
+        break;
+      case 'sdt': {
+        const content = findChild(child, 'sdtContent');
+        if (content) text += readInline(content, state, paragraph, revision);
+        break;
+      }
+    }
+  }
+
+  return text;
+}
+
+function readRun(run: Element, state: ParseState, paragraph: DocxParagraph): string {
+  let text = '';
+
+  for (const child of childElements(run)) {
+    if (!W_NAMESPACES.has(child.namespaceURI || '')) continue;
+
+    switch (child.localName) {
+      case 'fldChar': {
+        const type = attribute(child, 'fldCharType');
+        if (type === 'begin') state.inField = true;
+        else if (type === 'separate' || type === 'end') state.inField = false;
+        break;
+      }
+      case 't':
+      case 'delText':
+        if (!state.inField) text += child.textContent || '';
+        break;
+      case 'tab':
+        if (!state.inField) text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        if (!state.inField) text += '\n';
+        break;
+      case 'noBreakHyphen':
+        if (!state.inField) text += '-';
+        break;
+      case 'commentReference': {
+        // Comments without a range are anchored to the run holding their reference mark
+        const id = attribute(child, 'id');
+        if (id !== undefined && !state.commentParagraphs.has(id)) {
+          state.commentParagraphs.set(id, paragraph.index);
+          if (!paragraph.commentIds.includes(id)) paragraph.commentIds.push(id);
+        }
+        break;
+      }
+    }
+  }
+
+  return text;
+}
+
+function addRevision(
+  state: ParseState,
+  paragraph: DocxParagraph,
+  revision: { type: DocxRevision['type']; author: string; date?: string },
+  text: string
+): void {
+  // Word splits one edit across several elements; merge consecutive pieces by the same author
+  const last = state.model.revisions[state.model.revisions.length - 1];
+  if (last && last.paragraphIndex === paragraph.index && last.type === revision.type && last.author === revision.author) {
+    last.text += text;
+    return;
+  }
+  state.model.revisions.push({ ...revision, text, paragraphIndex: paragraph.index });
+}
+
+function parseComments(xml: Document, state: ParseState): DocxComment[] {
+  const comments: DocxComment[] = [];
+
+  for (const comment of childElements(xml.documentElement).filter(child => isW(child, 'comment'))) {
+    const id = attribute(comment, 'id') || String(comments.length);
+    const paragraphs = childElements(comment)
+      .filter(child => isW(child, 'p'))
+      .map(paragraph => collectText(paragraph));
+
+    comments.push({
+      id,
+      author: attribute(comment, 'author') || 'Unknown',
+      initials: attribute(comment, 'initials'),
+      date: attribute(comment, 'date'),
+      text: paragraphs.join('\n').trim(),
+      anchorText: state.commentAnchors.get(id) ?? (state.openComments.get(id) || '').trim(),
+      paragraphIndex: state.commentParagraphs.get(id),
+    });
+  }
+
+  return comments;
+}
+
+function parseStyles(xml: Document): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+
+  for (const style of childElements(xml.documentElement).filter(child => isW(child, 'style'))) {
+    const id = attribute(style, 'styleId');
+    if (!id || attribute(style, 'type') !== 'paragraph') continue;
+
+    const info: StyleInfo = {
+      name: attribute(findChild(style, 'name'), 'val'),
+      basedOn: attribute(findChild(style, 'basedOn'), 'val'),
+    };
+
+    const properties = findChild(style, 'pPr');
+    const outlineLevel = properties ? attribute(findChild(properties, 'outlineLvl'), 'val') : undefined;
+    if (outlineLevel !== undefined) {
+      info.outlineLevel = parseInt(outlineLevel, 10);
+    } else {
+      const headingMatch = /^heading\s*(\d)$/i.exec(info.name || '');
+      if (headingMatch) info.outlineLevel = parseInt(headingMatch[1], 10) - 1;
+      else if (/^title$/i.test(info.name || '')) info.outlineLevel = 0;
+    }
+
+    const numPr = properties ? findChild(properties, 'numPr') : undefined;
+    if (numPr) {
+      info.numId = attribute(findChild(numPr, 'numId'), 'val');
+      const ilvl = attribute(findChild(numPr, 'ilvl'), 'val');
+      if (ilvl !== undefined) info.ilvl = parseInt(ilvl, 10);
+    }
+
+    styles.set(id, info);
+  }
+
+  return styles;
+}
+
+/**
+ * Resolve heading level and numbering through a style's basedOn chain
+ */
+function resolveStyle(styles: Map<string, StyleInfo>, styleId: string | undefined): StyleInfo {
+  const resolved: StyleInfo = {};
+  const seen = new Set<string>();
+
+  let current = styleId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const style = styles.get(current);
+    if (!style) break;
+    if (resolved.outlineLevel === undefined) resolved.outlineLevel = style.outlineLevel;
+    if (resolved.numId === undefined) resolved.numId = style.numId;
+    if (resolved.ilvl === undefined) resolved.ilvl = style.ilvl;
+    current = style.basedOn;
+  }
+
+  return resolved;
+}
+
+function parseNumbering(xml: Document): NumberingDefinitions {
+  const definitions: NumberingDefinitions = { abstractLevels: new Map(), nums: new Map() };
+
+  for (const child of childElements(xml.documentElement)) {
+    if (isW(child, 'abstractNum')) {
+      const id = attribute(child, 'abstractNumId');
+      if (id === undefined) continue;
+      const levels = new Map<number, NumberingLevel>();
+      for (const level of childElements(child).filter(lvl => isW(lvl, 'lvl'))) {
+        levels.set(parseInt(attribute(level, 'ilvl') || '0', 10), parseLevel(level));
+      }
+      definitions.abstractLevels.set(id, levels);
+    } else if (isW(child, 'num')) {
+      const id = attribute(child, 'numId');
+      const abstractId = attribute(findChild(child, 'abstractNumId'), 'val');
+      if (id === undefined || abstractId === undefined) continue;
+
+      const overrides = new Map<number, { start?: number; level?: NumberingLevel }>();
+      for (const override of childElements(child).filter(item => isW(item, 'lvlOverride'))) {
+        const ilvl = parseInt(attribute(override, 'ilvl') || '0', 10);
+        const startOverride = attribute(findChild(override, 'startOverride'), 'val');
+        const level = findChild(override, 'lvl');
+        overrides.set(ilvl, {
+          start: startOverride !== undefined ? parseInt(startOverride, 10) : undefined,
+          level: level ? parseLevel(level) : undefined,
+        });
+      }
+      definitions.nums.set(id, { abstractId, overrides });
+    }
+  }
+
+  return definitions;
+}
+
+function parseLevel(level: Element): NumberingLevel {
+  return {
+    start: parseInt(attribute(findChild(level, 'start'), 'val') || '1', 10),
+    format: attribute(findChild(level, 'numFmt'), 'val') || 'decimal',
+    text: attribute(findChild(level, 'lvlText'), 'val') ?? '',
+    isLegal: findChild(level, 'isLgl') !== undefined,
+  };
+}
+
+/**
+ * Advance the list counters for a numbered paragraph and format its label
+ * Lists sharing an abstract definition continue one sequence unless a start override restarts it
+ */
+function nextNumber(state: ParseState, numId: string, ilvl: number): DocxParagraph['numbering'] | undefined {
+  const num = state.numbering.nums.get(numId);
+  if (!num) return undefined;
+  const abstractLevels = state.numbering.abstractLevels.get(num.abstractId);
+  if (!abstractLevels) return undefined;
+
+  const levelAt = (index: number): NumberingLevel | undefined => num.overrides.get(index)?.level || abstractLevels.get(index);
+  const level = levelAt(ilvl);
+  if (!level) return undefined;
+
+  let counters = state.counters.get(num.abstractId);
+  if (!counters || (!state.startedNums.has(numId) && Array.from(num.overrides.values()).some(o => o.start !== undefined))) {
+    counters = [];
+    state.counters.set(num.abstractId, counters);
+  }
+  state.startedNums.add(numId);
+
+  const startAt = (index: number) => num.overrides.get(index)?.start ?? levelAt(index)?.start ?? 1;
+  counters[ilvl] = counters[ilvl] === undefined ? startAt(ilvl) : counters[ilvl] + 1;
+  counters.length = ilvl + 1; // Deeper levels restart under a new parent
+
+  if (level.format === 'bullet' || level.format === 'none') {
+    return { label: level.format === 'bullet' ? '•' : '', level: ilvl, isBullet: true };
+  }
+
+  const label = level.text.replace(/%(\d)/g, (_, digit: string) => {
+    const index = parseInt(digit, 10) - 1;
+    const value = counters![index] ?? startAt(index);
+    const format = level.isLegal ? 'decimal' : levelAt(index)?.format || 'decimal';
+    return formatNumber(value, format);
+  });
+
+  return { label: label.trim(), level: ilvl, isBullet: false };
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return toLetters(value).toLowerCase();
+    case 'upperLetter':
+      return toLetters(value);
+    case 'lowerRoman':
+      return toRoman(value).toLowerCase();
+    case 'upperRoman':
+      return toRoman(value);
+    case 'decimalZero':
+      return value < 10 ? `0${value}` : String(value);
+    default:
+      return String(value);
+  }
+}
+
+// Word letters repeat after Z: A..Z, AA..ZZ, AAA..
+function toLetters(value: number): string {
+  const letter = String.fromCharCode(65 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+function buildHeadingTree(paragraphs: DocxParagraph[]): DocxHeading[] {
+  const roots: DocxHeading[] = [];
+  const stack: DocxHeading[] = [];
+
+  for (const paragraph of paragraphs) {
+    if (!paragraph.headingLevel || paragraph.tableIndex !== undefined || !paragraph.text.trim()) continue;
+
+    const heading: DocxHeading = {
+      text: paragraph.text.trim(),
+      level: paragraph.headingLevel,
+      number: paragraph.numbering && !paragraph.numbering.isBullet ? paragraph.numbering.label : undefined,
+      paragraphIndex: paragraph.index,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(heading);
+    stack.push(heading);
+  }
+
+  return roots;
+}
+
+function summarizeAuthors(model: DocxDocumentModel): DocxRevisionAuthor[] {
+  const authors = new Map<string, DocxRevisionAuthor>();
+  const get = (author: string) => {
+    let entry = authors.get(author);
+    if (!entry) {
+      entry = { author, insertions: 0, deletions: 0, comments: 0 };
+      authors.set(author, entry);
+    }
+    return entry;
+  };
+
+  for (const revision of model.revisions) {
+    if (revision.type === 'insertion') get(revision.author).insertions++;
+    else get(revision.author).deletions++;
+  }
+  for (const comment of model.comments) {
+    get(comment.author).comments++;
+  }
+
+  return Array.from(authors.values());
+}
+
+async function readXml(zip: JSZip, path: string | undefined): Promise<Document | undefined> {
+  if (!path) return undefined;
+  const file = zip.file(path);
+  if (!file) return undefined;
+
+  const xml = parseXML(await file.async('string'));
+  if (!xml) {
+    throw new Error(`${path} is not well-formed XML`);
+  }
+  return xml;
+}
+
+/**
+ * Read a relationships part, mapping relationship type suffixes to part paths
+ * @param base - Folder that relative targets resolve against
+ */
+async function readRelationships(zip: JSZip, path: string, base: string = ''): Promise<Map<string, string>> {
+  const targets = new Map<string, string>();
+  const xml = await readXml(zip, path);
+  if (!xml) return targets;
+
+  for (const relationship of Array.from(xml.getElementsByTagName('Relationship'))) {
+    const type = relationship.getAttribute('Type') || '';
+    const target = relationship.getAttribute('Target') || '';
+    if (relationship.getAttribute('TargetMode') === 'External' || !target) continue;
+
+    const suffix = type.slice(type.lastIndexOf('/'));
+    if (!targets.has(suffix)) {
+      targets.set(suffix, target.startsWith('/') ? target.slice(1) : base + target);
+    }
+  }
+
+  return targets;
+}
+
+function collectText(element: Element): string {
+  let text = '';
+  for (const child of childElements(element)) {
+    if (isW(child, 't')) text += child.textContent || '';
+    else if (isW(child, 'tab')) text += '\t';
+    else if (isW(child, 'br')) text += '\n';
+    else text += collectText(child);
+  }
+  return text;
+}
+
+function isW(element: Element, localName: string): boolean {
+  return element.localName === localName && W_NAMESPACES.has(element.namespaceURI || '');
+}
+
+function findChild(element: Element, localName: string): Element | undefined {
+  return childElements(element).find(child => isW(child, localName));
+}
+
+function attribute(element: Element | undefined, name: string): string | undefined {
+  if (!element) return undefined;
+  if (!element.hasAttributeNS(element.namespaceURI, name)) return undefined;
+  return element.getAttributeNS(element.namespaceURI, name) ?? undefined;
+}
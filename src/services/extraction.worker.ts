@@ -0,0 +1,60 @@
+import { extractText, extractTextFromPhotos, TextExtractionOptions } from './textExtractor';
+import type { ExtractionWorkerRequest, ExtractionWorkerResponse } from './extractionWorkerClient';
+
+// Runs extractText off the main thread for extractTextInWorker. One instance serves every job, so
+// jobs run side by side and share the OCR worker pool
+
+// Running jobs by id; aborting one stops it at its next page or image
+const jobControllers = new Map<number, AbortController>();
+
+function post(message: ExtractionWorkerResponse) {
+  if (jobControllers.get(message.id)?.signal.aborted) return;
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<ExtractionWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    jobControllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, file, options, pages } = request;
+  const controller = new AbortController();
+  jobControllers.set(id, controller);
+
+  try {
+    const workerOptions: TextExtractionOptions = {
+      ...options,
+      signal: controller.signal,
+      pdfOptions: {
+        ...options.pdfOptions,
+        onPage: (page, completed, total) => post({
+          id,
+          type: 'progress',
+          progress: { stage: 'reading', progress: completed / total, page, pageCount: total },
+        }),
+      },
+      ocrOptions: {
+        ...options.ocrOptions,
+        logger: (info) => post({
+          id,
+          type: 'progress',
+          progress: { stage: 'ocr', progress: info.progress, page: info.page, status: info.status },
+        }),
+      },
+    };
+
+    const result = pages
+      ? await extractTextFromPhotos(pages, file.name, workerOptions)
+      : await extractText(file, workerOptions);
+
+    post({ id, type: 'result', result });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Error in extraction worker:', error);
+    post({ id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  } finally {
+    jobControllers.delete(id);
+  }
+};
@@ -0,0 +1,230 @@
+import type { TextExtractionOptions, UnifiedExtractionResult } from './textExtractor';
+
+const DB_NAME = 'mylegal-extraction-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'extractions';
+
+// Least recently used entries are evicted once the cache grows past this
+export const MAX_CACHE_SIZE = 100 * 1024 * 1024; // 100MB
+
+export interface CachedExtraction {
+  key: string; // SHA-256 of the file bytes and extraction options
+  fileName: string;
+  fileSize: number;
+  result: UnifiedExtractionResult;
+  editedText?: string; // User corrections made in the editor
+  size: number; // Approximate bytes the entry takes up
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface ExtractionCacheSummary {
+  entryCount: number;
+  totalSize: number;
+  maxSize: number;
+  entries: Array<Omit<CachedExtraction, 'result'>>; // Most recently used first
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Compute the cache key for extracting a file with the given options
+ * Callbacks are ignored; returns undefined for encrypted PDFs opened with a password, whose text is never cached
+ * @param file - File to extract
+ * @param options - Extraction options that affect the result
+ * @returns Promise containing the key, or undefined when the extraction must not be cached
+ */
+export async function getExtractionCacheKey(
+  file: File,
+  options: TextExtractionOptions = {}
+): Promise<string | undefined> {
+  if (options.pdfOptions?.password || typeof crypto === 'undefined' || !crypto.subtle) {
+    return undefined;
+  }
+
+  const encoder = new TextEncoder();
+  const fileHash = await sha256(await file.arrayBuffer());
+  const optionsHash = await sha256(encoder.encode(stableStringify(options)));
+  return `${fileHash}:${optionsHash.slice(0, 16)}`;
+}
+
+/**
+ * Look up a cached extraction and mark it as recently used
+ * @param key - Key from getExtractionCacheKey
+ * @returns Promise containing the cached entry, or undefined on a miss
+ */
+export async function getCachedExtraction(key: string): Promise<CachedExtraction | undefined> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const entry = await requestToPromise<CachedExtraction | undefined>(store.get(key));
+    if (!entry) return undefined;
+
+    entry.lastAccessed = Date.now();
+    await requestToPromise(store.put(entry));
+    return entry;
+  } catch (error) {
+    console.warn('Failed to read extraction cache:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Store an extraction result, evicting least recently used entries to stay within MAX_CACHE_SIZE
+ * Failed extractions are not cached
+ * @param key - Key from getExtractionCacheKey
+ * @param file - File the result was extracted from
+ * @param result - Extraction result
+ */
+export async function putCachedExtraction(key: string, file: File, result: UnifiedExtractionResult): Promise<void> {
+  if (!result.success) return;
+
+  try {
+    const now = Date.now();
+    const entry: CachedExtraction = {
+      key,
+      fileName: file.name,
+      fileSize: file.size,
+      result,
+      size: estimateResultSize(result),
+      createdAt: now,
+      lastAccessed: now,
+    };
+
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(entry));
+    await evictToSize(db, MAX_CACHE_SIZE);
+  } catch (error) {
+    console.warn('Failed to write extraction cache:', error);
+  }
+}
+
+/**
+ * Save the user's edited text alongside a cached extraction
+ * @param key - Key from getExtractionCacheKey
+ * @param editedText - Edited document text
+ */
+export async function saveCachedEdit(key: string, editedText: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const entry = await requestToPromise<CachedExtraction | undefined>(store.get(key));
+    if (!entry) return;
+
+    entry.size += editedText.length * 2 - (entry.editedText?.length || 0) * 2;
+    entry.editedText = editedText;
+    entry.lastAccessed = Date.now();
+    await requestToPromise(store.put(entry));
+  } catch (error) {
+    console.warn('Failed to save edit to extraction cache:', error);
+  }
+}
+
+/**
+ * Summarize what the cache holds, for the Settings page
+ * @returns Promise containing entry details without the extraction results
+ */
+export async function getExtractionCacheSummary(): Promise<ExtractionCacheSummary> {
+  try {
+    const entries = await getAllEntries(await openDatabase());
+    return {
+      entryCount: entries.length,
+      totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+      maxSize: MAX_CACHE_SIZE,
+      entries: entries
+        .sort((a, b) => b.lastAccessed - a.lastAccessed)
+        .map(({ result: _result, ...entry }) => entry),
+    };
+  } catch (error) {
+    console.error('Error reading extraction cache:', error);
+    throw new Error(`Failed to read extraction cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Remove every cached extraction and edit
+ */
+export async function clearExtractionCache(): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  } catch (error) {
+    console.error('Error clearing extraction cache:', error);
+    throw new Error(`Failed to clear extraction cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getAllEntries(db: IDBDatabase): Promise<CachedExtraction[]> {
+  return requestToPromise<CachedExtraction[]>(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll());
+}
+
+/**
+ * Delete least recently used entries until the cache fits in maxSize
+ */
+async function evictToSize(db: IDBDatabase, maxSize: number): Promise<void> {
+  const entries = await getAllEntries(db);
+  let totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+  if (totalSize <= maxSize) return;
+
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  for (const entry of entries.sort((a, b) => a.lastAccessed - b.lastAccessed)) {
+    if (totalSize <= maxSize) break;
+    await requestToPromise(store.delete(entry.key));
+    totalSize -= entry.size;
+  }
+}
+
+function estimateResultSize(result: UnifiedExtractionResult): number {
+  // JSON length in UTF-16 code units approximates what IndexedDB stores; images are counted separately
+  return JSON.stringify(result).length * 2 + (result.ocrImage?.size || 0);
+}
+
+async function sha256(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with sorted keys and without functions, so equal options always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (typeof value === 'function' || value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => typeof item !== 'function' && item !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+  return `{${entries.join(',')}}`;
+}
@@ -0,0 +1,150 @@
+import type { TextExtractionOptions, UnifiedExtractionResult } from './textExtractor';
+
+export interface ExtractionProgress {
+  stage: 'reading' | 'ocr'; // Reading the text layer, or OCR of images and scanned pages
+  progress: number; // 0-1 within the current stage
+  page?: number; // Page just read, or being recognized
+  pageCount?: number; // Pages read in this stage
+  status?: string; // Tesseract status during OCR
+}
+
+export interface WorkerExtractionOptions {
+  signal?: AbortSignal; // Aborting stops the job; the worker is terminated when no other job is running on it
+  onProgress?: (progress: ExtractionProgress) => void;
+  pages?: File[]; // Page photos that make up the file; OCR'd in order instead of reading the file itself
+}
+
+// Messages exchanged with extraction.worker.ts
+export type ExtractionWorkerRequest =
+  | {
+      id: number;
+      type: 'extract';
+      file: File;
+      options: TextExtractionOptions; // Callbacks can't be posted; progress comes back as messages
+      pages?: File[];
+    }
+  | { id: number; type: 'cancel' }; // Stop an aborted job between pages and images
+
+export type ExtractionWorkerResponse =
+  | { id: number; type: 'progress'; progress: ExtractionProgress }
+  | { id: number; type: 'result'; result: UnifiedExtractionResult }
+  | { id: number; type: 'error'; message: string };
+
+// Every job runs on one long-lived worker, so its OCR pool and language data are loaded once and shared
+let sharedWorker: Worker | undefined;
+const runningJobs = new Set<number>();
+let nextJobId = 0;
+
+/**
+ * Extract text from a file in a Web Worker, keeping the page responsive
+ * @param file - File to extract text from
+ * @param options - Extraction options; callback options such as the OCR logger are replaced by onProgress
+ * @param workerOptions - Abort signal and progress callback
+ * @returns Promise containing the unified extraction result; rejects with an AbortError when aborted
+ */
+export function extractTextInWorker(
+  file: File,
+  options: TextExtractionOptions = {},
+  { signal, onProgress, pages }: WorkerExtractionOptions = {}
+): Promise<UnifiedExtractionResult> {
+  if (signal?.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  const worker = getSharedWorker();
+  const id = ++nextJobId;
+  runningJobs.add(id);
+
+  return new Promise((resolve, reject) => {
+    const detach = () => {
+      runningJobs.delete(id);
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (event: MessageEvent<ExtractionWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'result':
+          detach();
+          resolve(message.result);
+          break;
+        case 'error':
+          detach();
+          reject(new Error(`Failed to extract text: ${message.message}`));
+          break;
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      detach();
+      // Every job on the worker receives the error; the first one to handle it discards the worker
+      discardWorker(worker);
+      console.error('Extraction worker error:', event);
+      reject(new Error(`Failed to extract text: ${event.message || 'Extraction worker crashed'}`));
+    };
+
+    const handleAbort = () => {
+      detach();
+      if (runningJobs.size === 0) {
+        // Nothing else needs the worker; terminating also stops the nested PDF.js and Tesseract workers mid-page
+        discardWorker(worker);
+      } else {
+        // Other files are still extracting, so only this job is stopped at its next page or image
+        postRequest(worker, { id, type: 'cancel' });
+      }
+      reject(getAbortReason(signal));
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    postRequest(worker, { id, type: 'extract', file, options: withoutCallbacks(options), pages });
+  });
+}
+
+/**
+ * Check whether an extraction failed because it was aborted
+ * @param error - Error thrown by extractTextInWorker
+ * @returns True for abort errors
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function getSharedWorker(): Worker {
+  if (!sharedWorker) {
+    sharedWorker = new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return sharedWorker;
+}
+
+// Terminate a worker that crashed or is no longer needed; the next job starts a fresh one
+function discardWorker(worker: Worker) {
+  if (sharedWorker !== worker) return;
+  sharedWorker = undefined;
+  runningJobs.clear();
+  worker.terminate();
+}
+
+function postRequest(worker: Worker, request: ExtractionWorkerRequest) {
+  worker.postMessage(request);
+}
+
+function getAbortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Extraction was aborted', 'AbortError');
+}
+
+function withoutCallbacks(options: TextExtractionOptions): TextExtractionOptions {
+  const { signal: _signal, ...rest } = options;
+  const { logger: _logger, signal: _ocrSignal, ...ocrOptions } = options.ocrOptions || {};
+  const { onPage: _onPage, signal: _pdfSignal, ...pdfOptions } = options.pdfOptions || {};
+  return { ...rest, ocrOptions, pdfOptions };
+}
@@ -0,0 +1,205 @@
+import type { RiskLevel } from '@/hooks/uploadedFileContext';
+import type { AnalysisRequest, ChatRequest, LLMProvider, LLMRequestOptions, LLMStreamOptions } from './llmProvider';
+
+// Offline stand-in for the language model: answers are built from keyword matches in the request,
+// so the same documents and questions always get the same answers and no network is needed
+
+interface ClauseFixture {
+  title: string;
+  pattern: RegExp; // English and Malay wording that marks the clause
+  law: string;
+  risk?: {
+    area: string;
+    description: string;
+    consequence: string;
+    likelihood: RiskLevel;
+    impact: RiskLevel;
+    severity: RiskLevel;
+    action: string;
+  };
+}
+
+const CLAUSE_FIXTURES: ClauseFixture[] = [
+  {
+    title: 'Payment Terms',
+    pattern: /\b(payment|payable|instal?ments?|rent|bayaran|sewa)\b/i,
+    law: 'Contracts Act 1950',
+  },
+  {
+    title: 'Late Payment Interest',
+    pattern: /\b(late payment|interest at|default interest|faedah lewat)\b/i,
+    law: 'Contracts Act 1950, section 75',
+    risk: {
+      area: 'Late payment charges',
+      description: 'Interest or charges apply to amounts paid late.',
+      consequence: 'Arrears grow quickly if payments are missed.',
+      likelihood: 'medium',
+      impact: 'medium',
+      severity: 'medium',
+      action: 'Check the interest rate and when it starts to run, and ask for a grace period.',
+    },
+  },
+  {
+    title: 'Termination',
+    pattern: /\b(terminat\w*|penamatan|tamat)\b/i,
+    law: 'Contracts Act 1950',
+    risk: {
+      area: 'Termination rights',
+      description: 'The agreement can be ended on the grounds set out in this clause.',
+      consequence: 'Losing the benefit of the agreement and any deposit paid.',
+      likelihood: 'medium',
+      impact: 'high',
+      severity: 'high',
+      action: 'Ask for written notice and time to remedy a breach before the agreement can be ended.',
+    },
+  },
+  {
+    title: 'Liability and Indemnity',
+    pattern: /\b(liabilit\w*|indemnif\w*|indemnity|tanggung ?rugi|liabiliti)\b/i,
+    law: 'Contracts Act 1950, section 77',
+    risk: {
+      area: 'Liability exposure',
+      description: 'One party takes on responsibility for losses or claims.',
+      consequence: 'Paying for losses beyond the value of the agreement.',
+      likelihood: 'low',
+      impact: 'high',
+      severity: 'medium',
+      action: 'Negotiate a cap on liability, e.g. the value of the agreement.',
+    },
+  },
+  {
+    title: 'Security Deposit',
+    pattern: /\b(deposit|deposit keselamatan|cagaran)\b/i,
+    law: 'Contracts Act 1950',
+    risk: {
+      area: 'Deposit forfeiture',
+      description: 'The deposit can be kept or set off against amounts owed.',
+      consequence: 'Not getting the deposit back at the end of the agreement.',
+      likelihood: 'medium',
+      impact: 'low',
+      severity: 'low',
+      action: 'Agree in writing when the deposit is refunded and what may be deducted from it.',
+    },
+  },
+  {
+    title: 'Governing Law',
+    pattern: /\b(governed by|governing law|undang-undang malaysia|laws of malaysia)\b/i,
+    law: 'Courts of Judicature Act 1964',
+  },
+  {
+    title: 'Confidentiality',
+    pattern: /\b(confidential\w*|sulit|kerahsiaan)\b/i,
+    law: 'Personal Data Protection Act 2010',
+  },
+];
+
+// Longest excerpt quoted from the documents
+const MAX_EXCERPT_LENGTH = 300;
+// Words per streamed piece
+const STREAM_CHUNK_WORDS = 4;
+
+/**
+ * Deterministic local provider for developing and testing the app without a network
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+
+  async analyze(request: AnalysisRequest, options: LLMRequestOptions = {}): Promise<string> {
+    throwIfAborted(options.signal);
+    const text = request.snippets.join('\n\n');
+    const matches = CLAUSE_FIXTURES
+      .map((fixture) => ({ fixture, excerpt: findExcerpt(text, fixture.pattern) }))
+      .filter((match): match is { fixture: ClauseFixture; excerpt: string } => !!match.excerpt);
+
+    const firstLine = text.split('\n').map((line) => line.trim()).find(Boolean) || '';
+    const importantClauses = matches.length > 0
+      ? matches.map(({ fixture, excerpt }) => ({
+        clause_title: fixture.title,
+        clause_text: excerpt,
+        summary: `The documents contain a clause on ${fixture.title.toLowerCase()}.`,
+        relevant_law: fixture.law,
+      }))
+      : [{
+        clause_title: 'Document Overview',
+        clause_text: firstLine.slice(0, MAX_EXCERPT_LENGTH),
+        summary: 'No common contract clauses were recognized in the documents.',
+      }];
+
+    const legalRisks = matches.flatMap(({ fixture: { risk, title, law } }) => (risk
+      ? [{
+        risk_area: risk.area,
+        description: risk.description,
+        potential_consequence: risk.consequence,
+        related_clause: title,
+        relevant_law: law,
+        severity: risk.severity,
+        likelihood: risk.likelihood,
+        impact: risk.impact,
+        recommended_action: risk.action,
+        rationale: `Fixed rating for ${title.toLowerCase()} clauses: ${risk.likelihood} likelihood, ${risk.impact} impact.`,
+      }]
+      : []));
+
+    const tableCount = request.tables?.length || 0;
+    return JSON.stringify({
+      important_clauses: importantClauses,
+      legal_risks: legalRisks,
+      notes: `Offline fixture analysis of ${request.snippets.length} document(s)${tableCount > 0 ? ` and ${tableCount} table(s)` : ''}, built from keyword matches. It is not a legal review.`,
+    });
+  }
+
+  async chat(request: ChatRequest, options: LLMRequestOptions = {}): Promise<string> {
+    throwIfAborted(options.signal);
+    const questionWords = new Set(request.userMessage.toLowerCase().match(/\p{L}{3,}/gu) || []);
+
+    // The clause whose title and summary share the most words with the question
+    const clauses = request.summarizedJson.important_clauses || [];
+    const scored = clauses.map((clause) => ({
+      clause,
+      score: (`${clause.clause_title} ${clause.summary}`.toLowerCase().match(/\p{L}{3,}/gu) || [])
+        .filter((word) => questionWords.has(word)).length,
+    }));
+    const best = scored.reduce<typeof scored[number] | undefined>((top, entry) => (!top || entry.score > top.score ? entry : top), undefined);
+
+    if (!best || best.score === 0) {
+      return `**Offline answer**\n\nThe analysis doesn't mention anything matching "${request.userMessage}". ` +
+        `It covers: ${clauses.map((clause) => clause.clause_title).join(', ') || 'no clauses'}.`;
+    }
+
+    return `**Offline answer**\n\nThis relates to the **${best.clause.clause_title}** clause. ${best.clause.summary}\n\n` +
+      `> ${best.clause.clause_text}` +
+      (best.clause.relevant_law ? `\n\nRelevant law: ${best.clause.relevant_law}` : '');
+  }
+
+  async streamChat(request: ChatRequest, { onDelta, signal }: LLMStreamOptions): Promise<string> {
+    const answer = await this.chat(request, { signal });
+    const pieces = answer.match(new RegExp(`(?:\\S+\\s*){1,${STREAM_CHUNK_WORDS}}`, 'g')) || [answer];
+
+    let text = '';
+    for (const piece of pieces) {
+      // Yield between pieces so the answer appears gradually, like a real stream
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      throwIfAborted(signal);
+      text += piece;
+      onDelta(piece, text);
+    }
+    return text;
+  }
+}
+
+// The line holding the first match, trimmed to a quotable length
+function findExcerpt(text: string, pattern: RegExp): string | undefined {
+  const match = pattern.exec(text);
+  if (!match) return undefined;
+
+  const start = text.lastIndexOf('\n', match.index) + 1;
+  const end = text.indexOf('\n', match.index);
+  const line = text.slice(start, end < 0 ? undefined : end).trim();
+  return line.length > MAX_EXCERPT_LENGTH ? `${line.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : line;
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('The request was aborted', 'AbortError');
+  }
+}
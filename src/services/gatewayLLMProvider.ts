@@ -0,0 +1,143 @@
+import type {
+  AnalysisRequest,
+  ChatCompletionResponse,
+  ChatRequest,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMStreamOptions,
+} from './llmProvider';
+
+/**
+ * Sends analysis and chat requests to the API Gateway stage in front of the Bedrock Lambda functions
+ */
+export class GatewayLLMProvider implements LLMProvider {
+  readonly name = 'gateway' as const;
+  private readonly baseUrl: string;
+
+  /**
+   * @param baseUrl - Stage URL, e.g. https://<api-id>.execute-api.<region>.amazonaws.com/<stage>
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async analyze(request: AnalysisRequest, options: LLMRequestOptions = {}): Promise<string> {
+    const responseData = await this.post('bedrockapi', request, options.signal);
+
+    // Older deployments answer with the analysis itself rather than a chat completion
+    if (responseData?.important_clauses && responseData?.legal_risks) {
+      return JSON.stringify(responseData);
+    }
+    return readCompletionContent(responseData, 'analysis');
+  }
+
+  async chat(request: ChatRequest, options: LLMRequestOptions = {}): Promise<string> {
+    const responseData = await this.post('chat', request, options.signal);
+    return readCompletionContent(responseData, 'chat');
+  }
+
+  async streamChat(request: ChatRequest, { onDelta, signal }: LLMStreamOptions): Promise<string> {
+    const response = await this.send('chat', { ...request, stream: true }, signal, 'text/event-stream, application/json');
+
+    // Stages without streaming answer with the usual JSON, delivered as a single piece
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      const text = readCompletionContent(await response.json(), 'chat');
+      onDelta(text, text);
+      return text;
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      buffer += chunk.value;
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const delta = readStreamEvent(event);
+        if (delta) {
+          text += delta;
+          onDelta(delta, text);
+        }
+      }
+    }
+
+    const delta = readStreamEvent(buffer);
+    if (delta) {
+      text += delta;
+      onDelta(delta, text);
+    }
+    return text;
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal) {
+    const response = await this.send(path, body, signal, 'application/json');
+    return response.json();
+  }
+
+  private async send(path: string, body: unknown, signal: AbortSignal | undefined, accept: string): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': accept,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+
+      try {
+        const errorData = await response.json();
+        if (errorData.error) {
+          errorMessage = errorData.error;
+          if (errorData.details) {
+            errorMessage += ` - ${errorData.details}`;
+          }
+        }
+      } catch (parseError) {
+        // Use the default error message if we can't parse the error response
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    return response;
+  }
+}
+
+// Message content of the first choice in a chat completion
+function readCompletionContent(responseData: unknown, kind: 'analysis' | 'chat'): string {
+  const choices = (responseData as Partial<ChatCompletionResponse> | null)?.answer?.choices;
+  if (!choices || choices.length === 0) {
+    console.error(`Invalid ${kind} response structure:`, responseData);
+    throw new Error(`Invalid response format from ${kind} service`);
+  }
+
+  const content = choices[0].message?.content;
+  if (!content) {
+    throw new Error(`Missing message content in ${kind} response`);
+  }
+  return content;
+}
+
+// Text added by one server-sent event, in chat completion chunk format or as plain text
+function readStreamEvent(event: string): string {
+  const data = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart())
+    .join('\n');
+  if (!data || data === '[DONE]') return '';
+
+  try {
+    const chunk = JSON.parse(data);
+    return chunk.choices?.[0]?.delta?.content ?? chunk.answer?.choices?.[0]?.delta?.content ?? '';
+  } catch {
+    return data;
+  }
+}
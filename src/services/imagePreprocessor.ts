@@ -0,0 +1,401 @@
+import { canvasToBlob, createCanvas, DrawingCanvas, getContext2D } from './canvas';
+
+export type ImagePreprocessingStep = 'orientation' | 'grayscale' | 'deskew' | 'upscale' | 'threshold';
+
+export interface ImagePreprocessingOptions {
+  fixOrientation?: boolean; // Apply the EXIF orientation tag of camera photos (default: true)
+  grayscale?: boolean; // Convert to grayscale (default: true)
+  deskew?: boolean; // Straighten text lines photographed at an angle (default: true)
+  upscale?: boolean; // Enlarge images whose text lines are too small for OCR (default: true)
+  threshold?: boolean; // Adaptive black/white thresholding to remove shadows (default: true)
+}
+
+export interface ImagePreprocessingResult {
+  image: File; // Preprocessed PNG, named after the original file
+  width: number;
+  height: number;
+  steps: ImagePreprocessingStep[]; // Steps that changed the image, in the order applied
+  orientation: number; // EXIF orientation tag (1 = upright)
+  skewAngle: number; // Degrees the image was rotated to straighten it
+  scale: number; // Upscaling factor applied (1 = unchanged)
+}
+
+// Skew search range and resolution, in degrees
+const MAX_SKEW_ANGLE = 15;
+const COARSE_SKEW_STEP = 0.5;
+const FINE_SKEW_STEP = 0.1;
+const MIN_SKEW_CORRECTION = 0.3;
+
+// Tesseract reads best when text lines are roughly 30-40 pixels tall
+const MIN_LINE_HEIGHT = 24;
+const TARGET_LINE_HEIGHT = 36;
+const MAX_UPSCALE = 3;
+
+// Largest image produced, to keep canvas memory bounded on phones
+const MAX_OUTPUT_PIXELS = 16_000_000;
+
+// Image width used when estimating skew and line height
+const ANALYSIS_WIDTH = 1000;
+
+// Bradley adaptive threshold: a pixel is ink when darker than its neighbourhood mean by this fraction
+const THRESHOLD_SENSITIVITY = 0.15;
+
+/**
+ * Preprocess a photographed or scanned page for OCR
+ * Runs EXIF orientation, grayscale, deskew, upscaling of small text and adaptive thresholding
+ * @param file - Image file to preprocess
+ * @param options - Steps to enable (all enabled by default)
+ * @returns Promise containing the preprocessed image and the steps applied
+ */
+export async function preprocessImage(
+  file: File,
+  options: ImagePreprocessingOptions = {}
+): Promise<ImagePreprocessingResult> {
+  const {
+    fixOrientation = true,
+    grayscale = true,
+    deskew = true,
+    upscale = true,
+    threshold = true,
+  } = options;
+
+  try {
+    const steps: ImagePreprocessingStep[] = [];
+
+    const orientation = await readExifOrientation(file);
+    const bitmap = await createImageBitmap(file, {
+      imageOrientation: fixOrientation ? 'from-image' : 'none',
+    });
+    if (fixOrientation && orientation > 1) steps.push('orientation');
+
+    let canvas = createCanvas(bitmap.width, bitmap.height);
+    getContext2D(canvas).drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    // Bound the working size before any pixel loops
+    const maxScale = Math.sqrt(MAX_OUTPUT_PIXELS / (canvas.width * canvas.height));
+    if (maxScale < 1) {
+      canvas = resizeCanvas(canvas, maxScale);
+    }
+
+    if (grayscale || threshold) {
+      toGrayscale(canvas);
+      if (grayscale) steps.push('grayscale');
+    }
+
+    let skewAngle = 0;
+    if (deskew) {
+      const angle = estimateSkewAngle(canvas);
+      if (Math.abs(angle) >= MIN_SKEW_CORRECTION) {
+        canvas = rotateCanvas(canvas, -angle);
+        skewAngle = -angle;
+        steps.push('deskew');
+      }
+    }
+
+    let scale = 1;
+    if (upscale) {
+      const lineHeight = estimateLineHeight(canvas);
+      if (lineHeight > 0 && lineHeight < MIN_LINE_HEIGHT) {
+        const limit = Math.sqrt(MAX_OUTPUT_PIXELS / (canvas.width * canvas.height));
+        scale = Math.min(TARGET_LINE_HEIGHT / lineHeight, MAX_UPSCALE, limit);
+        if (scale > 1.1) {
+          canvas = resizeCanvas(canvas, scale);
+          steps.push('upscale');
+        } else {
+          scale = 1;
+        }
+      }
+    }
+
+    if (threshold) {
+      adaptiveThreshold(canvas);
+      steps.push('threshold');
+    }
+
+    const blob = await canvasToBlob(canvas);
+    const name = file.name.replace(/\.[^.]+$/, '') + '.png';
+
+    return {
+      image: new File([blob], name, { type: 'image/png' }),
+      width: canvas.width,
+      height: canvas.height,
+      steps,
+      orientation,
+      skewAngle,
+      scale,
+    };
+  } catch (error) {
+    console.error('Error preprocessing image:', error);
+    throw new Error(`Failed to preprocess image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read the EXIF orientation tag from a JPEG file
+ * @param file - Image file
+ * @returns Orientation 1-8, or 1 when the file has no orientation tag
+ */
+export async function readExifOrientation(file: File): Promise<number> {
+  // The APP1 segment sits near the start of the file
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of scan: no more metadata
+
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) break;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) break;
+
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const value = view.getUint16(entry + 8, littleEndian);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      break;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function resizeCanvas(source: DrawingCanvas, scale: number): DrawingCanvas {
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  const ctx = getContext2D(canvas);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Rotate a canvas about its centre, growing it to fit and filling new corners with white
+ */
+function rotateCanvas(source: DrawingCanvas, degrees: number): DrawingCanvas {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const canvas = createCanvas(
+    source.width * cos + source.height * sin,
+    source.width * sin + source.height * cos
+  );
+
+  const ctx = getContext2D(canvas);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+function toGrayscale(canvas: DrawingCanvas): void {
+  const ctx = getContext2D(canvas);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    // Transparent pixels become white rather than black
+    const alpha = data[i + 3] / 255;
+    const gray = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) * alpha + 255 * (1 - alpha);
+    data[i] = gray;
+    data[i + 1] = gray;
+    data[i + 2] = gray;
+    data[i + 3] = 255;
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Binarize a reduced copy of the image with a global Otsu threshold for layout analysis
+ * @returns Ink mask (1 = ink), its size, and the factor from mask to canvas pixels
+ */
+function getAnalysisMask(canvas: DrawingCanvas): { mask: Uint8Array; width: number; height: number; factor: number } {
+  const reduction = Math.min(1, ANALYSIS_WIDTH / canvas.width);
+  const small = reduction < 1 ? resizeCanvas(canvas, reduction) : canvas;
+  const { data } = getContext2D(small).getImageData(0, 0, small.width, small.height);
+
+  const histogram = new Array<number>(256).fill(0);
+  const gray = new Uint8Array(small.width * small.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4];
+    histogram[gray[i]]++;
+  }
+
+  const level = otsuThreshold(histogram, gray.length);
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    mask[i] = gray[i] < level ? 1 : 0;
+  }
+
+  return { mask, width: small.width, height: small.height, factor: canvas.width / small.width };
+}
+
+function otsuThreshold(histogram: number[], total: number): number {
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let backgroundSum = 0;
+  let backgroundWeight = 0;
+  let bestVariance = 0;
+  let level = 128;
+
+  for (let i = 0; i < 256; i++) {
+    backgroundWeight += histogram[i];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += i * histogram[i];
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (sum - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      level = i + 1;
+    }
+  }
+
+  return level;
+}
+
+/**
+ * Estimate text skew from horizontal projection profiles
+ * Text lines produce the sharpest row profile (highest sum of squares) when level
+ * @returns Skew in degrees; positive when lines slope down to the right
+ */
+function estimateSkewAngle(canvas: DrawingCanvas): number {
+  const { mask, width, height } = getAnalysisMask(canvas);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // Blank pages or solid fills carry no line structure
+  if (xs.length < 100 || xs.length > mask.length * 0.5) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(diagonal * 2 + 1);
+
+  const score = (degrees: number): number => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    }
+    let total = 0;
+    for (let i = 0; i < bins.length; i++) total += bins[i] * bins[i];
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number): number => {
+    let best = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + step / 2; angle += step) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, COARSE_SKEW_STEP);
+  return search(coarse - COARSE_SKEW_STEP, coarse + COARSE_SKEW_STEP, FINE_SKEW_STEP);
+}
+
+/**
+ * Estimate the typical text line height from runs of inked rows
+ * @returns Median line height in canvas pixels, or 0 when no lines are found
+ */
+function estimateLineHeight(canvas: DrawingCanvas): number {
+  const { mask, width, height, factor } = getAnalysisMask(canvas);
+
+  const runs: number[] = [];
+  let runLength = 0;
+  for (let y = 0; y <= height; y++) {
+    let ink = 0;
+    if (y < height) {
+      for (let x = 0; x < width; x++) ink += mask[y * width + x];
+    }
+    // A row belongs to a text line when at least 1% of it is ink
+    if (y < height && ink >= width * 0.01) {
+      runLength++;
+    } else if (runLength > 0) {
+      if (runLength >= 2) runs.push(runLength);
+      runLength = 0;
+    }
+  }
+
+  if (runs.length < 3) return 0;
+  runs.sort((a, b) => a - b);
+  return runs[Math.floor(runs.length / 2)] * factor;
+}
+
+/**
+ * Bradley adaptive threshold using an integral image
+ * Each pixel is compared with the mean of its neighbourhood, which removes uneven lighting and shadows
+ */
+function adaptiveThreshold(canvas: DrawingCanvas): void {
+  const ctx = getContext2D(canvas);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+  const { width, height } = canvas;
+
+  // Uint32 sums wrap on very large images, but window sums taken as differences stay exact
+  const integral = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(7, Math.round(width / 16));
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const count = (x1 - x0) * (y1 - y0);
+      const sum = (
+        integral[y1 * (width + 1) + x1] -
+        integral[y0 * (width + 1) + x1] -
+        integral[y1 * (width + 1) + x0] +
+        integral[y0 * (width + 1) + x0]
+      ) >>> 0;
+
+      const index = (y * width + x) * 4;
+      const value = data[index] * count < sum * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      data[index] = value;
+      data[index + 1] = value;
+      data[index + 2] = value;
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+}
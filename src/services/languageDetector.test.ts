@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDocumentLanguages,
+  detectLanguage,
+  getOCRLanguageFor,
+  getSignificantLanguages,
+  getUnsupportedLanguageWarning,
+  hasOCRPackFor,
+} from './languageDetector';
+
+const ENGLISH = 'The Tenant shall pay the rent to the Landlord on the first day of each month.';
+const MALAY = 'Penyewa hendaklah membayar sewa kepada tuan rumah pada hari pertama setiap bulan.';
+const CHINESE = '租客须于每月第一天向房东缴付租金。';
+
+describe('detectLanguage', () => {
+  it('tells English and Malay apart by their common words', () => {
+    expect(detectLanguage(ENGLISH)?.language).toBe('en');
+    expect(detectLanguage(MALAY)?.language).toBe('ms');
+  });
+
+  it('identifies Chinese by its script', () => {
+    expect(detectLanguage(CHINESE)).toEqual({ language: 'zh', confidence: 1 });
+  });
+
+  it('gives up on text too short or without known words', () => {
+    expect(detectLanguage('RM')).toBeUndefined();
+    expect(detectLanguage('Xqzt Brwl Mnpk')).toBeUndefined();
+  });
+});
+
+describe('detectDocumentLanguages', () => {
+  it('reports a second language that makes up much of the document', () => {
+    const info = detectDocumentLanguages([ENGLISH, MALAY, ENGLISH].join('\n'));
+
+    expect(info?.primary).toBe('en');
+    expect(info?.mixed).toBe(true);
+    expect(info?.paragraphs.map((paragraph) => paragraph.language)).toEqual(['en', 'ms', 'en']);
+    expect(getSignificantLanguages(info)).toEqual(['en', 'ms']);
+  });
+
+  it('returns undefined when no paragraph can be identified', () => {
+    expect(detectDocumentLanguages('12\n34\n')).toBeUndefined();
+  });
+});
+
+describe('OCR language packs', () => {
+  it('always adds English to the detected languages', () => {
+    expect(getOCRLanguageFor(['zh'])).toBe('chi_sim+eng');
+    expect(getOCRLanguageFor(['ms', 'en'])).toBe('msa+eng');
+    expect(getOCRLanguageFor(['ta'])).toBe('eng');
+  });
+
+  it('checks whether a language string covers a language', () => {
+    expect(hasOCRPackFor('ms', 'eng+msa')).toBe(true);
+    expect(hasOCRPackFor('zh', 'eng+msa')).toBe(false);
+    expect(hasOCRPackFor('ta', 'eng+msa')).toBe(false);
+  });
+});
+
+describe('getUnsupportedLanguageWarning', () => {
+  it('warns only when most of the document is in an unsupported language', () => {
+    const tamil = detectDocumentLanguages('வாடகைதாரர் ஒவ்வொரு மாதமும் வாடகை செலுத்த வேண்டும்');
+
+    expect(getUnsupportedLanguageWarning(tamil)).toContain('Tamil');
+    expect(getUnsupportedLanguageWarning(detectDocumentLanguages(ENGLISH))).toBeUndefined();
+  });
+});
@@ -0,0 +1,191 @@
+// Offline language identification for contracts in English, Bahasa Malaysia and Chinese
+
+export type DetectedLanguage = 'en' | 'ms' | 'zh' | 'ta' | 'other';
+
+export const LANGUAGE_NAMES: Record<DetectedLanguage, string> = {
+  en: 'English',
+  ms: 'Bahasa Malaysia',
+  zh: 'Chinese',
+  ta: 'Tamil',
+  other: 'another language',
+};
+
+// Languages the document analysis prompts are written for
+export const ANALYSIS_LANGUAGES: DetectedLanguage[] = ['en', 'ms', 'zh'];
+
+// Tesseract language packs per language; English is always included for names, addresses and defined terms
+const OCR_LANGUAGES: Partial<Record<DetectedLanguage, string>> = {
+  en: 'eng',
+  ms: 'msa',
+  zh: 'chi_sim',
+};
+
+export interface LanguageDetection {
+  language: DetectedLanguage;
+  confidence: number; // 0-1, share of the evidence that points to this language
+}
+
+export interface ParagraphLanguage extends LanguageDetection {
+  start: number; // Inclusive character offset into the text
+  end: number; // Exclusive character offset into the text
+}
+
+export interface DocumentLanguageInfo {
+  primary: DetectedLanguage;
+  proportions: Partial<Record<DetectedLanguage, number>>; // Share of identified text per language, 0-1
+  mixed: boolean; // A second language makes up a substantial part of the document
+  paragraphs: ParagraphLanguage[]; // Paragraphs with too little text to identify are left out
+}
+
+// A second language above this share makes a document mixed
+const MIXED_LANGUAGE_SHARE = 0.2;
+
+// A Chinese character carries about as much as three Latin letters
+const HAN_WEIGHT = 3;
+
+// Frequent function words and contract vocabulary; words common to both languages are left out
+const ENGLISH_WORDS = new Set([
+  'the', 'and', 'of', 'to', 'in', 'shall', 'be', 'is', 'that', 'by', 'this', 'for', 'with', 'or', 'any',
+  'as', 'on', 'such', 'which', 'are', 'not', 'will', 'from', 'at', 'it', 'all', 'been', 'has', 'have',
+  'hereby', 'herein', 'thereof', 'whereas', 'agreement', 'party', 'parties', 'tenant', 'landlord', 'said',
+  'upon', 'under', 'within', 'may', 'must', 'other', 'than', 'if', 'no', 'an', 'its', 'their', 'where',
+  'whom', 'who', 'date', 'day', 'month', 'year', 'payment', 'rent', 'notice', 'terms', 'between',
+]);
+
+const MALAY_WORDS = new Set([
+  'yang', 'dan', 'di', 'untuk', 'dengan', 'ini', 'itu', 'dalam', 'kepada', 'pada', 'oleh', 'tidak', 'akan',
+  'adalah', 'atau', 'dari', 'daripada', 'boleh', 'hendaklah', 'perjanjian', 'pihak', 'penyewa', 'tuan',
+  'sebarang', 'bagi', 'jika', 'mana', 'telah', 'sebagai', 'tersebut', 'ke', 'mereka', 'kami', 'anda',
+  'sewa', 'bayaran', 'tarikh', 'hari', 'bulan', 'tahun', 'notis', 'terma', 'antara', 'semua', 'mana-mana',
+  'bahawa', 'apabila', 'sekiranya', 'tanpa', 'secara', 'lain', 'setiap', 'dibayar', 'rumah', 'syarat',
+]);
+
+/**
+ * Identify the language of a piece of text
+ * Scripts decide Chinese and Tamil; Latin text is told apart by common English and Malay words
+ * @param text - Text to identify, e.g. one paragraph
+ * @returns Detected language, or undefined when there is too little text to tell
+ */
+export function detectLanguage(text: string): LanguageDetection | undefined {
+  // Letters only: Tamil vowel signs are combining marks, not letters
+  const han = countMatches(text, /(?=\p{L})\p{Script=Han}/gu);
+  const tamil = countMatches(text, /(?=\p{L})\p{Script=Tamil}/gu);
+  const latin = countMatches(text, /(?=\p{L})\p{Script=Latin}/gu);
+  const otherLetters = countMatches(text, /\p{L}/gu) - han - tamil - latin;
+
+  const scripts: Array<[DetectedLanguage | 'latin', number]> = [
+    ['zh', han * HAN_WEIGHT],
+    ['ta', tamil],
+    ['other', otherLetters],
+    ['latin', latin],
+  ];
+  const total = scripts.reduce((sum, [, count]) => sum + count, 0);
+  if (total < 4) return undefined;
+
+  const [script, count] = scripts.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  if (script !== 'latin') {
+    return { language: script, confidence: count / total };
+  }
+
+  let english = 0;
+  let malay = 0;
+  for (const word of text.toLowerCase().match(/\p{L}+(?:-\p{L}+)*/gu) || []) {
+    if (ENGLISH_WORDS.has(word)) english++;
+    if (MALAY_WORDS.has(word)) malay++;
+  }
+  if (english + malay === 0) return undefined;
+
+  return english >= malay
+    ? { language: 'en', confidence: english / (english + malay) }
+    : { language: 'ms', confidence: malay / (english + malay) };
+}
+
+/**
+ * Identify the languages of a document, paragraph by paragraph
+ * @param text - Document text
+ * @returns Primary language, share per language and paragraph languages, or undefined when none could be identified
+ */
+export function detectDocumentLanguages(text: string): DocumentLanguageInfo | undefined {
+  const paragraphs: ParagraphLanguage[] = [];
+  const lengths: Partial<Record<DetectedLanguage, number>> = {};
+
+  const paragraphPattern = /[^\n]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    const detection = detectLanguage(match[0]);
+    if (!detection) continue;
+
+    paragraphs.push({ ...detection, start: match.index, end: match.index + match[0].length });
+    const weight = detection.language === 'zh' ? HAN_WEIGHT : 1;
+    lengths[detection.language] = (lengths[detection.language] || 0) + match[0].length * weight;
+  }
+
+  const identified = Object.values(lengths).reduce((sum, length) => sum + length, 0);
+  if (identified === 0) return undefined;
+
+  const proportions: Partial<Record<DetectedLanguage, number>> = {};
+  for (const [language, length] of Object.entries(lengths) as Array<[DetectedLanguage, number]>) {
+    proportions[language] = length / identified;
+  }
+
+  const ranked = (Object.entries(proportions) as Array<[DetectedLanguage, number]>).sort((a, b) => b[1] - a[1]);
+  return {
+    primary: ranked[0][0],
+    proportions,
+    mixed: ranked.length > 1 && ranked[1][1] >= MIXED_LANGUAGE_SHARE,
+    paragraphs,
+  };
+}
+
+/**
+ * Languages that make up a substantial part of a document, most common first
+ * @param info - Document language info
+ * @returns The primary language, plus a second one for mixed documents
+ */
+export function getSignificantLanguages(info: DocumentLanguageInfo): DetectedLanguage[] {
+  return (Object.entries(info.proportions) as Array<[DetectedLanguage, number]>)
+    .filter(([language, share]) => language === info.primary || share >= MIXED_LANGUAGE_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .map(([language]) => language);
+}
+
+/**
+ * Pick Tesseract language packs for the languages found in a document
+ * @param languages - Detected languages, most common first
+ * @returns Tesseract language string, e.g. 'chi_sim+eng'
+ */
+export function getOCRLanguageFor(languages: DetectedLanguage[]): string {
+  const packs = languages
+    .map((language) => OCR_LANGUAGES[language])
+    .filter((pack): pack is string => !!pack);
+  return Array.from(new Set([...packs, 'eng'])).join('+');
+}
+
+/**
+ * Check whether a Tesseract language string includes the pack for a language
+ * @param language - Detected language
+ * @param ocrLanguage - Tesseract language string, e.g. 'eng+msa'
+ * @returns True when the pack is included; false for languages without a pack
+ */
+export function hasOCRPackFor(language: DetectedLanguage, ocrLanguage: string): boolean {
+  const pack = OCR_LANGUAGES[language];
+  return !!pack && ocrLanguage.split('+').includes(pack);
+}
+
+/**
+ * Warning for documents mostly written in a language the analysis doesn't handle well
+ * @param info - Document language info
+ * @returns Warning message, or undefined when the analysis supports the document's language
+ */
+export function getUnsupportedLanguageWarning(info: DocumentLanguageInfo): string | undefined {
+  const unsupportedShare = (Object.entries(info.proportions) as Array<[DetectedLanguage, number]>)
+    .filter(([language]) => !ANALYSIS_LANGUAGES.includes(language))
+    .reduce((sum, [, share]) => sum + share, 0);
+  if (unsupportedShare < 0.5) return undefined;
+
+  return `Most of this document appears to be in ${LANGUAGE_NAMES[info.primary]}, which the analysis does not handle well. Results may be incomplete.`;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length || 0;
+}
@@ -0,0 +1,125 @@
+import type { DocumentAnalysisResult } from '@/hooks/uploadedFileContext';
+import type { AnalysisTable } from './documentAnalysisService';
+import { AmplifyLLMProvider } from './amplifyLLMProvider';
+import { FixtureLLMProvider } from './fixtureLLMProvider';
+import { GatewayLLMProvider } from './gatewayLLMProvider';
+
+// Backends that answer analysis and chat requests, picked with VITE_LLM_PROVIDER
+export type LLMProviderName = 'gateway' | 'amplify' | 'fixture';
+
+export interface AnalysisRequest {
+  userQuestion?: string;
+  snippets: string[];
+  tables?: AnalysisTable[]; // Schedules and fee tables from the documents, as structured data
+}
+
+export interface ChatRequest {
+  userMessage: string;
+  legalText: string;
+  summarizedJson: DocumentAnalysisResult;
+}
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal; // Cancels the request, e.g. when the user leaves the page
+}
+
+export interface LLMStreamOptions extends LLMRequestOptions {
+  onDelta: (delta: string, text: string) => void; // Called with each new piece of the answer and the answer so far
+}
+
+/**
+ * A language model backend for document analysis and chat
+ * Providers only deal with transport; prompts are built and answers parsed by the services that use them
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Ask for an analysis of the documents
+   * @returns The model's answer, expected to be the analysis as JSON text
+   */
+  analyze(request: AnalysisRequest, options?: LLMRequestOptions): Promise<string>;
+
+  /**
+   * Ask a question about the documents
+   * @returns The model's answer as Markdown
+   */
+  chat(request: ChatRequest, options?: LLMRequestOptions): Promise<string>;
+
+  /**
+   * Ask a question about the documents, receiving the answer as it's written
+   * Providers that can't stream deliver the whole answer as one piece
+   * @returns The complete answer
+   */
+  streamChat(request: ChatRequest, options: LLMStreamOptions): Promise<string>;
+}
+
+// Chat completion envelope the gateway's Lambda functions wrap model answers in
+export interface ChatCompletionResponse {
+  answer: {
+    choices: Array<{
+      finish_reason: string;
+      index: number;
+      logprobs: null | object;
+      message: {
+        content: string;
+        refusal: null | string;
+        role: string;
+      };
+    }>;
+    created: number;
+    id: string;
+    model: string;
+    object: string;
+    service_tier: string;
+    usage: {
+      completion_tokens: number;
+      prompt_tokens: number;
+      total_tokens: number;
+    };
+  };
+}
+
+const DEFAULT_PROVIDER: LLMProviderName = 'gateway';
+const DEFAULT_GATEWAY_URL = 'https://f9jekjb575.execute-api.ap-southeast-1.amazonaws.com/devmhtwo';
+
+let currentProvider: LLMProvider | undefined;
+
+/**
+ * Get the provider configured for this build
+ * VITE_LLM_PROVIDER picks the backend ('gateway', 'amplify' or 'fixture'); VITE_LLM_GATEWAY_URL overrides the gateway stage URL
+ * @returns The shared provider instance
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!currentProvider) {
+    const name = import.meta.env.VITE_LLM_PROVIDER || DEFAULT_PROVIDER;
+    currentProvider = createLLMProvider(name);
+  }
+  return currentProvider;
+}
+
+/**
+ * Replace the shared provider, e.g. with the fixture provider while developing offline
+ * @param provider - Provider to use from now on; undefined goes back to the configured one
+ */
+export function setLLMProvider(provider: LLMProvider | undefined): void {
+  currentProvider = provider;
+}
+
+/**
+ * Create a provider by name
+ * @param name - Provider name from configuration
+ * @returns New provider instance
+ */
+export function createLLMProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'gateway':
+      return new GatewayLLMProvider(import.meta.env.VITE_LLM_GATEWAY_URL || DEFAULT_GATEWAY_URL);
+    case 'amplify':
+      return new AmplifyLLMProvider();
+    case 'fixture':
+      return new FixtureLLMProvider();
+    default:
+      throw new Error(`Unknown language model provider "${name}". Use gateway, amplify or fixture.`);
+  }
+}
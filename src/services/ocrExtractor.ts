@@ -1,16 +1,28 @@
-import { createWorker } from 'tesseract.js';
+import { Bbox, Block } from 'tesseract.js';
+import { detectLanguage, hasOCRPackFor } from './languageDetector';
+import { DEFAULT_OCR_LANGUAGE, recognizeWithPool } from './ocrWorkerPool';
+import { BoundingBox, TextSpan } from './sourceAnchors';
 
 export interface OCRExtractionOptions {
-  language?: string; // Language for OCR (default: 'eng')
+  language?: string; // Language for OCR (default: 'eng+msa')
   whiteList?: string; // Characters to recognize
   blackList?: string; // Characters to ignore
-  logger?: (info: { status: string; progress: number }) => void; // Progress callback
+  logger?: (info: { status: string; progress: number; page?: number }) => void; // Progress callback; page is set while OCR-ing PDF pages
+  signal?: AbortSignal; // Stops the recognition when aborted
+  fallbackLanguage?: string; // Retried when confidence is low and the text doesn't read as a language of the packs used
 }
 
+// Text in a script the language packs don't cover comes back as low-confidence noise
+const FALLBACK_CONFIDENCE_THRESHOLD = 60;
+// Below this detection confidence the OCR text may be noise that only looks like a covered language
+const LANGUAGE_CERTAINTY = 0.75;
+
 export interface OCRExtractionResult {
   text: string;
   confidence: number;
+  language?: string; // Tesseract language packs the text was read with
   processingTime: number; // Time taken in milliseconds
+  spans?: TextSpan[]; // Character ranges of `text` mapped to line and word boxes (image pixels)
 }
 
 /**
@@ -26,55 +38,118 @@ export async function extractTextFromImage(
   const startTime = Date.now();
   
   try {
-    // Create Tesseract worker
-    const worker = await createWorker(options.language || 'eng', undefined, {
-      logger: options.logger || (() => {}), // Default no-op logger
-    });
-
-    // Configure worker parameters
-    if (options.whiteList) {
-      await worker.setParameters({
-        tessedit_char_whitelist: options.whiteList,
-      });
-    }
-
-    if (options.blackList) {
-      await worker.setParameters({
-        tessedit_char_blacklist: options.blackList,
-      });
-    }
-
-    // Perform OCR
-    const { data } = await worker.recognize(file);
-
-    // Clean up worker
-    await worker.terminate();
+    // Perform OCR on the shared worker pool, keeping the block tree so text can be mapped back to word boxes
+    const { data } = await recognizeWithPool(file, options, { text: true, blocks: true });
 
     const processingTime = Date.now() - startTime;
 
     // Process results
+    const text = data.text.trim();
     const result: OCRExtractionResult = {
-      text: data.text.trim(),
+      text,
       confidence: data.confidence,
+      language: options.language || DEFAULT_OCR_LANGUAGE,
       processingTime,
+      spans: buildOCRSpans(text, data.blocks),
     };
 
+    // A poor scan read with the right packs is also low confidence; a second read only helps with the wrong packs
+    if (
+      options.fallbackLanguage &&
+      options.fallbackLanguage !== result.language &&
+      result.confidence < FALLBACK_CONFIDENCE_THRESHOLD &&
+      !isReadInLanguagePacks(result.text, result.language)
+    ) {
+      const fallback = await extractTextFromImage(file, {
+        ...options,
+        language: options.fallbackLanguage,
+        fallbackLanguage: undefined,
+      });
+      if (fallback.confidence > result.confidence) {
+        return { ...fallback, processingTime: Date.now() - startTime };
+      }
+    }
+
     return result;
   } catch (error) {
+    if (options.signal?.aborted) throw error; // Aborted by the caller, not a failure
     console.error('Error extracting text from image:', error);
     throw new Error(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Check whether OCR text reads clearly as a language whose pack was used to recognize it
+ * @param text - OCR text
+ * @param language - Tesseract language string the text was read with
+ * @returns False when the language is uncertain or has no pack in `language`
+ */
+function isReadInLanguagePacks(text: string, language: string): boolean {
+  const detection = detectLanguage(text);
+  return !!detection && detection.confidence >= LANGUAGE_CERTAINTY && hasOCRPackFor(detection.language, language);
+}
+
+/**
+ * Map recognised lines and their word boxes to character ranges of the OCR text
+ * @param text - Trimmed OCR text
+ * @param blocks - Tesseract block tree (blocks > paragraphs > lines > words)
+ * @returns Spans in text order, one per recognised line, with word offsets where found
+ */
+function buildOCRSpans(text: string, blocks: Block[] | null): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let cursor = 0;
+
+  for (const block of blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const lineText = line.text.trim();
+        if (!lineText) continue;
+
+        const start = text.indexOf(lineText, cursor);
+        if (start < 0) continue;
+
+        cursor = start + lineText.length;
+
+        // Words appear in the line text in order, so each search continues from the previous word
+        let wordCursor = start;
+        const words = line.words.map((word) => {
+          const wordStart = word.text ? text.indexOf(word.text, wordCursor) : -1;
+          const found = wordStart >= 0 && wordStart + word.text.length <= cursor;
+          if (found) wordCursor = wordStart + word.text.length;
+          return {
+            text: word.text,
+            bbox: toBoundingBox(word.bbox),
+            confidence: word.confidence,
+            ...(found && { start: wordStart, end: wordStart + word.text.length }),
+          };
+        });
+
+        spans.push({
+          start,
+          end: cursor,
+          bbox: toBoundingBox(line.bbox),
+          words,
+        });
+      }
+    }
+  }
+
+  return spans;
+}
+
+function toBoundingBox(bbox: Bbox): BoundingBox {
+  return { x: bbox.x0, y: bbox.y0, width: bbox.x1 - bbox.x0, height: bbox.y1 - bbox.y0 };
+}
+
 /**
  * Extract plain text only from an image file
  * @param file - Image file to extract text from
- * @param language - Language for OCR (default: 'eng')
+ * @param language - Language for OCR (default: 'eng+msa')
  * @returns Promise containing extracted text
  */
 export async function extractPlainTextFromImage(
   file: File,
-  language: string = 'eng'
+  language: string = DEFAULT_OCR_LANGUAGE
 ): Promise<string> {
   const result = await extractTextFromImage(file, { language });
   return result.text;
@@ -83,12 +158,12 @@ export async function extractPlainTextFromImage(
 /**
  * Extract text from an image with high accuracy settings
  * @param file - Image file to extract text from
- * @param language - Language for OCR (default: 'eng')
+ * @param language - Language for OCR (default: 'eng+msa')
  * @returns Promise containing extracted text and confidence
  */
 export async function extractTextFromImageHighAccuracy(
   file: File,
-  language: string = 'eng'
+  language: string = DEFAULT_OCR_LANGUAGE
 ): Promise<{ text: string; confidence: number }> {
   const result = await extractTextFromImage(file, {
     language,
@@ -110,24 +185,20 @@ export async function extractTextFromMultipleImages(
   files: File[],
   options: OCRExtractionOptions = {}
 ): Promise<OCRExtractionResult[]> {
-  const results: OCRExtractionResult[] = [];
-  
-  for (const file of files) {
+  // Jobs queue on the shared pool, which caps how many images are recognized at once
+  return Promise.all(files.map(async (file) => {
     try {
-      const result = await extractTextFromImage(file, options);
-      results.push(result);
+      return await extractTextFromImage(file, options);
     } catch (error) {
       console.error(`Error processing file ${file.name}:`, error);
       // Continue with other files even if one fails
-      results.push({
+      return {
         text: '',
         confidence: 0,
         processingTime: 0,
-      });
+      };
     }
-  }
-  
-  return results;
+  }));
 }
 
 /**
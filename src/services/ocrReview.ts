@@ -0,0 +1,132 @@
+import { renderPDFPagesToImages } from './pdfExtractor';
+import { OCR_PAGE_SCALE } from './scannedPdfExtractor';
+import { BoundingBox, SourceAnchor } from './sourceAnchors';
+
+// Words Tesseract is less sure of than this (0-100) are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+export interface LowConfidenceWord {
+  text: string;
+  start: number; // Inclusive character offset into the extracted text
+  end: number; // Exclusive character offset into the extracted text
+  confidence: number;
+  bbox: BoundingBox; // Position in the OCR source image
+  page?: number; // 1-indexed page for scanned PDFs
+  fileName: string;
+}
+
+/**
+ * Collect OCR words below a confidence threshold, in text order
+ * Words without letters or digits (stray punctuation) are left out
+ * @param anchors - Anchors of an extraction result
+ * @param threshold - Confidence below which a word is flagged
+ * @returns Flagged words with their offsets and source boxes
+ */
+export function findLowConfidenceWords(
+  anchors: SourceAnchor[] | undefined,
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): LowConfidenceWord[] {
+  const words: LowConfidenceWord[] = [];
+
+  for (const anchor of anchors || []) {
+    for (const word of anchor.words || []) {
+      if (word.start === undefined || word.end === undefined) continue;
+      if (word.confidence >= threshold || !/[\p{L}\p{N}]/u.test(word.text)) continue;
+
+      words.push({
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        confidence: word.confidence,
+        bbox: word.bbox,
+        page: anchor.page,
+        fileName: anchor.fileName,
+      });
+    }
+  }
+
+  return words.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find where a flagged word sits in text that may have been edited since extraction
+ * @param text - Current text
+ * @param word - Flagged word with offsets into the original text
+ * @param lengthChange - Current text length minus original text length
+ * @returns The nearest unchanged occurrence of the word, or undefined once it has been corrected
+ */
+export function relocateWord(
+  text: string,
+  word: LowConfidenceWord,
+  lengthChange: number
+): { start: number; end: number } | undefined {
+  if (text.slice(word.start, word.end) === word.text) {
+    return { start: word.start, end: word.end };
+  }
+
+  // Edits before the word move it by at most the overall change in length
+  const reach = Math.abs(lengthChange) + word.text.length;
+  const from = Math.max(0, word.start - reach);
+  const to = Math.min(text.length, word.end + reach);
+
+  let best: number | undefined;
+  for (let index = text.indexOf(word.text, from); index >= 0 && index + word.text.length <= to; index = text.indexOf(word.text, index + 1)) {
+    if (best === undefined || Math.abs(index - word.start) < Math.abs(best - word.start)) {
+      best = index;
+    }
+  }
+
+  return best === undefined ? undefined : { start: best, end: best + word.text.length };
+}
+
+/**
+ * Get the image that OCR word boxes refer to
+ * @param file - Original uploaded file
+ * @param page - Page of a scanned PDF, rendered at the scale used for OCR
+ * @param ocrImage - Image recognized for image uploads (preprocessed when preprocessing ran)
+ * @returns Promise containing the source image
+ */
+export async function getOCRSourceImage(file: File, page?: number, ocrImage?: File): Promise<Blob> {
+  if (page !== undefined) {
+    const [rendered] = await renderPDFPagesToImages(file, [page], OCR_PAGE_SCALE);
+    if (!rendered) {
+      throw new Error(`Page ${page} could not be rendered`);
+    }
+    return rendered.image;
+  }
+  return ocrImage || file;
+}
+
+/**
+ * Crop a region of an image, with some surrounding context
+ * @param image - Source image
+ * @param bbox - Region to crop, in image pixels
+ * @param padding - Extra pixels kept around the region
+ * @returns Promise containing the cropped region as a PNG data URL
+ */
+export async function cropImageRegion(image: Blob, bbox: BoundingBox, padding: number = 12): Promise<string> {
+  const bitmap = await createImageBitmap(image);
+
+  try {
+    const x = Math.max(0, Math.floor(bbox.x - padding));
+    const y = Math.max(0, Math.floor(bbox.y - padding));
+    const width = Math.min(bitmap.width, Math.ceil(bbox.x + bbox.width + padding)) - x;
+    const height = Math.min(bitmap.height, Math.ceil(bbox.y + bbox.height + padding)) - y;
+    if (width <= 0 || height <= 0) {
+      throw new Error('Word box lies outside the image');
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+
+    ctx.drawImage(bitmap, x, y, width, height, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,180 @@
+import { createScheduler, createWorker, OEM, RecognizeResult, Scheduler, Worker } from 'tesseract.js';
+
+export const DEFAULT_OCR_LANGUAGE = 'eng+msa';
+
+// Language packs copied from @tesseract.js-data/* into the build by vite.config.ts
+export const OCR_LANG_PATH = 'tesseract/lang';
+
+export interface OCRJobOptions {
+  language?: string; // Tesseract language string, e.g. 'eng+msa'
+  whiteList?: string; // Characters to recognize
+  blackList?: string; // Characters to ignore
+  logger?: (info: { status: string; progress: number }) => void; // Progress callback for this job only
+  signal?: AbortSignal; // Rejects the job when aborted; its workers are terminated if no other job is using them
+}
+
+type RecognizeOutput = Parameters<Worker['recognize']>[2];
+
+interface WorkerPool {
+  key: string; // Entry in pools
+  language: string;
+  scheduler: Scheduler;
+  workerCount: number; // Includes workers still loading
+  activeJobs: number;
+  ready: Promise<void>[]; // Loading workers; the first one must finish before jobs can be queued
+}
+
+const pools = new Map<string, WorkerPool>();
+const jobLoggers = new Map<string, OCRJobOptions['logger']>();
+// Maximum workers per language pool: CPU cores - 1, capped at 4
+const concurrency = getDefaultConcurrency();
+let jobCounter = 0;
+
+/**
+ * Recognize an image on a pooled Tesseract worker
+ * Workers are created lazily, one per queued job, up to the pool concurrency
+ * @param image - Image to recognize
+ * @param options - Language, character lists and progress logger for this job
+ * @param output - Tesseract output formats to return
+ * @returns Promise containing the Tesseract recognition result
+ */
+export async function recognizeWithPool(
+  image: File | Blob | string,
+  options: OCRJobOptions = {},
+  output: RecognizeOutput = { text: true }
+): Promise<RecognizeResult> {
+  options.signal?.throwIfAborted();
+
+  const pool = getPool(options);
+  const jobId = `ocr-job-${++jobCounter}`;
+
+  if (options.logger) jobLoggers.set(jobId, options.logger);
+  pool.activeJobs++;
+
+  try {
+    if (pool.activeJobs > pool.workerCount && pool.workerCount < concurrency) {
+      addWorker(pool, options);
+    }
+
+    // The scheduler rejects jobs until at least one worker has been added
+    if (pool.scheduler.getNumWorkers() === 0) {
+      await Promise.race(pool.ready);
+    }
+
+    return await whileNotAborted(pool, pool.scheduler.addJob('recognize', image, {}, output, jobId), options.signal);
+  } finally {
+    pool.activeJobs--;
+    jobLoggers.delete(jobId);
+  }
+}
+
+/**
+ * Terminate every pooled worker and free its memory
+ * @returns Promise that resolves once all schedulers are terminated
+ */
+export async function terminateOCRPool(): Promise<void> {
+  const existing = Array.from(pools.values());
+  pools.clear();
+
+  await Promise.all(existing.map(terminatePool));
+}
+
+/**
+ * Get the maximum number of concurrent OCR workers per language
+ * @returns Configured concurrency
+ */
+export function getOCRPoolConcurrency(): number {
+  return concurrency;
+}
+
+function getPool(options: OCRJobOptions): WorkerPool {
+  const language = options.language || DEFAULT_OCR_LANGUAGE;
+  // Character lists are worker parameters, so each combination needs its own workers
+  const key = [language, options.whiteList || '', options.blackList || ''].join('\u0000');
+
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = {
+      key,
+      language,
+      scheduler: createScheduler(),
+      workerCount: 0,
+      activeJobs: 0,
+      ready: [],
+    };
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+/**
+ * Settle a pooled job early when its signal aborts
+ * Tesseract can't cancel a single job, so the pool is terminated to stop the recognition only when
+ * no other job is using it; otherwise the job finishes in the background and its result is dropped
+ */
+function whileNotAborted<T>(pool: WorkerPool, job: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return job;
+
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      if (pool.activeJobs === 1 && pools.get(pool.key) === pool) {
+        pools.delete(pool.key);
+        terminatePool(pool).catch((error) => console.error(`Error terminating OCR workers for ${pool.language}:`, error));
+      }
+      reject(signal.reason);
+    };
+
+    signal.addEventListener('abort', handleAbort, { once: true });
+    job.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+}
+
+async function terminatePool(pool: WorkerPool): Promise<void> {
+  // Let loading workers finish joining the scheduler so they are terminated with it
+  await Promise.allSettled(pool.ready);
+  await pool.scheduler.terminate();
+}
+
+function addWorker(pool: WorkerPool, options: OCRJobOptions): void {
+  pool.workerCount++;
+
+  const ready = (async () => {
+    try {
+      const worker = await createWorker(pool.language, OEM.LSTM_ONLY, {
+        langPath: resolveLangPath(),
+        logger: (message) => {
+          const logger = message.userJobId ? jobLoggers.get(message.userJobId) : undefined;
+          logger?.({ status: message.status, progress: message.progress });
+        },
+      });
+
+      if (options.whiteList || options.blackList) {
+        await worker.setParameters({
+          ...(options.whiteList && { tessedit_char_whitelist: options.whiteList }),
+          ...(options.blackList && { tessedit_char_blacklist: options.blackList }),
+        });
+      }
+
+      pool.scheduler.addWorker(worker);
+    } catch (error) {
+      pool.workerCount--;
+      pool.ready = pool.ready.filter((pending) => pending !== ready);
+      console.error(`Error starting OCR worker for ${pool.language}:`, error);
+      throw new Error(`Failed to start OCR worker: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  })();
+
+  // Failures surface through the job that is waiting on this worker
+  ready.catch(() => {});
+  pool.ready.push(ready);
+}
+
+function resolveLangPath(): string {
+  // Tesseract fetches language data from inside its own worker, so the URL must be absolute
+  return new URL(`${import.meta.env.BASE_URL}${OCR_LANG_PATH}`, self.location.href).href; // self also works inside the extraction worker
+}
+
+function getDefaultConcurrency(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.min(4, Math.max(1, cores - 1));
+}
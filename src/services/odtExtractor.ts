@@ -0,0 +1,166 @@
+import JSZip from 'jszip';
+import { buildParagraphSpans, TextSpan } from './sourceAnchors';
+import { childElements, ELEMENT_NODE, parseXML, TEXT_NODE } from './xml';
+
+export interface OdtExtractionOptions {
+  ignoreEmptyParagraphs?: boolean; // Skip empty paragraphs
+  includeNotes?: boolean; // Include footnote and endnote bodies inline
+}
+
+export interface OdtExtractionResult {
+  text: string;
+  spans?: TextSpan[]; // Character ranges of `text` mapped to paragraph index
+  metadata?: {
+    title?: string;
+    wordCount: number;
+    paragraphCount: number;
+    tableCount: number;
+  };
+}
+
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+
+/**
+ * Extract text from an OpenDocument Text (.odt) file
+ * @param file - ODT file to extract text from
+ * @param options - Extraction options
+ * @returns Promise containing extracted text and metadata
+ */
+export async function extractTextFromODT(
+  file: File,
+  options: OdtExtractionOptions = {}
+): Promise<OdtExtractionResult> {
+  try {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const contentFile = zip.file('content.xml');
+    if (!contentFile) {
+      throw new Error('content.xml not found in ODT package');
+    }
+
+    const content = parseXML(await contentFile.async('string'));
+    if (!content) {
+      throw new Error('content.xml is not well-formed XML');
+    }
+
+    const body = content.getElementsByTagNameNS(OFFICE_NS, 'text')[0];
+    if (!body) {
+      throw new Error('Document has no text body');
+    }
+
+    const paragraphs: string[] = [];
+    collectBlocks(body, paragraphs, options);
+
+    let processedText = paragraphs.join('\n');
+    if (options.ignoreEmptyParagraphs) {
+      processedText = processedText
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .join('\n');
+    }
+    processedText = processedText.trim();
+
+    // Title from meta.xml, when present
+    let title: string | undefined;
+    const metaFile = zip.file('meta.xml');
+    if (metaFile) {
+      const meta = parseXML(await metaFile.async('string'));
+      title = meta?.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', 'title')[0]?.textContent || undefined;
+    }
+
+    const wordCount = processedText.split(/\s+/).filter(word => word.length > 0).length;
+    const paragraphCount = processedText.split('\n').filter(para => para.trim().length > 0).length;
+
+    return {
+      text: processedText,
+      spans: buildParagraphSpans(processedText),
+      metadata: {
+        title,
+        wordCount,
+        paragraphCount,
+        tableCount: body.getElementsByTagNameNS(TABLE_NS, 'table').length,
+      },
+    };
+  } catch (error) {
+    console.error('Error extracting text from ODT:', error);
+    throw new Error(`Failed to extract text from ODT: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Walk block-level elements, appending one line per paragraph or heading and one per table row
+ */
+function collectBlocks(element: Element, paragraphs: string[], options: OdtExtractionOptions): void {
+  for (const child of childElements(element)) {
+    if (child.namespaceURI === TEXT_NS && (child.localName === 'p' || child.localName === 'h')) {
+      paragraphs.push(collectInline(child, options));
+    } else if (child.namespaceURI === TABLE_NS && child.localName === 'table-row') {
+      const cells = childElements(child)
+        .filter(cell => cell.namespaceURI === TABLE_NS && cell.localName === 'table-cell')
+        .map(cell => {
+          const cellParagraphs: string[] = [];
+          collectBlocks(cell, cellParagraphs, options);
+          return cellParagraphs.join(' ').trim();
+        });
+      paragraphs.push(cells.join('\t'));
+    } else if (child.namespaceURI === TEXT_NS && child.localName === 'tracked-changes') {
+      // Deleted text is kept here for change tracking; it is not part of the document
+      continue;
+    } else {
+      collectBlocks(child, paragraphs, options);
+    }
+  }
+}
+
+/**
+ * Collect the inline text of a paragraph, expanding spaces, tabs and line breaks
+ */
+function collectInline(element: Element, options: OdtExtractionOptions): string {
+  let text = '';
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === TEXT_NODE) {
+      text += node.textContent || '';
+      continue;
+    }
+    if (node.nodeType !== ELEMENT_NODE) continue;
+
+    const child = node as Element;
+    if (child.namespaceURI !== TEXT_NS) {
+      text += collectInline(child, options);
+      continue;
+    }
+
+    switch (child.localName) {
+      case 's':
+        text += ' '.repeat(parseInt(child.getAttributeNS(TEXT_NS, 'c') || '1', 10) || 1);
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'line-break':
+        text += '\n';
+        break;
+      case 'note':
+        if (options.includeNotes) {
+          const citation = child.getElementsByTagNameNS(TEXT_NS, 'note-citation')[0]?.textContent || '';
+          const noteBody = child.getElementsByTagNameNS(TEXT_NS, 'note-body')[0];
+          const noteParagraphs: string[] = [];
+          if (noteBody) collectBlocks(noteBody, noteParagraphs, options);
+          text += ` [${citation}: ${noteParagraphs.join(' ').trim()}]`;
+        }
+        break;
+      case 'annotation':
+      case 'bookmark':
+      case 'bookmark-start':
+      case 'bookmark-end':
+      case 'change':
+      case 'change-start':
+      case 'change-end':
+        break;
+      default:
+        text += collectInline(child, options);
+    }
+  }
+  return text;
+}
@@ -0,0 +1,56 @@
+// Page ranges typed by the user, e.g. "1-12, 15, 20-" to skip annexures at the end of a loan bundle
+
+/**
+ * Parse a page range expression into page numbers
+ * Accepts single pages, ranges and open ranges ("20-" runs to the last page), separated by commas or spaces
+ * @param input - Range expression, e.g. "1-12, 15"
+ * @param pageCount - Number of pages in the PDF
+ * @returns Selected page numbers, ascending and without duplicates
+ */
+export function parsePageRanges(input: string, pageCount: number): number[] {
+  const selected = new Set<number>();
+  const parts = input.split(/[,;\s]+/).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Enter the pages to extract, e.g. 1-12, 15');
+  }
+
+  for (const part of parts) {
+    const match = /^(\d+)?(?:\s*[-–]\s*(\d+)?)?$/.exec(part);
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`"${part}" is not a page or page range`);
+    }
+
+    const isRange = part.includes('-') || part.includes('–');
+    const first = match[1] ? Number(match[1]) : 1;
+    const last = isRange ? (match[2] ? Number(match[2]) : pageCount) : first;
+
+    if (first < 1 || last > pageCount) {
+      throw new Error(`Page ${first < 1 ? first : last} is outside this document (pages 1-${pageCount})`);
+    }
+    if (first > last) {
+      throw new Error(`"${part}" runs backwards`);
+    }
+
+    for (let page = first; page <= last; page++) selected.add(page);
+  }
+
+  return Array.from(selected).sort((a, b) => a - b);
+}
+
+/**
+ * Describe page numbers as compact ranges, e.g. "1-12, 15"
+ * @param pageNumbers - Page numbers in any order
+ * @returns Range expression that parsePageRanges reads back
+ */
+export function formatPageRanges(pageNumbers: number[]): string {
+  const sorted = Array.from(new Set(pageNumbers)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const first = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(first === sorted[i] ? `${first}` : `${first}-${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+}
@@ -1,5 +1,18 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { canvasToBlob, createCanvas, getContext2D } from './canvas';
+import { reconstructPageLayout } from './pdfLayout';
+import { extractPDFTables } from './pdfTables';
+import { joinTextWithSpans, TextSpan } from './sourceAnchors';
+import type { ExtractedTable } from './tables';
+import {
+  extractPDFAnnotations,
+  extractPDFFormFields,
+  extractPDFSignatures,
+  PdfAnnotation,
+  PdfFormField,
+  PdfSignature,
+} from './pdfForms';
 
 // Set up the worker for PDF.js using modern import.meta.url
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -19,14 +32,118 @@ interface PDFInfoObject {
   [key: string]: unknown;
 }
 
+// Pages with less text than this are treated as scanned images
+const MIN_TEXT_LAYER_LENGTH = 20;
+
+// Pages read at the same time; bounded so memory stays flat on bundles of hundreds of pages
+const PAGE_BATCH_SIZE = 8;
+
+// Width in pixels of page previews
+const THUMBNAIL_WIDTH = 120;
+
+// Pages checked for a text layer by getPDFInfo, spread from the first to the last page
+const TEXT_SAMPLE_PAGES = 3;
+
+export interface PdfThumbnailOptions {
+  width?: number; // Thumbnail width in pixels (default: 120)
+  password?: string; // Password for encrypted PDFs
+  signal?: AbortSignal; // Stops rendering, e.g. when the page picker closes
+  onThumbnail?: (pageNumber: number, image: Blob) => void; // Called as each page has been rendered
+}
+
+// Why an encrypted PDF could not be opened
+export type PdfPasswordReason = 'needed' | 'incorrect';
+
+/**
+ * Thrown when a PDF is encrypted and no password, or the wrong one, was given
+ */
+export class PdfPasswordRequiredError extends Error {
+  readonly reason: PdfPasswordReason;
+
+  constructor(reason: PdfPasswordReason) {
+    super(reason === 'incorrect' ? 'Incorrect password for encrypted PDF' : 'PDF is password protected');
+    this.name = 'PdfPasswordRequiredError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * PDF.js canvas factory for contexts without a DOM, such as the extraction worker
+ * PDF.js constructs it itself and only calls these three methods
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+/**
+ * Open a PDF with PDF.js, reporting encrypted files as PdfPasswordRequiredError
+ * @param data - PDF bytes; PDF.js takes ownership of the buffer
+ * @param password - User password for encrypted PDFs
+ * @returns Promise containing the loaded document
+ */
+async function loadPDFDocument(data: ArrayBuffer, password?: string) {
+  try {
+    // Without a DOM, draw on OffscreenCanvas and paint glyphs as paths instead of loading font faces
+    const workerOptions = typeof document === 'undefined'
+      ? { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true }
+      : {};
+    return await pdfjsLib.getDocument({ data, password, ...workerOptions }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      const code = (error as Error & { code?: number }).code;
+      throw new PdfPasswordRequiredError(
+        code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'needed'
+      );
+    }
+    throw error;
+  }
+}
+
 export interface PdfExtractionOptions {
   pageNumbers?: number[]; // Extract text from specific pages only
   includeMetadata?: boolean; // Include PDF metadata in the result
+  layout?: boolean; // Rebuild lines, paragraphs, headings and columns from item positions
+  includeForms?: boolean; // Read form fields, annotations and signatures (default: true)
+  detectTables?: boolean; // Find tables from ruling lines and aligned text positions (default: true)
+  password?: string; // Password for encrypted PDFs; only held for the duration of the call
+  onPage?: (pageNumber: number, completed: number, total: number) => void; // Called as each page's text has been read
+  signal?: AbortSignal; // Stops reading before the next page when aborted
+}
+
+// Text layer of one extracted page
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+  start: number; // Offset of the page's text in the combined result text
+  hasTextLayer: boolean; // False for scanned pages that need OCR
 }
 
 export interface PdfExtractionResult {
   text: string;
   pageCount: number;
+  spans?: TextSpan[]; // Character ranges of `text` mapped to page number and bounding box
+  pages?: PdfPageText[];
+  formFields?: PdfFormField[]; // AcroForm fields with their values
+  annotations?: PdfAnnotation[]; // Sticky notes, highlights and other reviewer markup
+  signatures?: PdfSignature[]; // Digital signature dictionaries
+  tables?: ExtractedTable[]; // Tables found on the extracted pages, in page order
   metadata?: {
     title?: string;
     author?: string;
@@ -48,10 +165,10 @@ export async function extractTextFromPDF(
   file: File,
   options: PdfExtractionOptions = {}
 ): Promise<PdfExtractionResult> {
+  let pdf: Awaited<ReturnType<typeof loadPDFDocument>> | undefined;
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
+    pdf = await loadPDFDocument(arrayBuffer, options.password);
     
     const result: PdfExtractionResult = {
       text: '',
@@ -81,38 +198,119 @@ export async function extractTextFromPDF(
 
     // Determine which pages to extract
     const pagesToExtract = options.pageNumbers || Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+    // Forms, annotations and signatures; failures here should not lose the text
+    if (options.includeForms !== false) {
+      try {
+        result.formFields = await extractPDFFormFields(pdf);
+        result.annotations = await extractPDFAnnotations(pdf, pagesToExtract);
+        // The loading task took ownership of arrayBuffer, so read the bytes again
+        result.signatures = extractPDFSignatures(
+          new Uint8Array(await file.arrayBuffer()),
+          result.formFields.filter((field) => field.type === 'signature')
+        );
+      } catch (formsError) {
+        console.warn('Failed to extract PDF forms and signatures:', formsError);
+      }
+    }
     
     // Extract text from each page
-    const textPromises = pagesToExtract.map(async (pageNum) => {
+    const readPageText = async (pageNum: number): Promise<{ text: string; spans: TextSpan[]; tables?: ExtractedTable[] }> => {
       if (pageNum < 1 || pageNum > pdf.numPages) {
         console.warn(`Page ${pageNum} is out of range. PDF has ${pdf.numPages} pages.`);
-        return '';
+        return { text: '', spans: [] };
       }
 
       try {
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
+        const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+        const { width, height } = page.getViewport({ scale: 1 });
+
+        // A table that can't be read shouldn't lose the page's text
+        let tables: ExtractedTable[] | undefined;
+        if (options.detectTables !== false) {
+          tables = await extractPDFTables(page, items, pageNum).catch((tableError) => {
+            console.warn(`Failed to detect tables on page ${pageNum}:`, tableError);
+            return undefined;
+          });
+        }
+        page.cleanup();
+
+        // Keep the page structure (clause numbering, indentation, columns) when requested
+        if (options.layout) {
+          const layout = reconstructPageLayout(items, width);
+          return {
+            text: layout.text,
+            tables,
+            spans: layout.lines.map((line) => ({
+              start: line.start,
+              end: line.end,
+              page: pageNum,
+              bbox: { x: line.x, y: height - line.y - line.height, width: line.width, height: line.height },
+            })),
+          };
+        }
         
         // Extract text items and join them (like in working example)
-        const textItems = textContent.items
-          .filter((item): item is TextItem => 'str' in item)
+        const textItems = items
           .map((item) => item.str)
           .join(' ');
+
+        const spans: TextSpan[] = [];
+        let offset = 0;
+        for (const item of items) {
+          if (item.str.length > 0) {
+            const [, , , , x, y] = item.transform;
+            spans.push({
+              start: offset,
+              end: offset + item.str.length,
+              page: pageNum,
+              bbox: { x, y: height - y - item.height, width: item.width, height: item.height },
+            });
+          }
+          offset += item.str.length + 1;
+        }
         
-        return textItems;
+        return { text: textItems, spans, tables };
       } catch (pageError) {
         console.error(`Error extracting text from page ${pageNum}:`, pageError);
-        return '';
+        return { text: '', spans: [] };
       }
-    });
+    };
 
-    const pageTexts = await Promise.all(textPromises);
-    result.text = pageTexts.join('\n\n').trim();
+    let completedPages = 0;
+    const pages: Array<{ text: string; spans: TextSpan[]; tables?: ExtractedTable[] }> = [];
+    for (let batchStart = 0; batchStart < pagesToExtract.length; batchStart += PAGE_BATCH_SIZE) {
+      options.signal?.throwIfAborted();
+      const batch = pagesToExtract.slice(batchStart, batchStart + PAGE_BATCH_SIZE);
+      pages.push(...await Promise.all(batch.map(async (pageNum) => {
+        const pageText = await readPageText(pageNum);
+        options.onPage?.(pageNum, ++completedPages, pagesToExtract.length);
+        return pageText;
+      })));
+    }
+    const joined = joinTextWithSpans(pages, '\n\n');
+    result.text = joined.text;
+    result.spans = joined.spans;
+    result.pages = pagesToExtract.map((pageNumber, index) => ({
+      pageNumber,
+      text: pages[index].text,
+      start: joined.starts[index],
+      hasTextLayer: pages[index].text.trim().length >= MIN_TEXT_LAYER_LENGTH,
+    }));
+    if (options.detectTables !== false) {
+      result.tables = pages.flatMap((page) => page.tables || []).map((table, index) => ({ ...table, index }));
+    }
 
     return result;
   } catch (error) {
+    if (error instanceof PdfPasswordRequiredError) throw error; // Callers prompt for the password
+    if (options.signal?.aborted) throw error; // Aborted by the caller, not a failure
     console.error('Error extracting text from PDF:', error);
     throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    await pdf?.destroy();
   }
 }
 
@@ -130,29 +328,170 @@ export async function extractTextFromPDFPages(
   return result.text;
 }
 
+/**
+ * Render PDF pages to PNG images, e.g. to OCR scanned pages that have no text layer
+ * @param file - PDF file to render
+ * @param pageNumbers - Pages to render (1-indexed)
+ * @param scale - Render scale; 2 gives roughly 150 DPI, which suits Tesseract
+ * @param password - Password for encrypted PDFs
+ * @returns Promise containing one PNG blob per rendered page
+ */
+export async function renderPDFPagesToImages(
+  file: File,
+  pageNumbers: number[],
+  scale: number = 2,
+  password?: string
+): Promise<Array<{ pageNumber: number; image: Blob }>> {
+  const images: Array<{ pageNumber: number; image: Blob }> = [];
+  for await (const rendered of renderPDFPages(file, pageNumbers, scale, password)) {
+    images.push(rendered);
+  }
+  return images;
+}
+
+/**
+ * Render PDF pages to PNG images one at a time, opening the document once
+ * Each page is rendered only when the caller asks for the next one, so work such as OCR can run
+ * between pages while a single canvas is held in memory
+ * @param file - PDF file to render
+ * @param pageNumbers - Pages to render (1-indexed)
+ * @param scale - Render scale; 2 gives roughly 150 DPI, which suits Tesseract
+ * @param password - Password for encrypted PDFs
+ * @param signal - Stops rendering before the next page when aborted
+ * @returns Async iterator of rendered pages; the document is closed when iteration ends or stops early
+ */
+export async function* renderPDFPages(
+  file: File,
+  pageNumbers: number[],
+  scale: number = 2,
+  password?: string,
+  signal?: AbortSignal
+): AsyncGenerator<{ pageNumber: number; image: Blob }> {
+  let pdf: Awaited<ReturnType<typeof loadPDFDocument>>;
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    pdf = await loadPDFDocument(arrayBuffer, password);
+  } catch (error) {
+    if (error instanceof PdfPasswordRequiredError) throw error; // Callers prompt for the password
+    console.error('Error rendering PDF pages:', error);
+    throw new Error(`Failed to render PDF pages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      if (pageNumber < 1 || pageNumber > pdf.numPages) {
+        console.warn(`Page ${pageNumber} is out of range. PDF has ${pdf.numPages} pages.`);
+        continue;
+      }
+
+      signal?.throwIfAborted();
+
+      let image: Blob;
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+        await page.render({
+          canvas: canvas as HTMLCanvasElement, // OffscreenCanvas works the same inside the extraction worker
+          canvasContext: getContext2D(canvas),
+          viewport,
+        }).promise;
+
+        image = await canvasToBlob(canvas);
+
+        page.cleanup();
+        canvas.width = 0;
+        canvas.height = 0;
+      } catch (error) {
+        console.error(`Error rendering PDF page ${pageNumber}:`, error);
+        throw new Error(`Failed to render PDF pages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      // Errors thrown by the caller while handling the page end the loop without passing through the catch above
+      yield { pageNumber, image };
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Render small previews of PDF pages, e.g. for choosing which pages to extract
+ * Pages are rendered one at a time and handed over as soon as each is ready
+ * @param file - PDF file to preview
+ * @param pageNumbers - Pages to render (1-indexed)
+ * @param options - Thumbnail width, password, abort signal and callback
+ */
+export async function renderPDFThumbnails(
+  file: File,
+  pageNumbers: number[],
+  { width = THUMBNAIL_WIDTH, password, signal, onThumbnail }: PdfThumbnailOptions = {}
+): Promise<void> {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await loadPDFDocument(arrayBuffer, password);
+
+    try {
+      for (const pageNumber of pageNumbers) {
+        if (signal?.aborted) break;
+        if (pageNumber < 1 || pageNumber > pdf.numPages) continue;
+
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+        const canvas = createCanvas(viewport.width, viewport.height);
+
+        await page.render({
+          canvas: canvas as HTMLCanvasElement,
+          canvasContext: getContext2D(canvas),
+          viewport,
+        }).promise;
+
+        const image = await canvasToBlob(canvas, 'image/jpeg');
+        page.cleanup();
+        canvas.width = 0;
+        canvas.height = 0;
+
+        if (!signal?.aborted) onThumbnail?.(pageNumber, image);
+      }
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    if (error instanceof PdfPasswordRequiredError) throw error; // Callers prompt for the password
+    console.error('Error rendering PDF thumbnails:', error);
+    throw new Error(`Failed to render PDF thumbnails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Get basic information about a PDF file
  * @param file - PDF file to analyze
+ * @param password - Password for encrypted PDFs
  * @returns Promise containing PDF information
  */
-export async function getPDFInfo(file: File): Promise<{
+export async function getPDFInfo(file: File, password?: string): Promise<{
   pageCount: number;
   hasText: boolean;
   fileSize: number;
   metadata?: PdfExtractionResult['metadata'];
 }> {
+  let pdf: Awaited<ReturnType<typeof loadPDFDocument>> | undefined;
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    pdf = await loadPDFDocument(arrayBuffer, password);
     
-    // Check if PDF has extractable text by trying to extract from first page
+    // Check a few pages for extractable text; a scanned cover or blank last page shouldn't decide for the whole file
     let hasText = false;
-    try {
-      const firstPage = await pdf.getPage(1);
-      const textContent = await firstPage.getTextContent();
-      hasText = textContent.items.length > 0;
-    } catch {
-      hasText = false;
+    for (const pageNumber of samplePageNumbers(pdf.numPages, TEXT_SAMPLE_PAGES)) {
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        hasText = textContent.items.length > 0;
+      } catch {
+        hasText = false;
+      }
+      if (hasText) break;
     }
 
     // Get metadata
@@ -182,7 +521,16 @@ export async function getPDFInfo(file: File): Promise<{
       metadata,
     };
   } catch (error) {
+    if (error instanceof PdfPasswordRequiredError) throw error; // Callers prompt for the password
     console.error('Error getting PDF info:', error);
     throw new Error(`Failed to get PDF information: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    await pdf?.destroy();
   }
+}
+
+// Up to `count` page numbers spread evenly from the first page to the last
+function samplePageNumbers(pageCount: number, count: number): number[] {
+  if (pageCount <= count) return Array.from({ length: pageCount }, (_, i) => i + 1);
+  return Array.from({ length: count }, (_, i) => 1 + Math.round((i * (pageCount - 1)) / (count - 1)));
 }
\ No newline at end of file
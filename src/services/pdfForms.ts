@@ -0,0 +1,391 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { BoundingBox } from './sourceAnchors';
+
+export interface PdfFormField {
+  name: string; // Fully qualified field name, e.g. "applicant.icNumber"
+  type: 'text' | 'checkbox' | 'radio' | 'choice' | 'signature' | 'button';
+  value: string | boolean | null; // Checkboxes report whether they are ticked
+  page?: number; // 1-indexed page of the field's first widget
+  readOnly: boolean;
+}
+
+export interface PdfAnnotation {
+  page: number; // 1-indexed
+  type: string; // Annotation subtype, e.g. "text" (sticky note), "highlight", "freetext"
+  author?: string;
+  contents: string;
+  modified?: Date;
+  bbox?: BoundingBox; // PDF units, top-left origin
+}
+
+// A signature dictionary found in the file. The cryptographic signature itself is not verified.
+export interface PdfSignature {
+  fieldName?: string;
+  page?: number;
+  signerName?: string; // /Name entry, or the signing certificate's common name
+  signingTime?: Date;
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  subFilter?: string; // Signature format, e.g. "adbe.pkcs7.detached", "ETSI.CAdES.detached"
+  isTimestamp: boolean; // Document timestamp rather than a personal signature
+  byteRange: number[];
+  coversWholeDocument: boolean; // The signed byte range reaches the end of the file
+  modifiedAfterSigning: boolean; // Revisions were appended to the file after this signature
+}
+
+// Annotation subtypes that carry no reviewer content
+const IGNORED_ANNOTATION_TYPES = new Set(['widget', 'link', 'popup']);
+
+/**
+ * Read AcroForm field names and values
+ * @param pdf - Loaded PDF document
+ * @returns Promise containing one entry per field
+ */
+export async function extractPDFFormFields(pdf: PDFDocumentProxy): Promise<PdfFormField[]> {
+  const fieldObjects = await pdf.getFieldObjects();
+  if (!fieldObjects) return [];
+
+  const fields: PdfFormField[] = [];
+  for (const [name, widgets] of Object.entries(fieldObjects)) {
+    // Each widget of a field reports the same value; parent entries without a type only group kids
+    const widget = (widgets as Array<Record<string, unknown>>).find((item) => item.type);
+    if (!widget) continue;
+
+    const rawValue = widget.value;
+    let type: PdfFormField['type'];
+    let value: PdfFormField['value'] = typeof rawValue === 'string' ? rawValue : null;
+
+    switch (widget.type) {
+      case 'text':
+        type = 'text';
+        break;
+      case 'checkbox':
+        type = 'checkbox';
+        value = typeof rawValue === 'string' && rawValue !== 'Off';
+        break;
+      case 'radiobutton':
+        type = 'radio';
+        value = rawValue === 'Off' ? null : value;
+        break;
+      case 'combobox':
+      case 'listbox':
+        type = 'choice';
+        break;
+      case 'signature':
+        type = 'signature';
+        value = null;
+        break;
+      default:
+        type = 'button';
+        value = null;
+    }
+
+    fields.push({
+      name,
+      type,
+      value,
+      page: typeof widget.page === 'number' ? widget.page + 1 : undefined,
+      readOnly: widget.editable === false,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Read reviewer annotations (sticky notes, highlights, free text, stamps) from pages
+ * @param pdf - Loaded PDF document
+ * @param pageNumbers - Pages to read (1-indexed)
+ * @returns Promise containing annotations in page order
+ */
+export async function extractPDFAnnotations(pdf: PDFDocumentProxy, pageNumbers: number[]): Promise<PdfAnnotation[]> {
+  const typeNames = new Map<number, string>(
+    Object.entries(pdfjsLib.AnnotationType).map(([name, value]) => [value as number, name.toLowerCase()])
+  );
+  const annotations: PdfAnnotation[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    if (pageNumber < 1 || pageNumber > pdf.numPages) continue;
+
+    const page = await pdf.getPage(pageNumber);
+    const { height } = page.getViewport({ scale: 1 });
+
+    for (const annotation of await page.getAnnotations()) {
+      const type = typeNames.get(annotation.annotationType) || 'unknown';
+      if (IGNORED_ANNOTATION_TYPES.has(type)) continue;
+
+      const contents: string = annotation.contentsObj?.str || '';
+      const author: string = annotation.titleObj?.str || '';
+      const [x1, y1, x2, y2] = annotation.rect || [];
+
+      annotations.push({
+        page: pageNumber,
+        type,
+        author: author || undefined,
+        contents,
+        modified: parsePDFDate(annotation.modificationDate),
+        bbox: x1 !== undefined
+          ? { x: Math.min(x1, x2), y: height - Math.max(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) }
+          : undefined,
+      });
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * Find signature dictionaries in the raw PDF bytes
+ * pdf.js does not expose signature values, so dictionaries are located through their /ByteRange entry
+ * @param bytes - PDF file contents
+ * @param signatureFields - Signature form fields, used to attach page numbers
+ * @returns Signatures in file order
+ */
+export function extractPDFSignatures(bytes: Uint8Array, signatureFields: PdfFormField[] = []): PdfSignature[] {
+  const source = new TextDecoder('latin1').decode(bytes);
+  const signatures: PdfSignature[] = [];
+  const byteRangePattern = /\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = byteRangePattern.exec(source)) !== null) {
+    const byteRange = match.slice(1, 5).map((value) => parseInt(value, 10));
+    const object = findEnclosingObject(source, match.index);
+    if (!object) continue;
+
+    const dictionary = source.slice(object.start, object.end);
+    const signedEnd = byteRange[2] + byteRange[3];
+    const fieldName = findSignatureFieldName(source, object.number, object.generation);
+    const contents = bytes.subarray(byteRange[1] + 1, byteRange[2] - 1); // Hex digits between < and >
+
+    signatures.push({
+      fieldName,
+      page: signatureFields.find((field) => field.name === fieldName)?.page,
+      signerName: readDictionaryString(dictionary, 'Name') || readSignerCommonName(contents),
+      signingTime: parsePDFDate(readDictionaryString(dictionary, 'M')),
+      reason: readDictionaryString(dictionary, 'Reason'),
+      location: readDictionaryString(dictionary, 'Location'),
+      contactInfo: readDictionaryString(dictionary, 'ContactInfo'),
+      subFilter: /\/SubFilter\s*\/([^\s/<>[\]()]+)/.exec(dictionary)?.[1],
+      isTimestamp: /\/Type\s*\/DocTimeStamp/.test(dictionary),
+      byteRange,
+      coversWholeDocument: byteRange[0] === 0 && signedEnd === bytes.length,
+      modifiedAfterSigning: signedEnd < bytes.length,
+    });
+  }
+
+  return signatures;
+}
+
+/**
+ * Parse a PDF date string such as "D:20240115103000+08'00'"
+ * @param value - PDF date string
+ * @returns Parsed date, or undefined when the value is missing or malformed
+ */
+export function parsePDFDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?'?/.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone, zoneHours = '00', zoneMinutes = '00'] = match;
+  const offset = zone === '+' || zone === '-' ? `${zone}${zoneHours}:${zoneMinutes}` : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function findEnclosingObject(source: string, position: number): { start: number; end: number; number: number; generation: number } | undefined {
+  const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+  const searchFrom = Math.max(0, source.lastIndexOf(' obj', position) - 24);
+  objectPattern.lastIndex = searchFrom;
+
+  let header: RegExpExecArray | null;
+  let last: RegExpExecArray | null = null;
+  while ((header = objectPattern.exec(source)) !== null && header.index < position) {
+    last = header;
+  }
+  if (!last) return undefined;
+
+  const end = source.indexOf('endobj', position);
+  return {
+    start: last.index,
+    end: end >= 0 ? end : source.length,
+    number: parseInt(last[1], 10),
+    generation: parseInt(last[2], 10),
+  };
+}
+
+/**
+ * Find the /T name of the field whose /V points at a signature object
+ */
+function findSignatureFieldName(source: string, objectNumber: number, generation: number): string | undefined {
+  const reference = new RegExp(`/V\\s+${objectNumber}\\s+${generation}\\s+R\\b`, 'g');
+  const match = reference.exec(source);
+  if (!match) return undefined;
+
+  const field = findEnclosingObject(source, match.index);
+  return field ? readDictionaryString(source.slice(field.start, field.end), 'T') : undefined;
+}
+
+/**
+ * Read a literal "(...)" or hex "<...>" string value of a dictionary key
+ */
+function readDictionaryString(dictionary: string, key: string): string | undefined {
+  const keyMatch = new RegExp(`/${key}\\s*([(<])`).exec(dictionary);
+  if (!keyMatch) return undefined;
+
+  const start = keyMatch.index + keyMatch[0].length - 1;
+  const bytes: number[] = [];
+
+  if (keyMatch[1] === '<') {
+    if (dictionary[start + 1] === '<') return undefined; // A nested dictionary, not a string
+    const end = dictionary.indexOf('>', start);
+    const hex = dictionary.slice(start + 1, end < 0 ? undefined : end).replace(/\s+/g, '');
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+    }
+  } else {
+    let depth = 0;
+    for (let i = start + 1; i < dictionary.length; i++) {
+      const char = dictionary[i];
+      if (char === '\\') {
+        const next = dictionary[++i];
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+        if (escapes[next] !== undefined) {
+          bytes.push(escapes[next]);
+        } else if (/[0-7]/.test(next)) {
+          const octal = /^[0-7]{1,3}/.exec(dictionary.slice(i, i + 3))![0];
+          bytes.push(parseInt(octal, 8) & 0xff);
+          i += octal.length - 1;
+        } else if (next === '\r' || next === '\n') {
+          if (next === '\r' && dictionary[i + 1] === '\n') i++; // Line continuation
+        } else {
+          bytes.push(next.charCodeAt(0));
+        }
+        continue;
+      }
+      if (char === '(') depth++;
+      if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      bytes.push(char.charCodeAt(0));
+    }
+  }
+
+  const text = decodePDFTextString(new Uint8Array(bytes)).trim();
+  return text || undefined;
+}
+
+function decodePDFTextString(bytes: Uint8Array): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+interface DerElement {
+  tag: number;
+  start: number; // First content byte
+  end: number; // One past the last content byte
+}
+
+/**
+ * Get the common name of the certificate that produced a PKCS#7 / CMS signature
+ * @param hexContents - Hex-encoded /Contents of the signature dictionary
+ * @returns Signer common name, if the signature can be read
+ */
+function readSignerCommonName(hexContents: Uint8Array): string | undefined {
+  try {
+    const hex = new TextDecoder('latin1').decode(hexContents).replace(/[^0-9a-fA-F]/g, '');
+    const der = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < der.length; i++) {
+      der[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+
+    // ContentInfo { contentType, [0] SignedData { version, digestAlgorithms, encapContentInfo, [0] certificates, [1] crls, signerInfos } }
+    const contentInfo = readDer(der, 0);
+    const [, explicitContent] = readChildren(der, contentInfo);
+    const signedData = readChildren(der, explicitContent)[0];
+    const signedDataChildren = readChildren(der, signedData);
+
+    const certificates = signedDataChildren.find((child) => child.tag === 0xa0);
+    const signerInfos = signedDataChildren[signedDataChildren.length - 1];
+    if (!certificates) return undefined;
+
+    // SignerInfo { version, issuerAndSerialNumber { issuer, serialNumber }, ... }
+    const signerInfo = readChildren(der, signerInfos)[0];
+    const signerId = signerInfo ? readChildren(der, signerInfo)[1] : undefined;
+    const signerSerial = signerId?.tag === 0x30 ? toHex(der, readChildren(der, signerId)[1]) : undefined;
+
+    let fallback: string | undefined;
+    for (const certificate of readChildren(der, certificates)) {
+      const tbs = readChildren(der, readChildren(der, certificate)[0]);
+      const fields = tbs[0]?.tag === 0xa0 ? tbs.slice(1) : tbs; // Skip the optional version
+      const [serial, , , , subject] = fields;
+      const commonName = subject ? readCommonName(der, subject) : undefined;
+
+      if (signerSerial && serial && toHex(der, serial) === signerSerial) return commonName;
+      fallback = fallback || commonName;
+    }
+    return fallback;
+  } catch {
+    return undefined;
+  }
+}
+
+function readCommonName(der: Uint8Array, name: DerElement): string | undefined {
+  for (const relativeName of readChildren(der, name)) {
+    for (const attribute of readChildren(der, relativeName)) {
+      const [type, value] = readChildren(der, attribute);
+      if (type && value && toHex(der, type) === '550403') { // 2.5.4.3 commonName
+        const content = der.subarray(value.start, value.end);
+        return value.tag === 0x1e
+          ? new TextDecoder('utf-16be').decode(content)
+          : new TextDecoder('utf-8').decode(content);
+      }
+    }
+  }
+  return undefined;
+}
+
+function readDer(der: Uint8Array, offset: number): DerElement {
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let start = offset + 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error('Unsupported DER length');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + der[start + i];
+    }
+    start += lengthBytes;
+  }
+
+  if (start + length > der.length) {
+    throw new Error('DER element overruns its buffer');
+  }
+  return { tag, start, end: start + length };
+}
+
+function readChildren(der: Uint8Array, parent: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  let offset = parent.start;
+  while (offset < parent.end) {
+    const child = readDer(der, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+function toHex(der: Uint8Array, element: DerElement): string {
+  return Array.from(der.subarray(element.start, element.end), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { reconstructPageLayout } from './pdfLayout';
+
+// A PDF.js text item at (x, y) in PDF units, y growing upwards
+const item = (str: string, x: number, y: number, width: number, { fontSize = 10, hasEOL = true } = {}): TextItem => ({
+  str,
+  dir: 'ltr',
+  transform: [fontSize, 0, 0, fontSize, x, y],
+  width,
+  height: fontSize,
+  fontName: 'F1',
+  hasEOL,
+});
+
+describe('reconstructPageLayout', () => {
+  it('joins runs on one baseline and keeps paragraph breaks', () => {
+    const { text, columnCount } = reconstructPageLayout([
+      item('The Tenant', 50, 700, 50, { hasEOL: false }),
+      item('shall pay the rent', 104, 700, 90),
+      item('on the first day of each month.', 50, 688, 150),
+      item('The Landlord shall repair the roof.', 50, 640, 170),
+    ], 600);
+
+    expect(columnCount).toBe(1);
+    expect(text).toBe('The Tenant shall pay the rent\non the first day of each month.\n\nThe Landlord shall repair the roof.');
+  });
+
+  it('indents sub-clauses by their distance from the margin, including on the first line', () => {
+    const { text } = reconstructPageLayout([
+      item('(a) the deposit is refunded;', 80, 700, 140),
+      item('2. Rent', 50, 688, 40),
+      item('2.1 The rent is payable monthly.', 65, 676, 160),
+    ], 600);
+
+    expect(text.split('\n')).toEqual(['    (a) the deposit is refunded;', '2. Rent', '  2.1 The rent is payable monthly.']);
+  });
+
+  it('reads two columns one after the other, with a split heading read across both', () => {
+    const items = [item('TERMS AND', 200, 800, 90, { hasEOL: false }), item('CONDITIONS', 296, 800, 90)];
+    for (let line = 0; line < 15; line++) {
+      items.push(item(`Left ${line}`, 50, 770 - line * 12, 200), item(`Right ${line}`, 330, 770 - line * 12, 200));
+    }
+
+    const { text, columnCount } = reconstructPageLayout(items, 600);
+    const lines = text.split('\n');
+
+    expect(columnCount).toBe(2);
+    expect(lines[0].trim()).toBe('TERMS AND CONDITIONS');
+    expect(lines.indexOf('Left 14')).toBeLessThan(lines.indexOf('Right 0'));
+  });
+});
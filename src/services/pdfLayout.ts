@@ -0,0 +1,302 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// A positioned run of text taken from a PDF.js TextItem (PDF user space, y grows upwards)
+interface PositionedRun {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  hasEOL: boolean;
+}
+
+export interface LayoutLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  column: number; // 0 for single-column pages, 0/1 for left/right on two-column pages
+  isHeading: boolean;
+  start: number; // Offset of the line in the reconstructed page text
+  end: number;
+}
+
+export interface PageLayout {
+  text: string;
+  lines: LayoutLine[];
+  columnCount: number;
+}
+
+// Lines whose font is this much larger than the page's body text are treated as headings
+const HEADING_SCALE = 1.2;
+
+// Vertical gap (in multiples of the usual line spacing) that starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.5;
+
+// Horizontal gap (in multiples of font size) that counts as a word break between runs
+const WORD_GAP_RATIO = 0.15;
+
+// Indent step (in multiples of font size) used to reproduce sub-clause indentation
+const INDENT_STEP_RATIO = 1.5;
+
+// Gap across the gutter (in multiples of font size) below which a line's runs are read as one full-width line
+const SPANNING_GAP_RATIO = 1;
+
+/**
+ * Rebuild readable text from the positioned items of a single PDF page.
+ * Uses each item's transform, font size and hasEOL flag to recover lines,
+ * paragraphs, headings, indentation and two-column reading order.
+ * @param items - Text items from page.getTextContent()
+ * @param pageWidth - Page width in PDF units (from page.getViewport({ scale: 1 }))
+ * @returns Reconstructed page text with the lines it was built from
+ */
+export function reconstructPageLayout(items: TextItem[], pageWidth: number): PageLayout {
+  const runs = toPositionedRuns(items);
+  if (runs.length === 0) {
+    return { text: '', lines: [], columnCount: 1 };
+  }
+
+  const bodyFontSize = median(runs.filter(run => run.str.trim()).map(run => run.fontSize)) || 10;
+  const gutter = findColumnGutter(runs, pageWidth);
+
+  // Split the page into horizontal bands: runs crossing the gutter (full-width
+  // headings, signature lines) are read in place, everything else column by column
+  const lines: LayoutLine[] = [];
+  if (gutter === null) {
+    lines.push(...buildLines(runs, 0, bodyFontSize));
+  } else {
+    let band: PositionedRun[] = [];
+
+    const flushBand = () => {
+      if (band.length === 0) return;
+      lines.push(...buildLines(band.filter(run => run.x + run.width / 2 < gutter), 0, bodyFontSize));
+      lines.push(...buildLines(band.filter(run => run.x + run.width / 2 >= gutter), 1, bodyFontSize));
+      band = [];
+    };
+
+    // Decide per line rather than per run: a heading is often split into several runs, none of which crosses the gutter
+    for (const group of groupRunsIntoLines(runs)) {
+      if (isSpanningLine(group, gutter)) {
+        flushBand();
+        lines.push(...buildLines(group, 0, bodyFontSize));
+      } else {
+        band.push(...group);
+      }
+    }
+    flushBand();
+  }
+
+  return {
+    text: renderLines(lines, bodyFontSize),
+    lines,
+    columnCount: gutter === null ? 1 : 2,
+  };
+}
+
+/**
+ * Convert PDF.js text items into positioned runs, dropping marked-content noise
+ */
+function toPositionedRuns(items: TextItem[]): PositionedRun[] {
+  return items
+    .filter(item => item.str.length > 0 || item.hasEOL)
+    .map(item => {
+      const [a, b, c, d, e, f] = item.transform;
+      const fontSize = Math.hypot(c, d) || Math.hypot(a, b) || item.height || 10;
+      return {
+        str: item.str,
+        x: e,
+        y: f,
+        width: item.width,
+        fontSize,
+        hasEOL: item.hasEOL,
+      };
+    });
+}
+
+/**
+ * Look for an empty vertical band in the middle of the page that separates two columns
+ * @returns The x position of the gutter, or null for single-column pages
+ */
+function findColumnGutter(runs: PositionedRun[], pageWidth: number): number | null {
+  const textRuns = runs.filter(run => run.str.trim() && run.width > 0);
+  if (textRuns.length < 20 || pageWidth <= 0) return null;
+
+  const binCount = 100;
+  const binWidth = pageWidth / binCount;
+  const coverage = new Array<number>(binCount).fill(0);
+
+  for (const run of textRuns) {
+    const start = Math.max(0, Math.floor(run.x / binWidth));
+    const end = Math.min(binCount - 1, Math.floor((run.x + run.width) / binWidth));
+    for (let bin = start; bin <= end; bin++) coverage[bin]++;
+  }
+
+  // Only the middle of the page can hold a gutter; allow a few spanning runs
+  const tolerance = Math.max(1, Math.floor(textRuns.length * 0.05));
+  let best: { start: number; length: number } | null = null;
+  let runStart = -1;
+
+  for (let bin = 30; bin <= 70; bin++) {
+    if (coverage[bin] <= tolerance) {
+      if (runStart < 0) runStart = bin;
+      const length = bin - runStart + 1;
+      if (!best || length > best.length) best = { start: runStart, length };
+    } else {
+      runStart = -1;
+    }
+  }
+
+  if (!best || best.length < 2) return null;
+
+  const gutter = (best.start + best.length / 2) * binWidth;
+  const left = textRuns.filter(run => run.x + run.width <= gutter).length;
+  const right = textRuns.filter(run => run.x >= gutter).length;
+
+  // Both sides need a real share of the text, otherwise it's an indented layout
+  if (left < textRuns.length * 0.25 || right < textRuns.length * 0.25) return null;
+
+  return gutter;
+}
+
+/**
+ * Check whether a line of a two-column page runs across the gutter
+ * It does when one of its runs crosses the gutter, or when runs on either side of it are only a word gap apart
+ */
+function isSpanningLine(group: PositionedRun[], gutter: number): boolean {
+  const ordered = [...group].filter(run => run.str.trim()).sort((a, b) => a.x - b.x);
+  return ordered.some((run, index) => {
+    if (run.x < gutter && run.x + run.width > gutter) return true;
+
+    const previous = ordered[index - 1];
+    if (!previous) return false;
+    const previousEnd = previous.x + previous.width;
+    return previousEnd <= gutter && run.x >= gutter && run.x - previousEnd < run.fontSize * SPANNING_GAP_RATIO;
+  });
+}
+
+/**
+ * Group runs that share a baseline, top to bottom; a run ending in EOL closes its line
+ */
+function groupRunsIntoLines(runs: PositionedRun[]): PositionedRun[][] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PositionedRun[][] = [];
+
+  for (const run of sorted) {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    const tolerance = Math.max(run.fontSize, previous?.fontSize || 0) * 0.5;
+
+    if (current && Math.abs(current[0].y - run.y) <= tolerance && !previous.hasEOL) {
+      current.push(run);
+    } else if (current && Math.abs(current[0].y - run.y) <= tolerance && !run.str.trim()) {
+      // Empty EOL markers on the same baseline belong to the line they close
+      current.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Group runs into lines by baseline, then join each line's runs left to right
+ */
+function buildLines(runs: PositionedRun[], column: number, bodyFontSize: number): LayoutLine[] {
+  if (runs.length === 0) return [];
+
+  return groupRunsIntoLines(runs)
+    .map(group => {
+      const ordered = [...group].sort((a, b) => a.x - b.x);
+      let text = '';
+      let cursor = -Infinity;
+
+      for (const run of ordered) {
+        const gap = run.x - cursor;
+        const needsSpace = text.length > 0 &&
+          gap > run.fontSize * WORD_GAP_RATIO &&
+          !/\s$/.test(text) &&
+          !/^\s/.test(run.str);
+        text += (needsSpace ? ' ' : '') + run.str;
+        cursor = Math.max(cursor, run.x + run.width);
+      }
+
+      const printable = ordered.filter(run => run.str.trim());
+      const fontSize = Math.max(...(printable.length ? printable : ordered).map(run => run.fontSize));
+      const x = Math.min(...ordered.map(run => run.x));
+
+      return {
+        text: text.replace(/\s+$/, ''),
+        x,
+        y: ordered[0].y,
+        width: cursor - x,
+        height: fontSize,
+        fontSize,
+        column,
+        isHeading: fontSize >= bodyFontSize * HEADING_SCALE,
+        start: 0,
+        end: 0,
+      };
+    })
+    .filter(line => line.text.trim().length > 0);
+}
+
+/**
+ * Render lines as text, inserting paragraph breaks, heading separation and indentation
+ * Records each line's offsets in the rendered text on the line itself
+ */
+function renderLines(lines: LayoutLine[], bodyFontSize: number): string {
+  if (lines.length === 0) return '';
+
+  // Typical distance between consecutive baselines in the same column
+  const spacings: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].column === lines[i - 1].column) {
+      const spacing = lines[i - 1].y - lines[i].y;
+      if (spacing > 0) spacings.push(spacing);
+    }
+  }
+  const lineSpacing = median(spacings) || bodyFontSize * 1.2;
+
+  // Left margin per column, used to measure indentation
+  const margins = new Map<number, number>();
+  for (const line of lines) {
+    margins.set(line.column, Math.min(margins.get(line.column) ?? Infinity, line.x));
+  }
+
+  const output: string[] = [];
+  let offset = 0;
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (previous) {
+      const gap = previous.y - line.y;
+      const newParagraph =
+        line.column !== previous.column ||
+        gap > lineSpacing * PARAGRAPH_GAP_RATIO ||
+        gap < 0 ||
+        line.isHeading !== previous.isHeading;
+      if (newParagraph && output[output.length - 1] !== '') {
+        output.push('');
+        offset += 1;
+      }
+    }
+
+    const indentLevel = Math.round((line.x - (margins.get(line.column) ?? line.x)) / (bodyFontSize * INDENT_STEP_RATIO));
+    const indent = '  '.repeat(Math.max(0, Math.min(indentLevel, 6)));
+    const content = line.text.trim();
+    line.start = offset + indent.length;
+    line.end = line.start + content.length;
+    output.push(indent + content);
+    offset += indent.length + content.length + 1;
+  });
+
+  return output.join('\n');
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,410 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { buildTable, ExtractedTable } from './tables';
+
+// A straight horizontal or vertical rule drawn on the page (PDF user space, y grows upwards)
+interface Rule {
+  position: number; // y of a horizontal rule, x of a vertical one
+  from: number; // Start along the rule's direction
+  to: number;
+}
+
+// A piece of text with its position, taken from a PDF.js TextItem
+interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+// Painting operators that draw the path they close; clipping paths (endPath) draw nothing
+const PAINTING_OPS = new Set<number>([
+  pdfjsLib.OPS.stroke,
+  pdfjsLib.OPS.closeStroke,
+  pdfjsLib.OPS.fill,
+  pdfjsLib.OPS.eoFill,
+  pdfjsLib.OPS.fillStroke,
+  pdfjsLib.OPS.eoFillStroke,
+  pdfjsLib.OPS.closeFillStroke,
+  pdfjsLib.OPS.closeEOFillStroke,
+]);
+
+// Path segment operators in constructPath data (PDF.js DrawOPS)
+const DRAW_MOVE_TO = 0;
+const DRAW_LINE_TO = 1;
+const DRAW_CURVE_TO = 2;
+const DRAW_CLOSE_PATH = 3;
+
+// Distance in PDF units within which rules and edges count as the same line
+const RULE_TOLERANCE = 2;
+// Filled rectangles thinner than this are drawn rules rather than shading
+const MAX_RULE_THICKNESS = 3;
+// Horizontal gap (in multiples of font size) between text runs that separates table cells
+const CELL_GAP_RATIO = 1.5;
+// Aligned text needs this many rows in a row before it's read as a table
+const MIN_ALIGNED_ROWS = 3;
+// Vertical gap (in multiples of font size) that ends a table of aligned text
+const MAX_ROW_GAP_RATIO = 2.5;
+
+/**
+ * Find the tables on a PDF page
+ * Tables drawn with ruling lines are read cell by cell from the grid; elsewhere, runs of lines whose
+ * text falls into the same columns are read as tables without borders
+ * @param page - PDF.js page
+ * @param items - Text items from page.getTextContent()
+ * @param pageNumber - Page number, recorded on each table
+ * @returns Tables in reading order, top to bottom
+ */
+export async function extractPDFTables(page: PDFPageProxy, items: TextItem[], pageNumber: number): Promise<ExtractedTable[]> {
+  const texts = toPositionedText(items);
+  if (texts.length === 0) return [];
+
+  const operatorList = await page.getOperatorList();
+  const { horizontal, vertical } = collectRules(operatorList.fnArray, operatorList.argsArray);
+
+  const tables: Array<{ top: number; table: ExtractedTable }> = [];
+  const used = new Set<PositionedText>();
+
+  for (const grid of findGrids(horizontal, vertical)) {
+    const table = readRuledTable(grid, texts, used, pageNumber);
+    if (table) tables.push({ top: grid.ys[0], table });
+  }
+
+  const remaining = texts.filter((text) => !used.has(text));
+  for (const { top, cells } of findAlignedTables(remaining)) {
+    const table = buildTable(cells, { detection: 'aligned', page: pageNumber });
+    if (table) tables.push({ top, table });
+  }
+
+  return tables.sort((a, b) => b.top - a.top).map(({ table }) => table);
+}
+
+function toPositionedText(items: TextItem[]): PositionedText[] {
+  return items
+    .filter((item) => item.str.trim().length > 0)
+    .map((item) => {
+      const [a, b, c, d, e, f] = item.transform;
+      return {
+        str: item.str,
+        x: e,
+        y: f,
+        width: item.width,
+        fontSize: Math.hypot(c, d) || Math.hypot(a, b) || item.height || 10,
+      };
+    });
+}
+
+/**
+ * Collect the horizontal and vertical lines drawn on the page
+ * Follows the transformation matrix through save/restore and form XObjects so rules line up with the text
+ */
+function collectRules(fnArray: number[], argsArray: unknown[]): { horizontal: Rule[]; vertical: Rule[] } {
+  const horizontal: Rule[] = [];
+  const vertical: Rule[] = [];
+  const stack: Matrix[] = [];
+  let matrix: Matrix = [1, 0, 0, 1, 0, 0];
+
+  const addSegment = (x1: number, y1: number, x2: number, y2: number) => {
+    if (Math.abs(y1 - y2) <= RULE_TOLERANCE / 2 && Math.abs(x1 - x2) > RULE_TOLERANCE) {
+      horizontal.push({ position: (y1 + y2) / 2, from: Math.min(x1, x2), to: Math.max(x1, x2) });
+    } else if (Math.abs(x1 - x2) <= RULE_TOLERANCE / 2 && Math.abs(y1 - y2) > RULE_TOLERANCE) {
+      vertical.push({ position: (x1 + x2) / 2, from: Math.min(y1, y2), to: Math.max(y1, y2) });
+    }
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i] as unknown[] | null;
+    switch (fnArray[i]) {
+      case pdfjsLib.OPS.save:
+        stack.push(matrix);
+        break;
+      case pdfjsLib.OPS.restore:
+        matrix = stack.pop() || matrix;
+        break;
+      case pdfjsLib.OPS.transform:
+        matrix = multiply(matrix, args as Matrix);
+        break;
+      case pdfjsLib.OPS.paintFormXObjectBegin: {
+        stack.push(matrix);
+        const formMatrix = args?.[0] as ArrayLike<number> | null | undefined;
+        if (formMatrix?.length === 6) matrix = multiply(matrix, Array.from(formMatrix) as Matrix);
+        break;
+      }
+      case pdfjsLib.OPS.paintFormXObjectEnd:
+        matrix = stack.pop() || matrix;
+        break;
+      case pdfjsLib.OPS.constructPath: {
+        const [op, data] = args as [number, unknown[] | null];
+        const path = data?.[0];
+        if (!PAINTING_OPS.has(op) || !(path instanceof Float32Array || Array.isArray(path))) break;
+        const isFill = op === pdfjsLib.OPS.fill || op === pdfjsLib.OPS.eoFill;
+        for (const subpath of readSubpaths(path as ArrayLike<number>, matrix)) {
+          if (isFill) {
+            addFilledRule(subpath, addSegment);
+          } else {
+            for (let p = 1; p < subpath.length; p++) {
+              addSegment(subpath[p - 1][0], subpath[p - 1][1], subpath[p][0], subpath[p][1]);
+            }
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return { horizontal: mergeRules(horizontal), vertical: mergeRules(vertical) };
+}
+
+/**
+ * Split constructPath data into subpaths of page-space points; curves only keep their end point
+ */
+function readSubpaths(path: ArrayLike<number>, matrix: Matrix): Array<Array<[number, number]>> {
+  const subpaths: Array<Array<[number, number]>> = [];
+  let current: Array<[number, number]> = [];
+  const point = (x: number, y: number): [number, number] => [
+    matrix[0] * x + matrix[2] * y + matrix[4],
+    matrix[1] * x + matrix[3] * y + matrix[5],
+  ];
+
+  for (let i = 0; i < path.length;) {
+    switch (path[i++]) {
+      case DRAW_MOVE_TO:
+        if (current.length > 1) subpaths.push(current);
+        current = [point(path[i++], path[i++])];
+        break;
+      case DRAW_LINE_TO:
+        current.push(point(path[i++], path[i++]));
+        break;
+      case DRAW_CURVE_TO:
+        i += 4;
+        current.push(point(path[i++], path[i++]));
+        break;
+      case DRAW_CLOSE_PATH:
+        if (current.length > 0) current.push(current[0]);
+        break;
+      default:
+        return subpaths;
+    }
+  }
+  if (current.length > 1) subpaths.push(current);
+  return subpaths;
+}
+
+// Thin filled rectangles are how many generators draw table borders
+function addFilledRule(points: Array<[number, number]>, addSegment: (x1: number, y1: number, x2: number, y2: number) => void) {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const [left, right, bottom, top] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  if (top - bottom <= MAX_RULE_THICKNESS) {
+    addSegment(left, (top + bottom) / 2, right, (top + bottom) / 2);
+  } else if (right - left <= MAX_RULE_THICKNESS) {
+    addSegment((left + right) / 2, bottom, (left + right) / 2, top);
+  }
+}
+
+// Join rules that continue each other along the same line, e.g. one border drawn cell by cell
+function mergeRules(rules: Rule[]): Rule[] {
+  const sorted = [...rules].sort((a, b) => a.position - b.position || a.from - b.from);
+  const merged: Rule[] = [];
+  for (const rule of sorted) {
+    const last = merged.find((other) =>
+      Math.abs(other.position - rule.position) <= RULE_TOLERANCE && rule.from <= other.to + RULE_TOLERANCE && rule.to >= other.from - RULE_TOLERANCE);
+    if (last) {
+      last.from = Math.min(last.from, rule.from);
+      last.to = Math.max(last.to, rule.to);
+    } else {
+      merged.push({ ...rule });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Group crossing rules into grids; each grid has the column edges (left to right) and row edges (top to bottom)
+ */
+function findGrids(horizontal: Rule[], vertical: Rule[]): Array<{ xs: number[]; ys: number[] }> {
+  const crosses = (h: Rule, v: Rule) =>
+    v.position >= h.from - RULE_TOLERANCE && v.position <= h.to + RULE_TOLERANCE &&
+    h.position >= v.from - RULE_TOLERANCE && h.position <= v.to + RULE_TOLERANCE;
+
+  // Connected groups of rules, following crossings between horizontal and vertical rules
+  const grids: Array<{ xs: number[]; ys: number[] }> = [];
+  const seenH = new Set<Rule>();
+  const seenV = new Set<Rule>();
+  for (const start of horizontal) {
+    if (seenH.has(start)) continue;
+    const groupH: Rule[] = [];
+    const groupV: Rule[] = [];
+    const queue: Array<['h' | 'v', Rule]> = [['h', start]];
+    seenH.add(start);
+
+    for (let next = queue.pop(); next; next = queue.pop()) {
+      const [kind, rule] = next;
+      if (kind === 'h') {
+        groupH.push(rule);
+        for (const v of vertical) {
+          if (!seenV.has(v) && crosses(rule, v)) { seenV.add(v); queue.push(['v', v]); }
+        }
+      } else {
+        groupV.push(rule);
+        for (const h of horizontal) {
+          if (!seenH.has(h) && crosses(h, rule)) { seenH.add(h); queue.push(['h', h]); }
+        }
+      }
+    }
+
+    const xs = distinctPositions(groupV.map((rule) => rule.position)).sort((a, b) => a - b);
+    const ys = distinctPositions(groupH.map((rule) => rule.position)).sort((a, b) => b - a);
+    if (xs.length >= 3 && ys.length >= 3) grids.push({ xs, ys });
+  }
+
+  return grids;
+}
+
+function distinctPositions(positions: number[]): number[] {
+  const distinct: number[] = [];
+  for (const position of [...positions].sort((a, b) => a - b)) {
+    if (distinct.length === 0 || position - distinct[distinct.length - 1] > RULE_TOLERANCE) distinct.push(position);
+  }
+  return distinct;
+}
+
+/**
+ * Place text into the cells of a ruled grid by the centre of each run
+ * Cells merged across a missing rule keep their text in the cell where it starts
+ */
+function readRuledTable(
+  grid: { xs: number[]; ys: number[] },
+  texts: PositionedText[],
+  used: Set<PositionedText>,
+  pageNumber: number
+): ExtractedTable | undefined {
+  const { xs, ys } = grid;
+  const cells: PositionedText[][][] = ys.slice(1).map(() => xs.slice(1).map(() => []));
+
+  for (const text of texts) {
+    const centerX = text.x + text.width / 2;
+    const centerY = text.y + text.fontSize / 3;
+    const column = xs.findIndex((x, i) => i < xs.length - 1 && centerX >= x && centerX < xs[i + 1]);
+    const row = ys.findIndex((y, i) => i < ys.length - 1 && centerY <= y && centerY > ys[i + 1]);
+    if (column < 0 || row < 0) continue;
+    cells[row][column].push(text);
+    used.add(text);
+  }
+
+  return buildTable(
+    cells.map((row) => row.map(joinCellText)),
+    { detection: 'ruled', page: pageNumber }
+  );
+}
+
+// Text of one cell, top to bottom and left to right
+function joinCellText(texts: PositionedText[]): string {
+  return [...texts]
+    .sort((a, b) => (Math.abs(a.y - b.y) > Math.min(a.fontSize, b.fontSize) / 2 ? b.y - a.y : a.x - b.x))
+    .map((text) => text.str.trim())
+    .join(' ');
+}
+
+/**
+ * Find runs of lines whose text is spread over the same columns, e.g. a payment schedule without borders
+ * @returns Cell text by row for each table found, with the y of its first line
+ */
+function findAlignedTables(texts: PositionedText[]): Array<{ top: number; cells: string[][] }> {
+  const lines = groupLines(texts).map((line) => ({ y: line[0].y, fontSize: line[0].fontSize, cells: splitCells(line) }));
+  const tables: Array<{ top: number; cells: string[][] }> = [];
+  let block: typeof lines = [];
+
+  const flush = () => {
+    if (block.length >= MIN_ALIGNED_ROWS) {
+      const cells = alignColumns(block.map((line) => line.cells));
+      if (cells) tables.push({ top: block[0].y, cells });
+    }
+    block = [];
+  };
+
+  for (const line of lines) {
+    const previous = block[block.length - 1];
+    const isRow = line.cells.length >= 2;
+    if (!isRow || (previous && previous.y - line.y > line.fontSize * MAX_ROW_GAP_RATIO)) flush();
+    if (isRow) block.push(line);
+  }
+  flush();
+
+  return tables;
+}
+
+// Lines by baseline, top to bottom, each left to right
+function groupLines(texts: PositionedText[]): PositionedText[][] {
+  const lines: PositionedText[][] = [];
+  for (const text of [...texts].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - text.y) <= Math.max(line[0].fontSize, text.fontSize) * 0.5) {
+      line.push(text);
+    } else {
+      lines.push([text]);
+    }
+  }
+  return lines.map((line) => line.sort((a, b) => a.x - b.x));
+}
+
+// Runs separated by a wide gap go into separate cells
+function splitCells(line: PositionedText[]): Array<{ text: string; from: number; to: number }> {
+  const cells: Array<{ text: string; from: number; to: number }> = [];
+  for (const text of line) {
+    const cell = cells[cells.length - 1];
+    if (cell && text.x - cell.to <= text.fontSize * CELL_GAP_RATIO) {
+      cell.text += (text.x - cell.to > text.fontSize * 0.15 ? ' ' : '') + text.str.trim();
+      cell.to = Math.max(cell.to, text.x + text.width);
+    } else {
+      cells.push({ text: text.str.trim(), from: text.x, to: text.x + text.width });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Work out shared columns from the horizontal extent of each row's cells
+ * @returns Cell text by row and column, or undefined when the rows don't share at least two columns
+ */
+function alignColumns(rows: Array<Array<{ text: string; from: number; to: number }>>): string[][] | undefined {
+  // Overlapping cell extents across rows make up one column
+  const columns: Array<{ from: number; to: number }> = [];
+  for (const cell of rows.flat().sort((a, b) => a.from - b.from)) {
+    const column = columns[columns.length - 1];
+    if (column && cell.from <= column.to) {
+      column.to = Math.max(column.to, cell.to);
+    } else {
+      columns.push({ from: cell.from, to: cell.to });
+    }
+  }
+  if (columns.length < 2) return undefined;
+
+  const table: string[][] = [];
+  for (const row of rows) {
+    const cells = columns.map(() => '');
+    for (const cell of row) {
+      const index = columns.findIndex((column) => cell.from >= column.from && cell.from <= column.to);
+      cells[index] = cells[index] ? `${cells[index]} ${cell.text}` : cell.text;
+    }
+    table.push(cells);
+  }
+
+  // Most rows have to fill more than one column, otherwise it's ragged prose
+  const spread = table.filter((cells) => cells.filter(Boolean).length >= 2).length;
+  return spread >= table.length * 0.8 ? table : undefined;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    n[0] * m[0] + n[1] * m[2],
+    n[0] * m[1] + n[1] * m[3],
+    n[2] * m[0] + n[3] * m[2],
+    n[2] * m[1] + n[3] * m[3],
+    n[4] * m[0] + n[5] * m[2] + m[4],
+    n[4] * m[1] + n[5] * m[3] + m[5],
+  ];
+}
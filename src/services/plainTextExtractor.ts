@@ -0,0 +1,103 @@
+import { buildParagraphSpans, TextSpan } from './sourceAnchors';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface PlainTextExtractionOptions {
+  encoding?: TextEncoding; // Force an encoding instead of detecting it
+}
+
+export interface PlainTextExtractionResult {
+  text: string;
+  encoding: TextEncoding;
+  hasBOM: boolean;
+  spans?: TextSpan[]; // Character ranges of `text` mapped to paragraph (line) index
+  metadata?: {
+    wordCount: number;
+    lineCount: number;
+  };
+}
+
+/**
+ * Extract text from a plain text file, detecting its encoding
+ * @param file - Text file to read
+ * @param options - Extraction options
+ * @returns Promise containing decoded text and the encoding used
+ */
+export async function extractTextFromPlainText(
+  file: File,
+  options: PlainTextExtractionOptions = {}
+): Promise<PlainTextExtractionResult> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const detected = detectTextEncoding(bytes);
+    const encoding = options.encoding || detected.encoding;
+
+    // TextDecoder strips a matching BOM by default
+    const decoded = new TextDecoder(encoding).decode(bytes);
+    const text = decoded
+      .replace(/\r\n?/g, '\n') // Normalize line endings
+      .split(String.fromCharCode(0)).join(''); // Drop stray NUL bytes from mis-saved files
+
+    const wordCount = text.trim().split(/\s+/).filter(word => word.length > 0).length;
+    const lineCount = text.split('\n').filter(line => line.trim().length > 0).length;
+
+    return {
+      text,
+      encoding,
+      hasBOM: detected.hasBOM,
+      spans: buildParagraphSpans(text),
+      metadata: {
+        wordCount,
+        lineCount,
+      },
+    };
+  } catch (error) {
+    console.error('Error extracting text from plain text file:', error);
+    throw new Error(`Failed to extract text from text file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Detect the encoding of raw text bytes
+ * Checks for a byte order mark first, then for UTF-16 zero-byte patterns,
+ * then validates UTF-8, falling back to Windows-1252 for legacy files
+ * @param bytes - Raw file bytes
+ * @returns Detected encoding and whether a BOM was present
+ */
+export function detectTextEncoding(bytes: Uint8Array): { encoding: TextEncoding; hasBOM: boolean } {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', hasBOM: true };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', hasBOM: true };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', hasBOM: true };
+  }
+
+  // UTF-16 without a BOM: mostly-ASCII text leaves every other byte zero
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+      return { encoding: 'utf-16le', hasBOM: false };
+    }
+    if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+      return { encoding: 'utf-16be', hasBOM: false };
+    }
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', hasBOM: false };
+  } catch {
+    // Invalid UTF-8 sequences: most likely a Windows "ANSI" file
+    return { encoding: 'windows-1252', hasBOM: false };
+  }
+}
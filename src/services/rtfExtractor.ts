@@ -0,0 +1,261 @@
+import { buildParagraphSpans, TextSpan } from './sourceAnchors';
+
+export interface RtfExtractionOptions {
+  ignoreEmptyParagraphs?: boolean; // Skip empty paragraphs
+}
+
+export interface RtfExtractionResult {
+  text: string;
+  codePage: number; // ANSI code page declared by \ansicpg (default 1252)
+  spans?: TextSpan[]; // Character ranges of `text` mapped to paragraph index
+  metadata?: {
+    wordCount: number;
+    paragraphCount: number;
+  };
+}
+
+// Destinations whose content is never document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'fldinst',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'generator', 'xmlnstbl',
+  'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'filetbl', 'pgdsctbl',
+]);
+
+// Control words that produce text
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+/**
+ * Extract text from an RTF file
+ * @param file - RTF file to extract text from
+ * @param options - Extraction options
+ * @returns Promise containing extracted text and metadata
+ */
+export async function extractTextFromRTF(
+  file: File,
+  options: RtfExtractionOptions = {}
+): Promise<RtfExtractionResult> {
+  try {
+    // RTF is 7-bit ASCII; non-ASCII text is escaped, so a byte-for-byte decode is lossless
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const source = new TextDecoder('latin1').decode(bytes);
+
+    if (!source.trimStart().startsWith('{\\rtf')) {
+      throw new Error('File is not a valid RTF document');
+    }
+
+    const { text, codePage } = convertRTFToText(source);
+
+    let processedText = text;
+    if (options.ignoreEmptyParagraphs) {
+      processedText = processedText
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .join('\n');
+    }
+
+    const wordCount = processedText.trim().split(/\s+/).filter(word => word.length > 0).length;
+    const paragraphCount = processedText.split('\n').filter(para => para.trim().length > 0).length;
+
+    return {
+      text: processedText,
+      codePage,
+      spans: buildParagraphSpans(processedText),
+      metadata: {
+        wordCount,
+        paragraphCount,
+      },
+    };
+  } catch (error) {
+    console.error('Error extracting text from RTF:', error);
+    throw new Error(`Failed to extract text from RTF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Convert RTF source to plain text
+ * Handles groups, ignorable destinations, \'hh escapes in the document code page,
+ * \uN Unicode escapes with their \ucN fallback characters, and paragraph/table breaks
+ * @param source - RTF source, decoded byte-for-byte
+ * @returns Plain text and the document's ANSI code page
+ */
+export function convertRTFToText(source: string): { text: string; codePage: number } {
+  interface GroupState {
+    skip: boolean;
+    unicodeSkip: number;
+  }
+
+  let codePage = 1252;
+  let decoder = createCodePageDecoder(codePage);
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+
+  let output = '';
+  let pendingBytes: number[] = [];
+  let fallbackToSkip = 0; // Fallback characters still to drop after a \uN escape
+  let groupStart = false; // True right after "{", where a destination keyword may appear
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    if (!state.skip) output += decoder.decode(new Uint8Array(pendingBytes));
+    pendingBytes = [];
+  };
+
+  const emit = (value: string) => {
+    flushBytes();
+    if (!state.skip) output += value;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      groupStart = false;
+      i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = source[i + 1];
+
+      // Hex-escaped byte in the document code page
+      if (next === "'") {
+        const byte = parseInt(source.substr(i + 2, 2), 16);
+        i += 4;
+        groupStart = false;
+        if (fallbackToSkip > 0) {
+          fallbackToSkip--;
+          continue;
+        }
+        if (!Number.isNaN(byte)) pendingBytes.push(byte);
+        continue;
+      }
+
+      // Control word: letters followed by an optional signed number and one delimiter space
+      const wordMatch = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(source.slice(i, i + 40));
+      if (wordMatch) {
+        const word = wordMatch[1];
+        const param = wordMatch[2] !== undefined ? parseInt(wordMatch[2], 10) : undefined;
+        i += wordMatch[0].length;
+
+        if (groupStart && SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        }
+        groupStart = false;
+
+        if (word === 'ansicpg' && param !== undefined) {
+          codePage = param;
+          decoder = createCodePageDecoder(codePage);
+        } else if (word === 'uc' && param !== undefined) {
+          state.unicodeSkip = param;
+        } else if (word === 'u' && param !== undefined) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          fallbackToSkip = state.unicodeSkip;
+        } else if (word === 'bin' && param !== undefined) {
+          i += param; // Raw binary data
+        } else if (CONTROL_WORD_TEXT[word] !== undefined) {
+          emit(CONTROL_WORD_TEXT[word]);
+        }
+        continue;
+      }
+
+      // Control symbols
+      groupStart = false;
+      i += 2;
+      switch (next) {
+        case '*':
+          // Ignorable destination: skip unless we understand it (none of ours are ignorable)
+          state.skip = true;
+          break;
+        case '\\':
+        case '{':
+        case '}':
+          emit(next);
+          break;
+        case '~':
+          emit(' ');
+          break;
+        case '_':
+          emit('-');
+          break;
+        case '\n':
+        case '\r':
+          emit('\n');
+          break;
+        default:
+          // Optional hyphen (\-) and formula/index symbols produce no text
+          break;
+      }
+      continue;
+    }
+
+    // Raw line breaks in RTF source are not content
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    groupStart = false;
+    i++;
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--;
+      continue;
+    }
+    emit(char);
+  }
+  flushBytes();
+
+  const text = output
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, codePage };
+}
+
+/**
+ * Create a decoder for an ANSI code page, falling back to Windows-1252 when unsupported
+ */
+function createCodePageDecoder(codePage: number): TextDecoder {
+  const labels: Record<number, string> = {
+    936: 'gbk',
+    950: 'big5',
+    932: 'shift_jis',
+    949: 'euc-kr',
+    65001: 'utf-8',
+  };
+  try {
+    return new TextDecoder(labels[codePage] || `windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
@@ -0,0 +1,123 @@
+import { PdfExtractionResult, renderPDFPages } from './pdfExtractor';
+import { extractTextFromImage, OCRExtractionOptions, OCRExtractionResult } from './ocrExtractor';
+import { joinTextWithSpans, TextSpan } from './sourceAnchors';
+
+export interface ScannedPageResult {
+  pageNumber: number;
+  ocrResult: OCRExtractionResult;
+}
+
+// Render scale for scanned pages; OCR word boxes are in pixels of the page rendered at this scale
+export const OCR_PAGE_SCALE = 2;
+
+export interface MergedPdfOcrResult {
+  text: string;
+  spans: TextSpan[];
+  ocrResult: OCRExtractionResult; // Combined OCR output of the scanned pages only
+  ocrPageNumbers: number[];
+}
+
+/**
+ * OCR pages of a PDF by rendering each one to an image first
+ * Tesseract cannot read PDF files directly, so scanned pages must be rasterized
+ * @param file - PDF file
+ * @param pageNumbers - Pages to OCR (1-indexed)
+ * @param options - OCR extraction options; the logger reports progress across all pages
+ * @param password - Password for encrypted PDFs
+ * @returns Promise containing OCR results in page order
+ */
+export async function extractTextFromPDFPagesWithOCR(
+  file: File,
+  pageNumbers: number[],
+  options: OCRExtractionOptions = {},
+  password?: string
+): Promise<ScannedPageResult[]> {
+  const results: ScannedPageResult[] = [];
+  let pageOptions = options;
+
+  // Render and OCR one page at a time to keep memory flat on long scans; the PDF is opened once for all pages
+  for await (const rendered of renderPDFPages(file, pageNumbers, OCR_PAGE_SCALE, password, options.signal)) {
+    const index = pageNumbers.indexOf(rendered.pageNumber);
+    const pageImage = new File([rendered.image], `${file.name}-page-${rendered.pageNumber}.png`, {
+      type: 'image/png',
+    });
+
+    const ocrResult = await extractTextFromImage(pageImage, {
+      ...pageOptions,
+      logger: options.logger
+        ? (info) => options.logger({
+            status: `${info.status} (page ${rendered.pageNumber})`,
+            progress: (index + info.progress) / pageNumbers.length,
+            page: rendered.pageNumber,
+          })
+        : undefined,
+    });
+
+    results.push({ pageNumber: rendered.pageNumber, ocrResult });
+
+    // Once the fallback languages have read a page better, read the remaining pages with them directly
+    if (pageOptions.fallbackLanguage && ocrResult.language === pageOptions.fallbackLanguage) {
+      pageOptions = { ...pageOptions, language: pageOptions.fallbackLanguage, fallbackLanguage: undefined };
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Merge native PDF text with OCR output page by page
+ * Pages with a text layer keep their native text; scanned pages use the OCR text
+ * @param pdfResult - Result of extractTextFromPDF (must include pages)
+ * @param scannedPages - OCR results for the pages without a text layer
+ * @returns Merged text and spans, plus the combined OCR result
+ */
+export function mergePDFWithOCR(
+  pdfResult: PdfExtractionResult,
+  scannedPages: ScannedPageResult[]
+): MergedPdfOcrResult {
+  const ocrByPage = new Map(scannedPages.map((page) => [page.pageNumber, page.ocrResult]));
+  const pages = pdfResult.pages || [];
+
+  const parts = pages.map((page) => {
+    const ocrResult = ocrByPage.get(page.pageNumber);
+    if (ocrResult) {
+      return {
+        text: ocrResult.text,
+        spans: (ocrResult.spans || []).map((span) => ({ ...span, page: page.pageNumber })),
+      };
+    }
+
+    // Native spans are stored against the combined PDF text; make them page-relative again
+    return {
+      text: page.text,
+      spans: (pdfResult.spans || [])
+        .filter((span) => span.page === page.pageNumber)
+        .map((span) => ({ ...span, start: span.start - page.start, end: span.end - page.start })),
+    };
+  });
+
+  const merged = joinTextWithSpans(parts, '\n\n');
+  const ocrJoined = joinTextWithSpans(
+    scannedPages.map((page) => ({
+      text: page.ocrResult.text,
+      spans: (page.ocrResult.spans || []).map((span) => ({ ...span, page: page.pageNumber })),
+    })),
+    '\n\n'
+  );
+
+  const confidence = scannedPages.length > 0
+    ? scannedPages.reduce((sum, page) => sum + page.ocrResult.confidence, 0) / scannedPages.length
+    : 0;
+
+  return {
+    text: merged.text,
+    spans: merged.spans,
+    ocrResult: {
+      text: ocrJoined.text,
+      confidence,
+      processingTime: scannedPages.reduce((sum, page) => sum + page.ocrResult.processingTime, 0),
+      spans: ocrJoined.spans,
+    },
+    ocrPageNumbers: scannedPages.map((page) => page.pageNumber),
+  };
+}
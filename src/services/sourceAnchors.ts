@@ -0,0 +1,295 @@
+// Rectangle in the source's own coordinates: PDF units for PDFs, pixels for OCR images.
+// The origin is the top-left corner of the page or image.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SourceWordBox {
+  text: string;
+  bbox: BoundingBox;
+  confidence: number; // Recognition confidence, 0-100
+  start?: number; // Inclusive character offset of the word in the extracted text
+  end?: number; // Exclusive character offset of the word in the extracted text
+}
+
+// A character range of an extractor's text and where it came from in the source file
+export interface TextSpan {
+  start: number; // Inclusive character offset into the extracted text
+  end: number; // Exclusive character offset into the extracted text
+  page?: number; // 1-indexed page number (PDF, OCR)
+  bbox?: BoundingBox; // Position on the page (PDF, OCR)
+  paragraphIndex?: number; // 0-indexed paragraph number (DOCX)
+  words?: SourceWordBox[]; // Individual word boxes (OCR)
+}
+
+export interface SourceAnchor extends TextSpan {
+  fileName: string;
+}
+
+export interface SourceLocation {
+  start: number;
+  end: number;
+  anchor?: SourceAnchor;
+  clauseNumber?: string;
+  label: string; // Human-readable citation, e.g. "page 4, clause 7.2"
+}
+
+// Extracted text prepared for snippet search: lower case with whitespace runs collapsed
+export interface SearchableText {
+  haystack: string;
+  positions: number[]; // Offset in the original text of each haystack character
+}
+
+/**
+ * Attach the file name to extractor spans, turning them into source anchors
+ * @param spans - Spans produced by an extractor
+ * @param fileName - Name of the file the spans belong to
+ * @returns Array of source anchors
+ */
+export function toSourceAnchors(spans: TextSpan[] | undefined, fileName: string): SourceAnchor[] {
+  return (spans || []).map(span => ({ ...span, fileName }));
+}
+
+/**
+ * Map each non-empty line of text to a paragraph span
+ * Used by extractors whose output puts one paragraph per line (DOCX, ODT, RTF, plain text)
+ * @param text - Extracted text
+ * @returns Spans in text order with 0-indexed paragraph numbers
+ */
+export function buildParagraphSpans(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const paragraphPattern = /[^\n]+/g;
+  let paragraphMatch: RegExpExecArray | null;
+  while ((paragraphMatch = paragraphPattern.exec(text)) !== null) {
+    if (paragraphMatch[0].trim().length === 0) continue;
+    spans.push({
+      start: paragraphMatch.index,
+      end: paragraphMatch.index + paragraphMatch[0].length,
+      paragraphIndex: spans.length,
+    });
+  }
+  return spans;
+}
+
+/**
+ * Shift spans by a fixed offset and drop those that fall outside [0, length)
+ * Used when an extractor trims or concatenates text after recording spans
+ * @param spans - Spans to shift
+ * @param offset - Amount to add to each offset
+ * @param length - Length of the final text
+ * @returns Shifted and clipped spans
+ */
+export function shiftSpans<T extends TextSpan>(spans: T[], offset: number, length: number): T[] {
+  return spans
+    .map(span => ({
+      ...span,
+      start: Math.max(0, span.start + offset),
+      end: Math.min(length, span.end + offset),
+      ...(span.words && { words: span.words.map(word => shiftWord(word, offset)) }),
+    }))
+    .filter(span => span.end > span.start);
+}
+
+/**
+ * Join text parts (pages, sections) with a separator, re-basing each part's spans onto the result
+ * The joined text is trimmed, matching how the extractors have always returned text
+ * @param parts - Text parts with spans relative to each part
+ * @param separator - String placed between parts
+ * @returns Joined text, merged spans and each part's start offset in the joined text
+ */
+export function joinTextWithSpans(
+  parts: Array<{ text: string; spans: TextSpan[] }>,
+  separator: string
+): { text: string; spans: TextSpan[]; starts: number[] } {
+  const joinedText = parts.map(part => part.text).join(separator);
+  const text = joinedText.trim();
+  const leadingTrim = joinedText.length - joinedText.trimStart().length;
+
+  const spans: TextSpan[] = [];
+  const starts: number[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    starts.push(Math.max(0, offset - leadingTrim));
+    spans.push(...shiftSpans(part.spans, offset - leadingTrim, text.length));
+    offset += part.text.length + separator.length;
+  }
+
+  return { text, spans, starts };
+}
+
+/**
+ * Find the anchor covering a character offset
+ * @param anchors - Anchors of the extraction result
+ * @param offset - Character offset into the extracted text
+ * @returns The innermost anchor containing the offset, if any
+ */
+export function findAnchorAt(anchors: SourceAnchor[] | undefined, offset: number): SourceAnchor | undefined {
+  if (!anchors || anchors.length === 0) return undefined;
+
+  let match: SourceAnchor | undefined;
+  for (const anchor of anchors) {
+    if (anchor.start <= offset && offset < anchor.end) {
+      if (!match || anchor.end - anchor.start < match.end - match.start) {
+        match = anchor;
+      }
+    }
+  }
+
+  // Offsets that land on separators belong to the next anchor
+  return match || anchors.find(anchor => anchor.start >= offset);
+}
+
+/**
+ * Get where each page starts in the extracted text
+ * @param anchors - Anchors of the extraction result
+ * @returns Offset of each page's first anchor, ascending; empty for sources without pages
+ */
+export function getPageStartOffsets(anchors: SourceAnchor[] | undefined): number[] {
+  const starts = new Map<number, number>();
+  for (const anchor of anchors || []) {
+    if (anchor.page === undefined) continue;
+    starts.set(anchor.page, Math.min(starts.get(anchor.page) ?? anchor.start, anchor.start));
+  }
+  return Array.from(starts.values()).sort((a, b) => a - b);
+}
+
+/**
+ * Locate a snippet (e.g. an AI-quoted clause) in the extracted text and describe where it is
+ * Matching ignores case and whitespace differences, and falls back to the snippet's opening words
+ * @param text - Extracted text the anchors refer to
+ * @param anchors - Anchors of the extraction result
+ * @param snippet - Text to locate
+ * @param searchable - The text prepared by buildSearchableText, when locating many snippets in the same text
+ * @returns Location with a citation label, or undefined when the snippet isn't found
+ */
+export function locateSnippet(
+  text: string,
+  anchors: SourceAnchor[] | undefined,
+  snippet: string,
+  searchable: SearchableText = buildSearchableText(text)
+): SourceLocation | undefined {
+  const range = findTextRange(searchable, snippet);
+  if (!range) return undefined;
+
+  const anchor = findAnchorAt(anchors, range.start);
+  const clauseNumber = findClauseNumber(text, range.start);
+
+  return {
+    ...range,
+    anchor,
+    clauseNumber,
+    label: formatLocationLabel(anchor, clauseNumber),
+  };
+}
+
+/**
+ * Build a citation label such as "page 4, clause 7.2" or "paragraph 12"
+ */
+export function formatLocationLabel(anchor?: TextSpan, clauseNumber?: string): string {
+  const parts: string[] = [];
+  if (anchor?.page !== undefined) {
+    parts.push(`page ${anchor.page}`);
+  } else if (anchor?.paragraphIndex !== undefined) {
+    parts.push(`paragraph ${anchor.paragraphIndex + 1}`);
+  }
+  if (clauseNumber) {
+    parts.push(`clause ${clauseNumber}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Insert "[Page N]" markers into text at each page boundary so an LLM can cite pages
+ * @param text - Extracted text the anchors refer to
+ * @param anchors - Anchors of the extraction result
+ * @returns Text with page markers, or the original text when there are no page anchors
+ */
+export function insertPageMarkers(text: string, anchors: SourceAnchor[] | undefined): string {
+  const pageStarts = new Map<number, number>();
+  for (const anchor of anchors || []) {
+    if (anchor.page === undefined) continue;
+    const current = pageStarts.get(anchor.page);
+    if (current === undefined || anchor.start < current) {
+      pageStarts.set(anchor.page, anchor.start);
+    }
+  }
+  if (pageStarts.size === 0) return text;
+
+  const boundaries = [...pageStarts.entries()].sort((a, b) => a[1] - b[1]);
+  let output = '';
+  let cursor = 0;
+  for (const [page, start] of boundaries) {
+    output += text.slice(cursor, start) + `[Page ${page}]\n`;
+    cursor = start;
+  }
+  return output + text.slice(cursor);
+}
+
+/**
+ * Prepare text for locateSnippet by collapsing whitespace while remembering original positions
+ * @param text - Extracted text
+ * @returns Searchable form of the text
+ */
+export function buildSearchableText(text: string): SearchableText {
+  let haystack = '';
+  const positions: number[] = [];
+  let inSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text[i]);
+    if (isSpace) {
+      if (!inSpace && haystack.length > 0) {
+        haystack += ' ';
+        positions.push(i);
+      }
+      inSpace = true;
+    } else {
+      haystack += text[i].toLowerCase();
+      positions.push(i);
+      inSpace = false;
+    }
+  }
+  return { haystack, positions };
+}
+
+/**
+ * Find a snippet's character range in text, ignoring case and whitespace
+ */
+function findTextRange({ haystack, positions }: SearchableText, snippet: string): { start: number; end: number } | undefined {
+  const needle = snippet.replace(/\s+/g, ' ').trim().toLowerCase().replace(/^["'“”]+|["'“”]+$/g, '');
+  if (needle.length < 8) return undefined;
+
+  // Quoted clauses are often truncated or lightly reworded, so try progressively shorter openings
+  for (const length of [needle.length, 120, 60, 30]) {
+    if (length > needle.length) continue;
+    const probe = needle.slice(0, length).trim();
+    const index = haystack.indexOf(probe);
+    if (index >= 0) {
+      const endIndex = Math.min(index + needle.length, haystack.length) - 1;
+      return { start: positions[index], end: positions[endIndex] + 1 };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the number of the clause a character offset sits in, e.g. "7.2" for text under "7.2 Rent Review"
+ */
+function findClauseNumber(text: string, offset: number): string | undefined {
+  const clausePattern = /(?:^|\n)[ \t]*(?:clause|fasal|section|seksyen)?[ \t]*(\d{1,3}(?:\.\d{1,3})*)[.)]?[ \t]+\S/gi;
+
+  let match: RegExpExecArray | null;
+  let last: string | undefined;
+  while ((match = clausePattern.exec(text)) !== null && match.index <= offset) {
+    last = match[1];
+  }
+  return last;
+}
+
+function shiftWord(word: SourceWordBox, offset: number): SourceWordBox {
+  if (word.start === undefined || word.end === undefined) return word;
+  return { ...word, start: word.start + offset, end: word.end + offset };
+}
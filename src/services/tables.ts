@@ -0,0 +1,191 @@
+// Tables found in extracted documents, e.g. payment schedules, rental step-ups and fee tables,
+// with each cell read as the kind of value it holds
+
+export type TableCellType = 'text' | 'number' | 'currency' | 'percentage' | 'date' | 'empty';
+
+export interface TableCell {
+  text: string; // Cell text as printed
+  type: TableCellType;
+  value?: number | string; // Amount or number for numeric cells, ISO date (yyyy-mm-dd) for dates
+  currency?: string; // Currency code for currency cells, e.g. "MYR"
+}
+
+export interface TableColumn {
+  header?: string; // Header cell text, when the table has a header row
+  type: TableCellType; // Type shared by most of the column's cells; 'text' when mixed
+}
+
+export interface ExtractedTable {
+  index: number; // Position among the document's tables
+  detection: 'ruled' | 'aligned' | 'native'; // Found from ruling lines, aligned text positions, or a DOCX table
+  page?: number; // PDF page the table is on
+  columns: TableColumn[];
+  rows: TableCell[][]; // Body rows, each with one cell per column; the header row is in columns
+}
+
+export interface BuildTableOptions {
+  detection: ExtractedTable['detection'];
+  page?: number;
+  headerRows?: number; // Leading rows the source marks as a header; guessed when not given
+}
+
+// A column takes a value type when at least this share of its filled cells agree
+const COLUMN_TYPE_SHARE = 0.8;
+
+const CURRENCY_CODES: Record<string, string> = {
+  rm: 'MYR',
+  myr: 'MYR',
+  $: 'USD',
+  usd: 'USD',
+  us$: 'USD',
+  s$: 'SGD',
+  sgd: 'SGD',
+  '£': 'GBP',
+  gbp: 'GBP',
+  '€': 'EUR',
+  eur: 'EUR',
+  rmb: 'CNY',
+  cny: 'CNY',
+};
+
+// English and Malay month names and abbreviations
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, januari: 1,
+  feb: 2, february: 2, februari: 2,
+  mar: 3, march: 3, mac: 3,
+  apr: 4, april: 4,
+  may: 5, mei: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7, julai: 7,
+  aug: 8, august: 8, ogos: 8, ogo: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, okt: 10, oktober: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12, dis: 12, disember: 12,
+};
+
+// "RM 1,200.00", "USD500" or "1,200.00 MYR"
+const CURRENCY_PREFIX_PATTERN = /^(rm|myr|usd|us\$|s\$|sgd|\$|£|gbp|€|eur|rmb|cny)\s?(\S.*)$/i;
+const CURRENCY_SUFFIX_PATTERN = /^(.*\S)\s?(rm|myr|usd|sgd|gbp|eur|rmb|cny)$/i;
+
+// Digits with thousands separators and decimals, e.g. "1,250.00"; brackets mark negative amounts
+const AMOUNT_PATTERN = /^(\()?-?\d{1,3}(?:,\d{3})*(?:\.\d+)?\)?$|^(\()?-?\d+(?:\.\d+)?\)?$/;
+
+/**
+ * Build a typed table from cell texts
+ * Rows are padded to the same width, empty rows dropped, and each cell typed
+ * @param cells - Cell text by row
+ * @param options - How the table was found, its page and header rows
+ * @returns Typed table, or undefined when fewer than two rows or columns hold text
+ */
+export function buildTable(cells: string[][], options: BuildTableOptions): ExtractedTable | undefined {
+  const filled = cells
+    .map((row) => row.map((cell) => cell.replace(/\s+/g, ' ').trim()))
+    .filter((row) => row.some(Boolean));
+  const columnCount = Math.max(0, ...filled.map((row) => row.length));
+  if (filled.length < 2 || columnCount < 2) return undefined;
+
+  const typed = filled.map((row) => Array.from({ length: columnCount }, (_, i) => parseTableCell(row[i] || '')));
+  const headerRows = options.headerRows ?? (looksLikeHeader(typed[0], typed.slice(1)) ? 1 : 0);
+  const header = typed.slice(0, headerRows);
+  const rows = typed.slice(headerRows);
+
+  const columns = Array.from({ length: columnCount }, (_, i): TableColumn => {
+    const headerText = header.map((row) => row[i].text).filter(Boolean).join(' ');
+    return { header: headerText || undefined, type: getColumnType(rows.map((row) => row[i])) };
+  });
+
+  return { index: 0, detection: options.detection, page: options.page, columns, rows };
+}
+
+/**
+ * Read a table cell as an amount, percentage, date or number where it holds one
+ * @param text - Cell text
+ * @returns Typed cell
+ */
+export function parseTableCell(text: string): TableCell {
+  const trimmed = text.trim();
+  if (!trimmed) return { text: trimmed, type: 'empty' };
+
+  const percentage = /^(-?\d+(?:\.\d+)?)\s?%$/.exec(trimmed);
+  if (percentage) return { text: trimmed, type: 'percentage', value: Number(percentage[1]) };
+
+  const prefixed = CURRENCY_PREFIX_PATTERN.exec(trimmed);
+  const suffixed = CURRENCY_SUFFIX_PATTERN.exec(trimmed);
+  const [symbol, amountText] = prefixed ? [prefixed[1], prefixed[2]] : suffixed ? [suffixed[2], suffixed[1]] : [];
+  if (symbol && amountText) {
+    const amount = parseAmount(amountText);
+    if (amount !== undefined) {
+      return { text: trimmed, type: 'currency', value: amount, currency: CURRENCY_CODES[symbol.toLowerCase()] };
+    }
+  }
+
+  const date = parseDate(trimmed);
+  if (date) return { text: trimmed, type: 'date', value: date };
+
+  const amount = parseAmount(trimmed);
+  if (amount !== undefined) return { text: trimmed, type: 'number', value: amount };
+
+  return { text: trimmed, type: 'text' };
+}
+
+/**
+ * Render a table as tab-separated text with a header line, e.g. for copying
+ * @param table - Extracted table
+ * @returns One line per row
+ */
+export function formatTableAsText(table: ExtractedTable): string {
+  const lines = table.columns.some((column) => column.header)
+    ? [table.columns.map((column) => column.header || '').join('\t')]
+    : [];
+  return [...lines, ...table.rows.map((row) => row.map((cell) => cell.text).join('\t'))].join('\n');
+}
+
+function parseAmount(text: string): number | undefined {
+  const compact = text.replace(/\s/g, '');
+  if (!AMOUNT_PATTERN.test(compact)) return undefined;
+  const negative = compact.startsWith('(') && compact.endsWith(')');
+  const value = Number(compact.replace(/[(),]/g, ''));
+  if (Number.isNaN(value)) return undefined;
+  return negative ? -value : value;
+}
+
+// Dates are read day first, as written in Malaysia
+function parseDate(text: string): string | undefined {
+  let day: number, month: number, year: number;
+
+  const numeric = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(text);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const named = /^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i.exec(text);
+  if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    if (year < 100) year += 2000;
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (named && MONTHS[named[2].toLowerCase()]) {
+    [day, month, year] = [Number(named[1]), MONTHS[named[2].toLowerCase()], Number(named[3])];
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+// A first row of short labels over rows that hold values
+function looksLikeHeader(first: TableCell[], rest: TableCell[][]): boolean {
+  const labels = first.filter((cell) => cell.type !== 'empty');
+  if (labels.length < 2 || labels.some((cell) => cell.type !== 'text' || cell.text.length > 60)) return false;
+  return rest.some((row) => row.some((cell) => cell.type !== 'text' && cell.type !== 'empty'));
+}
+
+function getColumnType(cells: TableCell[]): TableCellType {
+  const filled = cells.filter((cell) => cell.type !== 'empty');
+  if (filled.length === 0) return 'empty';
+
+  const counts = new Map<TableCellType, number>();
+  for (const cell of filled) counts.set(cell.type, (counts.get(cell.type) || 0) + 1);
+  const [type, count] = Array.from(counts).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return count / filled.length >= COLUMN_TYPE_SHARE ? type : 'text';
+}
@@ -1,14 +1,53 @@
-import { extractTextFromPDF, PdfExtractionOptions, PdfExtractionResult } from './pdfExtractor';
+import {
+  extractTextFromPDF,
+  getPDFInfo,
+  PdfExtractionOptions,
+  PdfExtractionResult,
+  PdfPasswordReason,
+  PdfPasswordRequiredError,
+} from './pdfExtractor';
 import { extractTextFromDOCX, DocxExtractionOptions, DocxExtractionResult } from './docxExtractor';
 import { extractTextFromImage, OCRExtractionOptions, OCRExtractionResult, isSupportedImageFormat } from './ocrExtractor';
+import { extractTextFromPlainText, PlainTextExtractionOptions, PlainTextExtractionResult } from './plainTextExtractor';
+import { extractTextFromRTF, RtfExtractionOptions, RtfExtractionResult } from './rtfExtractor';
+import { extractTextFromODT, OdtExtractionOptions, OdtExtractionResult } from './odtExtractor';
+import { extractTextFromDOC, DocExtractionOptions, DocExtractionResult } from './docExtractor';
+import { extractTextFromPDFPagesWithOCR, mergePDFWithOCR } from './scannedPdfExtractor';
+import { getOCRPoolConcurrency } from './ocrWorkerPool';
+import { preprocessImage, ImagePreprocessingOptions, ImagePreprocessingResult } from './imagePreprocessor';
+import { joinTextWithSpans, SourceAnchor, toSourceAnchors } from './sourceAnchors';
+import { buildTable, ExtractedTable } from './tables';
+import {
+  detectDocumentLanguages,
+  DocumentLanguageInfo,
+  getOCRLanguageFor,
+  getSignificantLanguages,
+  getUnsupportedLanguageWarning,
+} from './languageDetector';
 
 export enum SupportedFileType {
   PDF = 'pdf',
   DOCX = 'docx',
   IMAGE = 'image',
+  TEXT = 'text',
+  RTF = 'rtf',
+  ODT = 'odt',
+  DOC = 'doc',
   UNSUPPORTED = 'unsupported'
 }
 
+// Extraction method reported for each file type when extraction fails
+const DEFAULT_EXTRACTION_METHODS: Record<SupportedFileType, UnifiedExtractionResult['extractionMethod']> = {
+  [SupportedFileType.PDF]: 'pdf',
+  [SupportedFileType.DOCX]: 'docx',
+  [SupportedFileType.IMAGE]: 'ocr',
+  [SupportedFileType.TEXT]: 'text',
+  [SupportedFileType.RTF]: 'rtf',
+  [SupportedFileType.ODT]: 'odt',
+  [SupportedFileType.DOC]: 'doc',
+  [SupportedFileType.UNSUPPORTED]: 'ocr',
+};
+
 export interface TextExtractionOptions {
   // PDF specific options
   pdfOptions?: PdfExtractionOptions;
@@ -19,21 +58,49 @@ export interface TextExtractionOptions {
   // OCR specific options
   ocrOptions?: OCRExtractionOptions;
   
+  // Plain text, RTF, ODT and legacy DOC options
+  textOptions?: PlainTextExtractionOptions;
+  rtfOptions?: RtfExtractionOptions;
+  odtOptions?: OdtExtractionOptions;
+  docOptions?: DocExtractionOptions;
+  
   // General options
-  fallbackToOCR?: boolean; // If true, try OCR if primary extraction fails
+  fallbackToOCR?: boolean; // If true, OCR scanned PDF pages and try OCR if primary extraction fails
   preprocessImage?: boolean; // Preprocess images for better OCR accuracy
+  imagePreprocessingOptions?: ImagePreprocessingOptions; // Steps to run when preprocessImage is set
+  signal?: AbortSignal; // Stops PDF reading and OCR between pages and images; the returned promise rejects
 }
 
 export interface UnifiedExtractionResult {
   text: string;
   fileType: SupportedFileType;
-  extractionMethod: 'pdf' | 'docx' | 'ocr';
+  extractionMethod: 'pdf' | 'docx' | 'ocr' | 'text' | 'rtf' | 'odt' | 'doc';
   success: boolean;
   
   // Original results from specific extractors
   pdfResult?: PdfExtractionResult;
   docxResult?: DocxExtractionResult;
   ocrResult?: OCRExtractionResult;
+  textResult?: PlainTextExtractionResult;
+  rtfResult?: RtfExtractionResult;
+  odtResult?: OdtExtractionResult;
+  docResult?: DocExtractionResult;
+  
+  // Image preprocessing applied before OCR; OCR boxes refer to the preprocessed image
+  preprocessing?: Omit<ImagePreprocessingResult, 'image'>;
+  ocrImage?: File; // Image the OCR word boxes of an image file refer to
+  
+  // Span index mapping character ranges of `text` back to the source file
+  anchors?: SourceAnchor[];
+  
+  // Languages of the document and of each paragraph
+  language?: DocumentLanguageInfo;
+  
+  // Tables read into typed rows and columns, e.g. payment schedules and fee tables
+  tables?: ExtractedTable[];
+  
+  // Character ranges of `text` per photo, for documents captured as a series of page photos
+  capturedPages?: CapturedPage[];
   
   // Metadata
   processingTime: number;
@@ -42,9 +109,17 @@ export interface UnifiedExtractionResult {
   
   // Error information
   error?: string;
+  passwordRequired?: PdfPasswordReason; // Set when an encrypted PDF needs a (different) password
   warnings?: string[];
 }
 
+export interface CapturedPage {
+  pageNumber: number; // Position in the capture session, 1-indexed
+  start: number; // Inclusive character offset into the text
+  end: number; // Exclusive character offset into the text
+  confidence: number; // OCR confidence for this page
+}
+
 /**
  * Determine the file type based on file extension and MIME type
  * @param file - File to analyze
@@ -65,6 +140,26 @@ export function detectFileType(file: File): SupportedFileType {
     return SupportedFileType.DOCX;
   }
   
+  // Check legacy Word binary (.doc)
+  if (fileName.endsWith('.doc') || mimeType === 'application/msword') {
+    return SupportedFileType.DOC;
+  }
+  
+  // Check ODT
+  if (fileName.endsWith('.odt') || mimeType === 'application/vnd.oasis.opendocument.text') {
+    return SupportedFileType.ODT;
+  }
+  
+  // Check RTF
+  if (fileName.endsWith('.rtf') || mimeType === 'application/rtf' || mimeType === 'text/rtf') {
+    return SupportedFileType.RTF;
+  }
+  
+  // Check plain text
+  if (fileName.endsWith('.txt') || mimeType === 'text/plain') {
+    return SupportedFileType.TEXT;
+  }
+  
   // Check image formats
   if (isSupportedImageFormat(file)) {
     return SupportedFileType.IMAGE;
@@ -87,6 +182,16 @@ export async function extractText(
   const startTime = Date.now();
   const fileType = detectFileType(file);
   
+  // The PDF and OCR stages check the signal themselves, including during the OCR fallback
+  const { signal } = options;
+  if (signal) {
+    options = {
+      ...options,
+      pdfOptions: { ...options.pdfOptions, signal },
+      ocrOptions: { ...options.ocrOptions, signal },
+    };
+  }
+  
   const baseResult: Partial<UnifiedExtractionResult> = {
     fileType,
     fileSize: file.size,
@@ -102,7 +207,7 @@ export async function extractText(
       extractionMethod: 'ocr',
       success: false,
       processingTime: Date.now() - startTime,
-      error: `Unsupported file type: ${file.name}. Supported formats: PDF, DOCX, and images (JPEG, PNG, GIF, BMP, TIFF, WebP)`,
+      error: `Unsupported file type: ${file.name}. Supported formats: PDF, DOCX, DOC, ODT, RTF, TXT, and images (JPEG, PNG, GIF, BMP, TIFF, WebP)`,
     } as UnifiedExtractionResult;
   }
   
@@ -122,22 +227,57 @@ export async function extractText(
         result = await extractFromImage(file, options, baseResult, startTime);
         break;
         
+      case SupportedFileType.TEXT:
+        result = await extractFromPlainText(file, options, baseResult, startTime);
+        break;
+        
+      case SupportedFileType.RTF:
+        result = await extractFromRTF(file, options, baseResult, startTime);
+        break;
+        
+      case SupportedFileType.ODT:
+        result = await extractFromODT(file, options, baseResult, startTime);
+        break;
+        
+      case SupportedFileType.DOC:
+        result = await extractFromDOC(file, options, baseResult, startTime);
+        break;
+        
       default:
         throw new Error(`Unsupported file type: ${fileType}`);
     }
     
-    return result;
+    return addLanguageInfo(result);
   } catch (error) {
+    // Aborted by the caller; there is nothing to report or fall back to
+    if (signal?.aborted) throw error;
+    
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
-    // Try OCR as fallback if enabled and not already tried
-    if (options.fallbackToOCR && fileType !== SupportedFileType.IMAGE) {
+    // Encrypted PDFs can't be read without the password, so OCR wouldn't get any further
+    if (error instanceof PdfPasswordRequiredError) {
+      return {
+        ...baseResult,
+        text: '',
+        extractionMethod: 'pdf',
+        success: false,
+        processingTime: Date.now() - startTime,
+        error: errorMessage,
+        passwordRequired: error.reason,
+      } as UnifiedExtractionResult;
+    }
+    
+    // Try OCR as fallback if enabled and not already tried (text-based formats have nothing to OCR)
+    if (options.fallbackToOCR && (fileType === SupportedFileType.PDF || fileType === SupportedFileType.DOCX)) {
       try {
         console.warn(`Primary extraction failed for ${file.name}, trying OCR as fallback...`);
-        const ocrResult = await extractFromImage(file, options, baseResult, startTime);
+        // Tesseract can't read PDFs, so PDFs are rasterized page by page first
+        const ocrResult = fileType === SupportedFileType.PDF
+          ? await extractFromRasterizedPDF(file, options, baseResult, startTime)
+          : await extractFromImage(file, options, baseResult, startTime);
         ocrResult.warnings = ocrResult.warnings || [];
         ocrResult.warnings.push(`Primary ${fileType} extraction failed, used OCR as fallback`);
-        return ocrResult;
+        return addLanguageInfo(ocrResult);
       } catch (ocrError) {
         console.error('OCR fallback also failed:', ocrError);
       }
@@ -146,7 +286,7 @@ export async function extractText(
     return {
       ...baseResult,
       text: '',
-      extractionMethod: fileType === SupportedFileType.PDF ? 'pdf' : fileType === SupportedFileType.DOCX ? 'docx' : 'ocr',
+      extractionMethod: DEFAULT_EXTRACTION_METHODS[fileType],
       success: false,
       processingTime: Date.now() - startTime,
       error: errorMessage,
@@ -154,8 +294,108 @@ export async function extractText(
   }
 }
 
+/**
+ * Extract the text of one document photographed page by page
+ * Each photo is preprocessed and OCR'd like an image upload; the pages are joined in order with
+ * their boundaries kept in capturedPages and on the source anchors
+ * @param pages - Page photos in reading order
+ * @param fileName - Name of the assembled document
+ * @param options - Extraction options; the OCR logger reports progress across all pages
+ * @returns Promise containing unified extraction result
+ */
+export async function extractTextFromPhotos(
+  pages: File[],
+  fileName: string,
+  options: TextExtractionOptions = {}
+): Promise<UnifiedExtractionResult> {
+  const startTime = Date.now();
+  const baseResult: Partial<UnifiedExtractionResult> = {
+    fileType: SupportedFileType.IMAGE,
+    fileSize: pages.reduce((total, page) => total + page.size, 0),
+    fileName,
+    warnings: [],
+  };
+  
+  try {
+    const logger = options.ocrOptions?.logger;
+    const pageResults: UnifiedExtractionResult[] = [];
+    const warnings: string[] = [];
+    
+    for (let index = 0; index < pages.length; index++) {
+      options.signal?.throwIfAborted();
+      const pageNumber = index + 1;
+      const pageResult = await extractFromImage(
+        pages[index],
+        {
+          ...options,
+          ocrOptions: {
+            ...options.ocrOptions,
+            signal: options.signal,
+            logger: logger
+              ? (info) => logger({
+                  status: `${info.status} (page ${pageNumber})`,
+                  progress: (index + info.progress) / pages.length,
+                  page: pageNumber,
+                })
+              : undefined,
+          },
+        },
+        baseResult,
+        startTime
+      );
+      pageResults.push(pageResult);
+      warnings.push(...(pageResult.warnings || []).map(warning => `Page ${pageNumber}: ${warning}`));
+    }
+    
+    const joined = joinTextWithSpans(
+      pageResults.map((pageResult, index) => ({
+        text: pageResult.text,
+        spans: (pageResult.ocrResult?.spans || []).map(span => ({ ...span, page: index + 1 })),
+      })),
+      '\n\n'
+    );
+    const capturedPages = pageResults.map((pageResult, index) => ({
+      pageNumber: index + 1,
+      start: joined.starts[index],
+      end: Math.min(joined.starts[index] + pageResult.text.length, joined.text.length),
+      confidence: pageResult.ocrResult?.confidence || 0,
+    }));
+    const confidence = capturedPages.length > 0
+      ? capturedPages.reduce((total, page) => total + page.confidence, 0) / capturedPages.length
+      : 0;
+    
+    return addLanguageInfo({
+      ...baseResult,
+      text: joined.text,
+      extractionMethod: 'ocr',
+      success: true,
+      ocrResult: {
+        text: joined.text,
+        confidence,
+        processingTime: pageResults.reduce((total, pageResult) => total + (pageResult.ocrResult?.processingTime || 0), 0),
+        spans: joined.spans,
+      },
+      capturedPages,
+      anchors: toSourceAnchors(joined.spans, fileName),
+      processingTime: Date.now() - startTime,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    } as UnifiedExtractionResult);
+  } catch (error) {
+    if (options.signal?.aborted) throw error; // Aborted by the caller, not a failure
+    return {
+      ...baseResult,
+      text: '',
+      extractionMethod: 'ocr',
+      success: false,
+      processingTime: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    } as UnifiedExtractionResult;
+  }
+}
+
 /**
  * Extract text from PDF file
+ * Pages without a text layer are OCR'd and merged back in page order when fallbackToOCR is set
  */
 async function extractFromPDF(
   file: File,
@@ -164,6 +404,38 @@ async function extractFromPDF(
   startTime: number
 ): Promise<UnifiedExtractionResult> {
   const pdfResult = await extractTextFromPDF(file, options.pdfOptions);
+  const pages = pdfResult.pages || [];
+  const scannedPageNumbers = pages
+    .filter(page => !page.hasTextLayer)
+    .map(page => page.pageNumber);
+  
+  if (options.fallbackToOCR && scannedPageNumbers.length > 0) {
+    const scannedPages = await extractTextFromPDFPagesWithOCR(
+      file,
+      scannedPageNumbers,
+      routeOCRLanguage(options, pdfResult.text),
+      options.pdfOptions?.password
+    );
+    const merged = mergePDFWithOCR(pdfResult, scannedPages);
+    
+    const warnings = [`OCR used for ${scannedPages.length} of ${pages.length} page(s) without a text layer`];
+    if (merged.ocrResult.confidence < 50) {
+      warnings.push(`Low OCR confidence: ${merged.ocrResult.confidence.toFixed(1)}%`);
+    }
+    
+    return {
+      ...baseResult,
+      text: merged.text,
+      extractionMethod: scannedPageNumbers.length === pages.length ? 'ocr' : 'pdf',
+      success: true,
+      pdfResult,
+      ocrResult: merged.ocrResult,
+      tables: pdfResult.tables,
+      anchors: toSourceAnchors(merged.spans, file.name),
+      processingTime: Date.now() - startTime,
+      warnings,
+    } as UnifiedExtractionResult;
+  }
   
   return {
     ...baseResult,
@@ -171,7 +443,101 @@ async function extractFromPDF(
     extractionMethod: 'pdf',
     success: true,
     pdfResult,
+    tables: pdfResult.tables,
+    anchors: toSourceAnchors(pdfResult.spans, file.name),
+    processingTime: Date.now() - startTime,
+  } as UnifiedExtractionResult;
+}
+
+/**
+ * Type the cells of a DOCX file's native tables
+ * Rows marked to repeat on each page are the header; otherwise the header is guessed
+ */
+function getDocxTables(docxResult: DocxExtractionResult): ExtractedTable[] | undefined {
+  const docxTables = docxResult.structure?.tables;
+  if (!docxTables) return undefined;
+
+  return docxTables
+    .map(table => buildTable(table.rows, { detection: 'native', headerRows: table.headerRows || undefined }))
+    .filter((table): table is ExtractedTable => !!table)
+    .map((table, index) => ({ ...table, index }));
+}
+
+/**
+ * Choose OCR language packs, unless the caller picked them
+ * Text already read from the document (e.g. a PDF's text layer) decides; without it, pages that read
+ * poorly with the default English and Malay packs are retried with Chinese
+ */
+function routeOCRLanguage(options: TextExtractionOptions, knownText?: string): OCRExtractionOptions {
+  const ocrOptions = options.ocrOptions || {};
+  if (ocrOptions.language) return ocrOptions;
+
+  const info = knownText ? detectDocumentLanguages(knownText) : undefined;
+  if (!info) {
+    return { ...ocrOptions, fallbackLanguage: getOCRLanguageFor(['zh']) };
+  }
+
+  // The default packs already cover English and Malay
+  const languages = getSignificantLanguages(info);
+  return languages.includes('zh') ? { ...ocrOptions, language: getOCRLanguageFor(languages) } : ocrOptions;
+}
+
+/**
+ * Identify the document's languages and warn when the analysis doesn't handle them well
+ */
+function addLanguageInfo(result: UnifiedExtractionResult): UnifiedExtractionResult {
+  if (!result.success || !result.text) return result;
+
+  const language = detectDocumentLanguages(result.text);
+  if (!language) return result;
+
+  const warning = getUnsupportedLanguageWarning(language);
+  return {
+    ...result,
+    language,
+    warnings: warning ? [...(result.warnings || []), warning] : result.warnings,
+  };
+}
+
+/**
+ * Extract text from a PDF by rasterizing and OCR-ing every page
+ * Used as the OCR fallback when the text layer can't be read at all
+ */
+async function extractFromRasterizedPDF(
+  file: File,
+  options: TextExtractionOptions,
+  baseResult: Partial<UnifiedExtractionResult>,
+  startTime: number
+): Promise<UnifiedExtractionResult> {
+  const password = options.pdfOptions?.password;
+  const { pageCount } = await getPDFInfo(file, password);
+  const pageNumbers = options.pdfOptions?.pageNumbers || Array.from({ length: pageCount }, (_, i) => i + 1);
+  const scannedPages = await extractTextFromPDFPagesWithOCR(file, pageNumbers, routeOCRLanguage(options), password);
+  
+  // Treat every page as scanned so the merge takes OCR text throughout
+  const merged = mergePDFWithOCR(
+    {
+      text: '',
+      pageCount,
+      pages: pageNumbers.map(pageNumber => ({ pageNumber, text: '', start: 0, hasTextLayer: false })),
+    },
+    scannedPages
+  );
+  
+  const warnings: string[] = [];
+  if (merged.ocrResult.confidence < 50) {
+    warnings.push(`Low OCR confidence: ${merged.ocrResult.confidence.toFixed(1)}%`);
+  }
+  
+  return {
+    ...baseResult,
+    text: merged.text,
+    extractionMethod: 'ocr',
+    success: true,
+    ocrResult: merged.ocrResult,
+    anchors: toSourceAnchors(merged.spans, file.name),
     processingTime: Date.now() - startTime,
+    warnings: warnings.length > 0 ? warnings : undefined,
   } as UnifiedExtractionResult;
 }
 
@@ -197,6 +563,108 @@ async function extractFromDOCX(
     extractionMethod: 'docx',
     success: true,
     docxResult,
+    tables: getDocxTables(docxResult),
+    anchors: toSourceAnchors(docxResult.spans, file.name),
+    processingTime: Date.now() - startTime,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  } as UnifiedExtractionResult;
+}
+
+/**
+ * Extract text from plain text file
+ */
+async function extractFromPlainText(
+  file: File,
+  options: TextExtractionOptions,
+  baseResult: Partial<UnifiedExtractionResult>,
+  startTime: number
+): Promise<UnifiedExtractionResult> {
+  const textResult = await extractTextFromPlainText(file, options.textOptions);
+  
+  const warnings: string[] = [];
+  if (textResult.encoding === 'windows-1252') {
+    warnings.push('Text file is not valid UTF-8; decoded as Windows-1252');
+  }
+  
+  return {
+    ...baseResult,
+    text: textResult.text,
+    extractionMethod: 'text',
+    success: true,
+    textResult,
+    anchors: toSourceAnchors(textResult.spans, file.name),
+    processingTime: Date.now() - startTime,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  } as UnifiedExtractionResult;
+}
+
+/**
+ * Extract text from RTF file
+ */
+async function extractFromRTF(
+  file: File,
+  options: TextExtractionOptions,
+  baseResult: Partial<UnifiedExtractionResult>,
+  startTime: number
+): Promise<UnifiedExtractionResult> {
+  const rtfResult = await extractTextFromRTF(file, options.rtfOptions);
+  
+  return {
+    ...baseResult,
+    text: rtfResult.text,
+    extractionMethod: 'rtf',
+    success: true,
+    rtfResult,
+    anchors: toSourceAnchors(rtfResult.spans, file.name),
+    processingTime: Date.now() - startTime,
+  } as UnifiedExtractionResult;
+}
+
+/**
+ * Extract text from ODT file
+ */
+async function extractFromODT(
+  file: File,
+  options: TextExtractionOptions,
+  baseResult: Partial<UnifiedExtractionResult>,
+  startTime: number
+): Promise<UnifiedExtractionResult> {
+  const odtResult = await extractTextFromODT(file, options.odtOptions);
+  
+  return {
+    ...baseResult,
+    text: odtResult.text,
+    extractionMethod: 'odt',
+    success: true,
+    odtResult,
+    anchors: toSourceAnchors(odtResult.spans, file.name),
+    processingTime: Date.now() - startTime,
+  } as UnifiedExtractionResult;
+}
+
+/**
+ * Extract text from legacy Word (.doc) file
+ */
+async function extractFromDOC(
+  file: File,
+  options: TextExtractionOptions,
+  baseResult: Partial<UnifiedExtractionResult>,
+  startTime: number
+): Promise<UnifiedExtractionResult> {
+  const docResult = await extractTextFromDOC(file, options.docOptions);
+  
+  const warnings: string[] = [];
+  if (docResult.format === 'rtf') {
+    warnings.push('File is RTF saved with a .doc extension');
+  }
+  
+  return {
+    ...baseResult,
+    text: docResult.text,
+    extractionMethod: 'doc',
+    success: true,
+    docResult,
+    anchors: toSourceAnchors(docResult.spans, file.name),
     processingTime: Date.now() - startTime,
     warnings: warnings.length > 0 ? warnings : undefined,
   } as UnifiedExtractionResult;
@@ -211,9 +679,22 @@ async function extractFromImage(
   baseResult: Partial<UnifiedExtractionResult>,
   startTime: number
 ): Promise<UnifiedExtractionResult> {
-  const ocrResult = await extractTextFromImage(file, options.ocrOptions);
-  
   const warnings: string[] = [];
+
+  let image = file;
+  let preprocessing: UnifiedExtractionResult['preprocessing'];
+  if (options.preprocessImage) {
+    try {
+      const { image: preprocessedImage, ...summary } = await preprocessImage(file, options.imagePreprocessingOptions);
+      image = preprocessedImage;
+      preprocessing = summary;
+    } catch (error) {
+      warnings.push(`Image preprocessing skipped: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const ocrResult = await extractTextFromImage(image, routeOCRLanguage(options));
+  
   if (ocrResult.confidence < 50) {
     warnings.push(`Low OCR confidence: ${ocrResult.confidence.toFixed(1)}%`);
   }
@@ -224,6 +705,9 @@ async function extractFromImage(
     extractionMethod: 'ocr',
     success: true,
     ocrResult,
+    preprocessing,
+    ocrImage: image,
+    anchors: toSourceAnchors(ocrResult.spans, file.name),
     processingTime: Date.now() - startTime,
     warnings: warnings.length > 0 ? warnings : undefined,
   } as UnifiedExtractionResult;
@@ -239,27 +723,36 @@ export async function extractTextFromMultipleFiles(
   files: File[],
   options: TextExtractionOptions = {}
 ): Promise<UnifiedExtractionResult[]> {
-  const results: UnifiedExtractionResult[] = [];
-  
-  for (const file of files) {
-    try {
-      const result = await extractText(file, options);
-      results.push(result);
-    } catch (error) {
-      // Add failed result for tracking
-      results.push({
-        text: '',
-        fileType: detectFileType(file),
-        extractionMethod: 'ocr',
-        success: false,
-        processingTime: 0,
-        fileSize: file.size,
-        fileName: file.name,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+  const results: UnifiedExtractionResult[] = new Array(files.length);
+  let nextIndex = 0;
+
+  // Keep as many files in flight as the OCR pool has workers; results stay in input order
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < files.length) {
+      const index = nextIndex++;
+      const file = files[index];
+      try {
+        results[index] = await extractText(file, options);
+      } catch (error) {
+        // Add failed result for tracking
+        const fileType = detectFileType(file);
+        results[index] = {
+          text: '',
+          fileType,
+          extractionMethod: DEFAULT_EXTRACTION_METHODS[fileType],
+          success: false,
+          processingTime: 0,
+          fileSize: file.size,
+          fileName: file.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
     }
-  }
-  
+  };
+
+  const runners = Math.min(files.length, getOCRPoolConcurrency());
+  await Promise.all(Array.from({ length: runners }, () => runNext()));
+
   return results;
 }
 
@@ -329,6 +822,10 @@ export function validateFile(file: File): {
     [SupportedFileType.PDF]: 50 * 1024 * 1024, // 50MB
     [SupportedFileType.DOCX]: 25 * 1024 * 1024, // 25MB
     [SupportedFileType.IMAGE]: 10 * 1024 * 1024, // 10MB
+    [SupportedFileType.TEXT]: 10 * 1024 * 1024, // 10MB
+    [SupportedFileType.RTF]: 25 * 1024 * 1024, // 25MB
+    [SupportedFileType.ODT]: 25 * 1024 * 1024, // 25MB
+    [SupportedFileType.DOC]: 25 * 1024 * 1024, // 25MB
   };
   
   const maxSize = maxSizes[fileType];
@@ -349,5 +846,21 @@ export function validateFile(file: File): {
 
 // Export all types and functions
 export * from './pdfExtractor';
+export * from './pdfForms';
 export * from './docxExtractor';
-export * from './ocrExtractor';
\ No newline at end of file
+export * from './docxStructure';
+export * from './ocrExtractor';
+export * from './plainTextExtractor';
+export * from './rtfExtractor';
+export * from './odtExtractor';
+export * from './docExtractor';
+export * from './scannedPdfExtractor';
+export * from './ocrWorkerPool';
+export * from './imagePreprocessor';
+export * from './ocrReview';
+export * from './sourceAnchors';
+export * from './languageDetector';
+export * from './bundleUnpacker';
+export * from './documentSplitter';
+export * from './pageRanges';
+export * from './tables';
\ No newline at end of file
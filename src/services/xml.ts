@@ -0,0 +1,41 @@
+import { DOMParser as XmlDomParser } from '@xmldom/xmldom';
+
+// Node types; the global Node constants don't exist inside workers
+export const ELEMENT_NODE = 1;
+export const TEXT_NODE = 3;
+
+/**
+ * Parse an XML document, e.g. a part of a DOCX or ODT package
+ * Uses the browser's DOMParser on the page and xmldom inside the extraction worker, which has no DOM
+ * @param xml - XML source
+ * @returns The parsed document, or null when the XML is not well-formed
+ */
+export function parseXML(xml: string): Document | null {
+  if (typeof DOMParser !== 'undefined') {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    return document.getElementsByTagName('parsererror').length > 0 ? null : document;
+  }
+
+  let wellFormed = true;
+  const document = new XmlDomParser({
+    errorHandler: {
+      warning: () => {},
+      error: () => {
+        wellFormed = false;
+      },
+      fatalError: () => {
+        wellFormed = false;
+      },
+    },
+  }).parseFromString(xml, 'application/xml');
+
+  // xmldom implements the subset of the DOM Level 2 API the extractors use
+  return wellFormed ? (document as unknown as Document) : null;
+}
+
+/**
+ * Child elements of an element (xmldom has no `children`)
+ */
+export function childElements(element: Element): Element[] {
+  return Array.from(element.childNodes).filter((node): node is Element => node.nodeType === ELEMENT_NODE);
+}
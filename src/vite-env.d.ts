@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: 'gateway' | 'amplify' | 'fixture'; // Language model backend, 'gateway' by default
+  readonly VITE_LLM_GATEWAY_URL?: string; // API Gateway stage URL for the gateway provider
+}
@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { viteStaticCopy } from "vite-plugin-static-copy";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +10,23 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    // Serve OCR language packs from the app instead of a CDN (see src/services/ocrWorkerPool.ts)
+    viteStaticCopy({
+      targets: [
+        {
+          src: "node_modules/@tesseract.js-data/{eng,msa,chi_sim}/4.0.0_best_int/*.traineddata.gz",
+          dest: "tesseract/lang",
+        },
+      ],
+    }),
+  ].filter(Boolean),
+  worker: {
+    // The extraction worker imports PDF.js and Tesseract, which are split into separate chunks
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),